@@ -0,0 +1,60 @@
+import type { Context } from 'koa';
+import { parseClientHints } from './client-hints.js';
+import type { AutomationFramework, ClientHints } from './types.js';
+
+/**
+ * User agent tokens added by automation tools themselves
+ * (e.g. Playwright's request API sends "Playwright/1.48.0 (x64; ...) node/20.0")
+ */
+const FRAMEWORK_TOKENS: readonly [RegExp, AutomationFramework][] = [
+  [/\bPlaywright\/\d/i, 'playwright'],
+  [/\bPuppeteer\b/i, 'puppeteer'],
+  [/\bSelenium\b|\bWebDriver\b/i, 'selenium'],
+];
+
+/**
+ * Detect headless browsers and automation frameworks from request-level tells
+ *
+ * A request counts as headless on a HeadlessChrome token (user agent or
+ * Sec-CH-UA brand), or on at least two weaker tells: a Chromium user agent
+ * without Accept-Language, client hints contradicting the user agent (typical
+ * of a spoofed user agent), or Playwright's default `Accept-Language: en-US`.
+ *
+ * Headless requests are attributed from the frameworks' header defaults:
+ * Playwright sets a bare `en-US` locale, Puppeteer sets none. Anything else is
+ * 'unknown-headless'. These are heuristics; a framework configured to mimic a
+ * real browser is not detectable from headers alone.
+ *
+ * @param ctx - Koa context of the request
+ * @param userAgent - User agent the request was detected with
+ * @param clientHints - Parsed client hints of the request (parsed from the headers when omitted)
+ * @returns The automation framework, or null for regular browsers and clients
+ */
+export function detectAutomation(
+  ctx: Context,
+  userAgent: string,
+  clientHints: ClientHints | null = parseClientHints(ctx, userAgent)
+): AutomationFramework | null {
+  for (const [token, framework] of FRAMEWORK_TOKENS) {
+    if (token.test(userAgent)) return framework;
+  }
+
+  const isChromium = /(?:Chrome|Chromium)\/\d/.test(userAgent);
+  const acceptLanguage = ctx.get('Accept-Language');
+  const headlessToken =
+    /HeadlessChrome/i.test(userAgent) ||
+    !!clientHints?.brands.some(({ brand }) => brand === 'HeadlessChrome');
+  const tells = [
+    isChromium && !acceptLanguage,
+    !!clientHints?.mismatches.length,
+    acceptLanguage === 'en-US',
+  ].filter(Boolean).length;
+
+  if (!headlessToken && tells < 2) {
+    return null;
+  }
+
+  if (acceptLanguage === 'en-US') return 'playwright';
+  if (!acceptLanguage) return 'puppeteer';
+  return 'unknown-headless';
+}
@@ -1,59 +1,269 @@
-import type { BotDetectionResult, CacheEntry } from './types.js';
+import type {
+  BotCacheStore,
+  BotDetectionCacheOptions,
+  BotDetectionResult,
+  CacheEntry,
+  CacheStats,
+} from './types.js';
+
+/**
+ * Fixed cost of a cache entry (Map slot, entry object, timestamp), in bytes
+ */
+const ENTRY_OVERHEAD = 64;
+
+/**
+ * Fixed cost of an object or array, in bytes
+ */
+const OBJECT_OVERHEAD = 16;
+
+/**
+ * Estimate the memory held by a value, in bytes
+ * Strings count two bytes per character, so long user agents weigh what they cost
+ */
+const estimateSize = (value: unknown): number => {
+  if (typeof value === 'string') {
+    return 2 * value.length;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<number>((size, item) => size + estimateSize(item), OBJECT_OVERHEAD);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).reduce<number>(
+      (size, [key, item]) => size + estimateSize(key) + estimateSize(item),
+      OBJECT_OVERHEAD
+    );
+  }
+  return 8;
+};
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const hash = (key: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h = Math.imul(h ^ key.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Count-Min sketch of key frequencies with 4-bit counters (TinyLFU)
+ *
+ * Counters are halved once the sample size is reached, so keys that were
+ * popular a while ago do not keep their advantage forever.
+ */
+class FrequencySketch {
+  private static readonly DEPTH = 4;
+  private table: Uint8Array;
+  private mask: number;
+  private additions = 0;
+  private sampleSize: number;
+
+  constructor(capacity: number) {
+    // A few counters per entry keeps collisions from inflating one-off keys
+    let width = 64;
+    while (width < capacity * 4) width *= 2;
+    this.table = new Uint8Array(width * FrequencySketch.DEPTH);
+    this.mask = width - 1;
+    this.sampleSize = 10 * width;
+  }
+
+  /**
+   * Table index of a key in each row (double hashing)
+   */
+  private indexes(key: string): number[] {
+    const h1 = hash(key);
+    const h2 = (Math.imul(h1 ^ (h1 >>> 16), 0x45d9f3b) >>> 0) | 1;
+    const width = this.mask + 1;
+    return Array.from(
+      { length: FrequencySketch.DEPTH },
+      (_, row) => row * width + ((h1 + row * h2) & this.mask)
+    );
+  }
+
+  /**
+   * Record an access to a key
+   */
+  increment(key: string): void {
+    for (const index of this.indexes(key)) {
+      if (this.table[index]! < 15) this.table[index]!++;
+    }
+    if (++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  /**
+   * Estimated access count of a key (never under the real count before aging)
+   */
+  frequency(key: string): number {
+    return Math.min(...this.indexes(key).map((index) => this.table[index]!));
+  }
+
+  /**
+   * Halve all counters
+   */
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i]! >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+}
 
 /**
  * Simple LRU cache with TTL support
- * Optimized for bot detection results
+ * Optimized for bot detection results, but can hold any value (e.g. verification outcomes)
+ * Default `BotCacheStore` of `koaIsBot`
+ *
+ * With `maxBytes`, entries are also bounded by their estimated size, so long
+ * user agents take up more of the budget than short ones. With the `tinylfu`
+ * admission policy, a new key only displaces the least recently used entry when
+ * it has been looked up more often, so a flood of one-off user agents cannot
+ * flush hot entries.
+ *
+ * @throws TypeError if maxBytes is not a positive number or admission is unknown
  */
-export class BotDetectionCache {
-  private cache: Map<string, CacheEntry>;
+export class BotDetectionCache<T = BotDetectionResult> implements BotCacheStore<T> {
+  private cache: Map<string, CacheEntry<T>>;
   private maxSize: number;
   private ttl: number;
+  private maxBytes: number;
+  private bytes = 0;
+  private sketch: FrequencySketch | null;
+  private stats: Omit<CacheStats, 'size' | 'bytes' | 'hitRate'>;
+
+  constructor(maxSize = 1000, ttl = 3600000, options: BotDetectionCacheOptions = {}) {
+    const { maxBytes = Infinity, admission = 'lru' } = options;
+    if (typeof maxBytes !== 'number' || !(maxBytes > 0)) {
+      throw new TypeError('maxBytes must be a positive number');
+    }
+    if (admission !== 'lru' && admission !== 'tinylfu') {
+      throw new TypeError(`Unknown cache admission policy: ${String(admission)}`);
+    }
 
-  constructor(maxSize = 1000, ttl = 3600000) {
     this.cache = new Map();
     this.maxSize = maxSize;
     this.ttl = ttl;
+    this.maxBytes = maxBytes;
+    this.sketch = admission === 'tinylfu' ? new FrequencySketch(maxSize) : null;
+    this.stats = this.emptyStats();
+  }
+
+  private emptyStats(): Omit<CacheStats, 'size' | 'bytes' | 'hitRate'> {
+    return { hits: 0, misses: 0, evictions: 0, expirations: 0, rejections: 0, cleanupRuns: 0 };
+  }
+
+  /**
+   * Remove an entry and release its bytes
+   */
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.cache.delete(key);
+    this.bytes -= entry.bytes ?? 0;
+    return true;
+  }
+
+  /**
+   * Whether an entry of the given size fits without evicting
+   */
+  private fits(bytes: number): boolean {
+    return this.cache.size < this.maxSize && this.bytes + bytes <= this.maxBytes;
   }
 
   /**
    * Get a cached result if available and not expired
    */
-  get(userAgent: string): BotDetectionResult | null {
+  get(userAgent: string): T | null {
+    this.sketch?.increment(userAgent);
     const entry = this.cache.get(userAgent);
 
     if (!entry) {
+      this.stats.misses++;
       return null;
     }
 
     // Check if expired
-    if (Date.now() - entry.timestamp > this.ttl) {
-      this.cache.delete(userAgent);
+    if (Date.now() - entry.timestamp > (entry.ttl ?? this.ttl)) {
+      this.remove(userAgent);
+      this.stats.expirations++;
+      this.stats.misses++;
       return null;
     }
 
     // Move to end (LRU)
     this.cache.delete(userAgent);
     this.cache.set(userAgent, entry);
+    this.stats.hits++;
 
     return entry.result;
   }
 
   /**
    * Store a detection result in cache
+   * Entries larger than `maxBytes`, or refused by the admission policy, are not stored
+   * @param ttl - Entry-specific TTL in milliseconds (the cache TTL when omitted)
    */
-  set(userAgent: string, result: BotDetectionResult): void {
-    // Evict oldest entry if cache is full
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey !== undefined) {
-        this.cache.delete(firstKey);
-      }
+  set(userAgent: string, result: T, ttl?: number): void {
+    const bytes = ENTRY_OVERHEAD + estimateSize(userAgent) + estimateSize(result);
+
+    // Replacing an entry frees its slot
+    const replaced = this.remove(userAgent);
+
+    if (bytes > this.maxBytes) {
+      this.stats.rejections++;
+      return;
+    }
+
+    // A new key must be more frequent than the entry it would displace
+    const victim = this.cache.keys().next().value;
+    if (
+      !replaced &&
+      this.sketch &&
+      victim !== undefined &&
+      !this.fits(bytes) &&
+      this.sketch.frequency(userAgent) <= this.sketch.frequency(victim)
+    ) {
+      this.stats.rejections++;
+      return;
+    }
+
+    // Evict the oldest entries until the new one fits
+    while (this.cache.size > 0 && !this.fits(bytes)) {
+      this.remove(this.cache.keys().next().value!);
+      this.stats.evictions++;
     }
 
     this.cache.set(userAgent, {
       result,
       timestamp: Date.now(),
+      bytes,
+      ...(ttl !== undefined && { ttl }),
     });
+    this.bytes += bytes;
+  }
+
+  /**
+   * Remaining time to live of an entry, without counting a lookup
+   */
+  getTTL(userAgent: string): number | null {
+    const entry = this.cache.get(userAgent);
+    if (!entry) {
+      return null;
+    }
+    const remaining = entry.timestamp + (entry.ttl ?? this.ttl) - Date.now();
+    return remaining >= 0 ? remaining : null;
+  }
+
+  /**
+   * Remove a cached entry
+   */
+  delete(userAgent: string): void {
+    this.remove(userAgent);
   }
 
   /**
@@ -61,6 +271,22 @@ export class BotDetectionCache {
    */
   clear(): void {
     this.cache.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Remove the entries matching a predicate
+   * @returns Number of entries removed
+   */
+  prune(predicate: (key: string, value: T) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of [...this.cache.entries()]) {
+      if (predicate(key, entry.result)) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    return removed;
   }
 
   /**
@@ -76,9 +302,169 @@ export class BotDetectionCache {
   cleanup(): void {
     const now = Date.now();
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.ttl) {
-        this.cache.delete(key);
+      if (now - entry.timestamp > (entry.ttl ?? this.ttl)) {
+        this.remove(key);
+        this.stats.expirations++;
       }
     }
+    this.stats.cleanupRuns++;
+  }
+
+  /**
+   * Get cache counters since creation (or the last reset), with the current size and hit rate
+   */
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      size: this.cache.size,
+      bytes: this.bytes,
+      hitRate: lookups === 0 ? 0 : this.stats.hits / lookups,
+    };
+  }
+
+  /**
+   * Reset all counters; cached entries are kept
+   */
+  resetStats(): void {
+    this.stats = this.emptyStats();
+  }
+}
+
+/**
+ * Two-tier cache store: a local LRU in front of a shared store
+ *
+ * Reads hit the local tier first and fill it from the shared tier on a miss;
+ * writes, deletes and clears go to both. The local TTL bounds how long an
+ * instance can serve a value after it changed in the shared store. Local copies
+ * expire with the shared entry when the shared store implements `getTTL`.
+ *
+ * @example
+ * ```typescript
+ * app.use(koaIsBot({
+ *   cacheStore: new TieredCacheStore(redisStore, new BotDetectionCache(1000, 60000)),
+ * }));
+ * ```
+ */
+export class TieredCacheStore<T = unknown> implements BotCacheStore<T> {
+  private local: BotCacheStore<T>;
+  private shared: BotCacheStore<T>;
+
+  constructor(shared: BotCacheStore<T>, local: BotCacheStore<T> = new BotDetectionCache<T>()) {
+    this.local = local;
+    this.shared = shared;
+  }
+
+  /**
+   * Get a value from the local tier, falling back to the shared tier
+   */
+  async get(key: string): Promise<T | null> {
+    const local = await this.local.get(key);
+    if (local !== null) {
+      return local;
+    }
+
+    const shared = await this.shared.get(key);
+    if (shared !== null) {
+      const ttl = (await this.shared.getTTL?.(key)) ?? undefined;
+      await this.local.set(key, shared, ttl);
+    }
+    return shared;
+  }
+
+  /**
+   * Store a value in both tiers
+   */
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    await Promise.all([this.local.set(key, value, ttl), this.shared.set(key, value, ttl)]);
+  }
+
+  /**
+   * Remove a value from both tiers
+   */
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.local.delete(key), this.shared.delete(key)]);
+  }
+
+  /**
+   * Clear both tiers
+   */
+  async clear(): Promise<void> {
+    await Promise.all([this.local.clear(), this.shared.clear()]);
+  }
+}
+
+/**
+ * Reference in-memory implementation of a shared ("remote") cache store
+ *
+ * Behaves like a remote cache: every call is asynchronous, values are stored
+ * serialized (so callers never share object references) and entries expire
+ * individually, without a size limit. Meant for tests and as a template for
+ * Redis- or Memcached-backed stores.
+ */
+export class MemoryRemoteCacheStore<T = unknown> implements BotCacheStore<T> {
+  private entries: Map<string, { value: string; expiresAt: number }>;
+  private ttl: number;
+
+  constructor(ttl = 3600000) {
+    this.entries = new Map();
+    this.ttl = ttl;
+  }
+
+  /**
+   * Get a deserialized copy of a value, or null when missing or expired
+   */
+  get(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(JSON.parse(entry.value) as T);
+  }
+
+  /**
+   * Store a serialized copy of a value
+   */
+  set(key: string, value: T, ttl = this.ttl): Promise<void> {
+    this.entries.set(key, { value: JSON.stringify(value), expiresAt: Date.now() + ttl });
+    return Promise.resolve();
+  }
+
+  /**
+   * Remaining time to live of a value, or null when missing or expired
+   */
+  getTTL(key: string): Promise<number | null> {
+    const entry = this.entries.get(key);
+    const remaining = entry ? entry.expiresAt - Date.now() : -1;
+    return Promise.resolve(remaining >= 0 ? remaining : null);
+  }
+
+  /**
+   * Remove a value
+   */
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Remove all values
+   */
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  /**
+   * Number of stored entries, including expired ones not yet read
+   */
+  get size(): number {
+    return this.entries.size;
   }
 }
@@ -0,0 +1,472 @@
+import type { BotClassification } from './types.js';
+
+/**
+ * Version of the bundled classification table
+ * Bumped whenever entries are added, removed or re-categorised
+ */
+export const BOT_CLASSIFICATION_VERSION = '2025.11.0';
+
+/**
+ * Bundled bot classification table
+ * Entries are evaluated in order, so more specific patterns come first
+ */
+export const BOT_CLASSIFICATIONS: readonly BotClassification[] = [
+  // Search engines
+  {
+    pattern: 'googlebot-image',
+    name: 'Googlebot-Image',
+    category: 'search-engine',
+    subcategory: 'images',
+    operator: 'google',
+  },
+  {
+    pattern: 'googlebot-news',
+    name: 'Googlebot-News',
+    category: 'search-engine',
+    subcategory: 'news',
+    operator: 'google',
+  },
+  {
+    pattern: 'googlebot-video',
+    name: 'Googlebot-Video',
+    category: 'search-engine',
+    subcategory: 'video',
+    operator: 'google',
+  },
+  {
+    pattern: 'storebot-google',
+    name: 'Storebot-Google',
+    category: 'search-engine',
+    subcategory: 'shopping',
+    operator: 'google',
+  },
+  {
+    pattern: 'adsbot-google',
+    name: 'AdsBot-Google',
+    category: 'search-engine',
+    subcategory: 'ads',
+    operator: 'google',
+  },
+  {
+    pattern: 'mediapartners-google',
+    name: 'Mediapartners-Google',
+    category: 'search-engine',
+    subcategory: 'ads',
+    operator: 'google',
+  },
+  {
+    pattern: 'google-inspectiontool',
+    name: 'Google-InspectionTool',
+    category: 'search-engine',
+    subcategory: 'tools',
+    operator: 'google',
+  },
+  {
+    pattern: 'googlebot',
+    name: 'Googlebot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'google',
+  },
+  {
+    pattern: 'adidxbot',
+    name: 'AdIdxBot',
+    category: 'search-engine',
+    subcategory: 'ads',
+    operator: 'microsoft',
+  },
+  {
+    pattern: 'bingpreview',
+    name: 'BingPreview',
+    category: 'search-engine',
+    subcategory: 'preview',
+    operator: 'microsoft',
+  },
+  {
+    pattern: 'bingbot',
+    name: 'Bingbot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'microsoft',
+  },
+  {
+    pattern: 'applebot(?!-extended)',
+    name: 'Applebot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'apple',
+  },
+  {
+    pattern: 'yandex(?:bot|images)',
+    name: 'YandexBot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'yandex',
+  },
+  {
+    pattern: 'baiduspider',
+    name: 'Baiduspider',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'baidu',
+  },
+  {
+    pattern: 'duckduckbot',
+    name: 'DuckDuckBot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'duckduckgo',
+  },
+  {
+    pattern: 'yahoo! slurp',
+    name: 'Slurp',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'yahoo',
+  },
+  {
+    pattern: 'seznambot',
+    name: 'SeznamBot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'seznam',
+  },
+  {
+    pattern: 'petalbot',
+    name: 'PetalBot',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'huawei',
+  },
+  {
+    pattern: 'sogou',
+    name: 'Sogou',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'sogou',
+  },
+  {
+    pattern: 'yeti/',
+    name: 'Yeti',
+    category: 'search-engine',
+    subcategory: 'web',
+    operator: 'naver',
+  },
+
+  // AI crawlers (training and AI search indexing)
+  {
+    pattern: 'gptbot',
+    name: 'GPTBot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'openai',
+  },
+  {
+    pattern: 'oai-searchbot',
+    name: 'OAI-SearchBot',
+    category: 'ai-crawler',
+    subcategory: 'search',
+    operator: 'openai',
+  },
+  {
+    pattern: 'claudebot',
+    name: 'ClaudeBot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'anthropic',
+  },
+  {
+    pattern: 'claude-searchbot',
+    name: 'Claude-SearchBot',
+    category: 'ai-crawler',
+    subcategory: 'search',
+    operator: 'anthropic',
+  },
+  {
+    pattern: 'anthropic-ai',
+    name: 'anthropic-ai',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'anthropic',
+  },
+  {
+    pattern: 'perplexitybot',
+    name: 'PerplexityBot',
+    category: 'ai-crawler',
+    subcategory: 'search',
+    operator: 'perplexity',
+  },
+  {
+    pattern: 'google-extended',
+    name: 'Google-Extended',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'google',
+  },
+  {
+    pattern: 'applebot-extended',
+    name: 'Applebot-Extended',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'apple',
+  },
+  {
+    pattern: 'ccbot',
+    name: 'CCBot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'commoncrawl',
+  },
+  {
+    pattern: 'bytespider',
+    name: 'Bytespider',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'bytedance',
+  },
+  {
+    pattern: 'meta-externalagent',
+    name: 'meta-externalagent',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'meta',
+  },
+  {
+    pattern: 'amazonbot',
+    name: 'Amazonbot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'amazon',
+  },
+  {
+    pattern: 'cohere-ai',
+    name: 'cohere-ai',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'cohere',
+  },
+  {
+    pattern: 'diffbot',
+    name: 'Diffbot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'diffbot',
+  },
+  {
+    pattern: 'imagesiftbot',
+    name: 'ImagesiftBot',
+    category: 'ai-crawler',
+    subcategory: 'training',
+    operator: 'imagesift',
+  },
+
+  // AI agents acting on behalf of a user
+  {
+    pattern: 'chatgpt-user',
+    name: 'ChatGPT-User',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'openai',
+  },
+  {
+    pattern: 'claude-user',
+    name: 'Claude-User',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'anthropic',
+  },
+  {
+    pattern: 'claude-web',
+    name: 'Claude-Web',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'anthropic',
+  },
+  {
+    pattern: '^claude-code/',
+    name: 'Claude-Code',
+    category: 'ai-agent',
+    subcategory: 'coding',
+    operator: 'anthropic',
+  },
+  {
+    pattern: 'perplexity-user',
+    name: 'Perplexity-User',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'perplexity',
+  },
+  {
+    pattern: 'mistralai-user',
+    name: 'MistralAI-User',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'mistral',
+  },
+  {
+    pattern: 'duckassistbot',
+    name: 'DuckAssistBot',
+    category: 'ai-agent',
+    subcategory: 'assistant',
+    operator: 'duckduckgo',
+  },
+
+  // SEO tools
+  { pattern: 'ahrefsbot', name: 'AhrefsBot', category: 'seo', operator: 'ahrefs' },
+  { pattern: 'semrushbot', name: 'SemrushBot', category: 'seo', operator: 'semrush' },
+  { pattern: 'mj12bot', name: 'MJ12bot', category: 'seo', operator: 'majestic' },
+  { pattern: 'dotbot', name: 'DotBot', category: 'seo', operator: 'moz' },
+  { pattern: 'rogerbot', name: 'rogerbot', category: 'seo', operator: 'moz' },
+  {
+    pattern: 'screaming frog',
+    name: 'Screaming Frog SEO Spider',
+    category: 'seo',
+    operator: 'screamingfrog',
+  },
+  { pattern: 'serpstatbot', name: 'serpstatbot', category: 'seo', operator: 'serpstat' },
+  { pattern: 'blexbot', name: 'BLEXBot', category: 'seo', operator: 'webmeup' },
+  { pattern: 'dataforseobot', name: 'DataForSeoBot', category: 'seo', operator: 'dataforseo' },
+
+  // Social link-unfurlers
+  {
+    pattern: 'facebookexternalhit|facebookcatalog',
+    name: 'facebookexternalhit',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'meta',
+  },
+  {
+    pattern: 'twitterbot',
+    name: 'Twitterbot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'x',
+  },
+  {
+    pattern: 'linkedinbot',
+    name: 'LinkedInBot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'linkedin',
+  },
+  {
+    pattern: 'slackbot|slack-imgproxy',
+    name: 'Slackbot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'slack',
+  },
+  {
+    pattern: 'discordbot',
+    name: 'Discordbot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'discord',
+  },
+  {
+    pattern: 'telegrambot',
+    name: 'TelegramBot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'telegram',
+  },
+  {
+    pattern: '^whatsapp',
+    name: 'WhatsApp',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'meta',
+  },
+  {
+    pattern: 'pinterest(?:bot|/0\\.)',
+    name: 'Pinterestbot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'pinterest',
+  },
+  {
+    pattern: 'redditbot',
+    name: 'redditbot',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'reddit',
+  },
+  {
+    pattern: 'skypeuripreview',
+    name: 'SkypeUriPreview',
+    category: 'social',
+    subcategory: 'link-preview',
+    operator: 'microsoft',
+  },
+  { pattern: 'embedly', name: 'Embedly', category: 'social', subcategory: 'link-preview' },
+  { pattern: 'iframely', name: 'Iframely', category: 'social', subcategory: 'link-preview' },
+
+  // Uptime and performance monitors
+  { pattern: 'uptimerobot', name: 'UptimeRobot', category: 'monitoring', subcategory: 'uptime' },
+  { pattern: 'pingdom', name: 'Pingdom', category: 'monitoring', subcategory: 'uptime' },
+  { pattern: 'statuscake', name: 'StatusCake', category: 'monitoring', subcategory: 'uptime' },
+  { pattern: 'site24x7', name: 'Site24x7', category: 'monitoring', subcategory: 'uptime' },
+  {
+    pattern: 'better uptime bot',
+    name: 'Better Uptime Bot',
+    category: 'monitoring',
+    subcategory: 'uptime',
+  },
+  {
+    pattern: 'newrelicpinger',
+    name: 'NewRelicPinger',
+    category: 'monitoring',
+    subcategory: 'uptime',
+  },
+  {
+    pattern: 'datadogsynthetics',
+    name: 'DatadogSynthetics',
+    category: 'monitoring',
+    subcategory: 'synthetic',
+  },
+  {
+    pattern: 'chrome-lighthouse',
+    name: 'Chrome-Lighthouse',
+    category: 'monitoring',
+    subcategory: 'performance',
+    operator: 'google',
+  },
+  { pattern: 'gtmetrix', name: 'GTmetrix', category: 'monitoring', subcategory: 'performance' },
+
+  // Vulnerability scanners
+  { pattern: 'nmap scripting engine', name: 'Nmap', category: 'scanner' },
+  { pattern: 'sqlmap', name: 'sqlmap', category: 'scanner' },
+  { pattern: 'nikto', name: 'Nikto', category: 'scanner' },
+  { pattern: 'masscan', name: 'masscan', category: 'scanner' },
+  { pattern: 'zgrab', name: 'zgrab', category: 'scanner' },
+  { pattern: 'nuclei', name: 'Nuclei', category: 'scanner' },
+  { pattern: 'wpscan', name: 'WPScan', category: 'scanner' },
+  { pattern: 'acunetix', name: 'Acunetix', category: 'scanner' },
+  { pattern: 'nessus', name: 'Nessus', category: 'scanner' },
+  { pattern: 'censysinspect', name: 'CensysInspect', category: 'scanner', operator: 'censys' },
+];
+
+/**
+ * Creates a classifier that resolves a user agent to a classification entry
+ *
+ * @param extra - Additional entries, checked before the bundled table
+ * @returns Function returning the first matching entry, or null
+ */
+export function createBotClassifier(
+  extra: BotClassification[] = []
+): (userAgent: string) => BotClassification | null {
+  const compiled = [...extra, ...BOT_CLASSIFICATIONS].map((entry) => ({
+    entry,
+    regex: new RegExp(entry.pattern, 'i'),
+  }));
+
+  return (userAgent: string): BotClassification | null => {
+    if (!userAgent) return null;
+    for (const { entry, regex } of compiled) {
+      if (regex.test(userAgent)) {
+        return entry;
+      }
+    }
+    return null;
+  };
+}
@@ -0,0 +1,164 @@
+import type { Context } from 'koa';
+import { parseString, unescapeString } from './structured-fields.js';
+import type { ClientHintBrand, ClientHints, ClientHintsOptions } from './types.js';
+
+/**
+ * High-entropy hints requested by default when Accept-CH is enabled
+ */
+export const DEFAULT_ACCEPT_CH: readonly string[] = [
+  'Sec-CH-UA-Full-Version-List',
+  'Sec-CH-UA-Platform-Version',
+  'Sec-CH-UA-Model',
+  'Sec-CH-UA-Arch',
+];
+
+/**
+ * User agent patterns for the platforms reported by Sec-CH-UA-Platform
+ */
+const PLATFORM_PATTERNS: Record<string, RegExp> = {
+  windows: /Windows/i,
+  macos: /Macintosh|Mac OS X/i,
+  linux: /Linux|X11/i,
+  android: /Android/i,
+  'chrome os': /CrOS/i,
+  chromeos: /CrOS/i,
+  ios: /iPhone|iPad|iPod/i,
+};
+
+/**
+ * GREASE brands Chromium adds to keep parsers honest ("Not_A Brand", "Not)A;Brand", ...)
+ */
+const GREASE_BRAND = /not.?a.?brand/i;
+
+/**
+ * Parse a structured header boolean (?1 / ?0), or null when absent
+ */
+const parseBoolean = (header: string): boolean | null => {
+  const value = header.trim();
+  return value === '?1' ? true : value === '?0' ? false : null;
+};
+
+/**
+ * Parse a Sec-CH-UA brand list, leaving out GREASE brands
+ *
+ * @param header - Sec-CH-UA or Sec-CH-UA-Full-Version-List header value
+ * @returns Brands in header order
+ *
+ * @example
+ * ```typescript
+ * parseBrandList('"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"');
+ * // [{ brand: 'Chromium', version: '120' }, { brand: 'Google Chrome', version: '120' }]
+ * ```
+ */
+export function parseBrandList(header: string): ClientHintBrand[] {
+  const brands: ClientHintBrand[] = [];
+  for (const [, brand, version] of header.matchAll(
+    /"((?:[^"\\]|\\.)*)"\s*;\s*v\s*=\s*"((?:[^"\\]|\\.)*)"/g
+  )) {
+    const name = unescapeString(brand!);
+    if (!GREASE_BRAND.test(name)) {
+      brands.push({ brand: name, version: unescapeString(version!) });
+    }
+  }
+  return brands;
+}
+
+/**
+ * Find contradictions between client hints and the legacy User-Agent string
+ */
+const findMismatches = (hints: Omit<ClientHints, 'mismatches'>, userAgent: string): string[] => {
+  const mismatches: string[] = [];
+  const chrome = /(?:Chrome|Chromium|CriOS)\/(\d+)/.exec(userAgent);
+
+  if (hints.brands.length > 0 && !chrome) {
+    mismatches.push('Sec-CH-UA sent by a non-Chromium user agent');
+  } else if (chrome) {
+    for (const [header, list] of [
+      ['Sec-CH-UA', hints.brands],
+      ['Sec-CH-UA-Full-Version-List', hints.fullVersionList],
+    ] as const) {
+      const version = list.find(({ brand }) => brand === 'Chromium')?.version;
+      if (version !== undefined && version.split('.')[0] !== chrome[1]) {
+        mismatches.push(`${header} Chromium ${version} does not match Chrome/${chrome[1]}`);
+      }
+    }
+  }
+
+  const platformPattern = hints.platform
+    ? PLATFORM_PATTERNS[hints.platform.toLowerCase()]
+    : undefined;
+  if (platformPattern && !platformPattern.test(userAgent)) {
+    mismatches.push(
+      `Sec-CH-UA-Platform ${JSON.stringify(hints.platform)} does not match the user agent`
+    );
+  }
+
+  if (hints.mobile !== null && hints.mobile !== /Mobile/i.test(userAgent)) {
+    mismatches.push(`Sec-CH-UA-Mobile ?${hints.mobile ? 1 : 0} does not match the user agent`);
+  }
+
+  return mismatches;
+};
+
+/**
+ * Parse the User-Agent Client Hints of a request and check them against the user agent
+ *
+ * @param ctx - Koa context of the request
+ * @param userAgent - Legacy User-Agent string to check the hints against
+ * @returns Parsed hints, or null when the request sent none
+ */
+export function parseClientHints(ctx: Context, userAgent: string): ClientHints | null {
+  const secChUa = ctx.get('Sec-CH-UA');
+  const fullVersionList = ctx.get('Sec-CH-UA-Full-Version-List');
+  const mobile = ctx.get('Sec-CH-UA-Mobile');
+  const platform = ctx.get('Sec-CH-UA-Platform');
+  const platformVersion = ctx.get('Sec-CH-UA-Platform-Version');
+  const model = ctx.get('Sec-CH-UA-Model');
+  const architecture = ctx.get('Sec-CH-UA-Arch');
+
+  if (
+    !secChUa &&
+    !fullVersionList &&
+    !mobile &&
+    !platform &&
+    !platformVersion &&
+    !model &&
+    !architecture
+  ) {
+    return null;
+  }
+
+  const hints = {
+    brands: parseBrandList(secChUa),
+    fullVersionList: parseBrandList(fullVersionList),
+    mobile: parseBoolean(mobile),
+    platform: parseString(platform),
+    platformVersion: parseString(platformVersion),
+    model: parseString(model),
+    architecture: parseString(architecture),
+  };
+
+  return { ...hints, mismatches: findMismatches(hints, userAgent) };
+}
+
+/**
+ * Build the Accept-CH and Critical-CH response headers
+ * Critical hints are always part of Accept-CH, as browsers require
+ *
+ * @param options - Requested and critical hints
+ * @returns Response headers to set
+ */
+export function createClientHintsHeaders(options: ClientHintsOptions): Record<string, string> {
+  const critical = options.critical ?? [];
+  const accept = [...new Set([...(options.accept ?? DEFAULT_ACCEPT_CH), ...critical])];
+  const headers: Record<string, string> = {};
+
+  if (accept.length > 0) {
+    headers['Accept-CH'] = accept.join(', ');
+  }
+  if (critical.length > 0) {
+    headers['Critical-CH'] = critical.join(', ');
+  }
+
+  return headers;
+}
@@ -0,0 +1,191 @@
+import type { Context, Next } from 'koa';
+import { createRobotsTxtLoader, getRobotsCrawlDelay, reportRobotsTxtError } from './robots.js';
+import type {
+  BotDetectionResult,
+  CrawlBotCounter,
+  CrawlBudgetCounters,
+  KoaContextWithBot,
+  KoaCrawlBudgetMiddleware,
+  KoaCrawlBudgetOptions,
+} from './types.js';
+
+/**
+ * Path prefix counting the requests beyond `maxPathsPerBot`
+ */
+const OVERFLOW_PATH = '*';
+
+/**
+ * Set an entry as the most recently used, evicting the least recently used beyond `max` entries
+ */
+const setRecent = <T>(map: Map<string, T>, key: string, value: T, max: number): void => {
+  map.delete(key);
+  if (map.size >= max) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) {
+      map.delete(oldest);
+    }
+  }
+  map.set(key, value);
+};
+
+/**
+ * Group a request path by its leading segments
+ */
+const toPathPrefix = (path: string, depth: number): string => {
+  const segments = path.split('/').filter(Boolean).slice(0, depth);
+  return `/${segments.join('/')}`;
+};
+
+/**
+ * Creates a Koa middleware enforcing a minimum interval between requests of each crawler
+ *
+ * Must be mounted after `koaIsBot`, as it reads the existing detection result
+ * from `ctx.state[stateKey]`. Intervals are looked up by bot name, then
+ * category, then the bot's robots.txt Crawl-delay, then `default`. The budget
+ * is per crawler, not per IP, since large crawlers fetch from many addresses;
+ * verified crawlers have a budget of their own, so clients merely claiming to
+ * be one cannot use it up.
+ *
+ * Crawlers over budget get `Retry-After` with `503 Service Unavailable` when
+ * they are verified search engines (which slow down rather than drop pages on
+ * 503), and `429 Too Many Requests` otherwise. Crawl volume is counted per bot
+ * and path prefix, and available through `getCounters()`. Bots and their path
+ * prefixes are bounded by `maxBots` and `maxPathsPerBot`.
+ *
+ * @param options - Intervals, robots.txt source and counting settings
+ * @returns Koa middleware function with `getCounters()` and `resetCounters()`
+ *
+ * @example
+ * ```typescript
+ * app.use(koaIsBot({ verifier: createDnsVerifier() }));
+ * const budget = koaCrawlBudget({
+ *   robots: { file: './public/robots.txt' },
+ *   intervals: { bots: { Googlebot: 500 }, categories: { seo: 10000 } },
+ * });
+ * app.use(budget);
+ *
+ * // Where does crawl budget go?
+ * console.log(budget.getCounters().Googlebot?.paths);
+ * ```
+ */
+export function koaCrawlBudget(options: KoaCrawlBudgetOptions = {}): KoaCrawlBudgetMiddleware {
+  const stateKey = options.stateKey ?? 'isBot';
+  const pathDepth = options.pathDepth ?? 1;
+  const maxBots = options.maxBots ?? 1000;
+  const maxPathsPerBot = options.maxPathsPerBot ?? 100;
+  const intervals = options.intervals ?? {};
+  const bots = new Map(
+    Object.entries(intervals.bots ?? {}).map(([name, interval]) => [name.toLowerCase(), interval])
+  );
+
+  for (const interval of [
+    intervals.default,
+    ...bots.values(),
+    ...Object.values(intervals.categories ?? {}),
+  ]) {
+    if (interval !== undefined && !(interval >= 0)) {
+      throw new TypeError(
+        `Invalid crawl interval: expected a non-negative number (got ${interval})`
+      );
+    }
+  }
+  for (const [name, limit] of Object.entries({ maxBots, maxPathsPerBot })) {
+    if (!(limit >= 1)) {
+      throw new TypeError(`Invalid ${name}: expected a positive number (got ${limit})`);
+    }
+  }
+
+  const lastServed = new Map<string, number>();
+  let counters = new Map<string, CrawlBotCounter>();
+
+  // Load robots.txt lazily once; a failed load is retried on the next request
+  const getRobotsTxt = options.robots ? createRobotsTxtLoader(options.robots) : null;
+
+  /**
+   * Find the minimum interval for a bot, in milliseconds
+   */
+  const findInterval = async (result: BotDetectionResult): Promise<number | undefined> => {
+    for (const name of [result.knownBot, result.botName]) {
+      const interval = name ? bots.get(name.toLowerCase()) : undefined;
+      if (interval !== undefined) return interval;
+    }
+
+    const categoryInterval = result.category ? intervals.categories?.[result.category] : undefined;
+    if (categoryInterval !== undefined) return categoryInterval;
+
+    // Without robots.txt, the default interval applies until it loads
+    const robots = await getRobotsTxt?.().catch((error: unknown) => {
+      reportRobotsTxtError(error, options.onError);
+      return null;
+    });
+    const crawlDelay = robots ? getRobotsCrawlDelay(robots, result) : undefined;
+    if (crawlDelay !== undefined) return crawlDelay * 1000;
+
+    return intervals.default;
+  };
+
+  /**
+   * Count a request for a bot and path prefix
+   */
+  const count = (identity: string, path: string, throttled: boolean): void => {
+    const bot = counters.get(identity) ?? { requests: 0, throttled: 0, paths: {} };
+    setRecent(counters, identity, bot, maxBots);
+
+    let key = toPathPrefix(path, pathDepth);
+    if (!(key in bot.paths) && Object.keys(bot.paths).length >= maxPathsPerBot) {
+      key = OVERFLOW_PATH;
+    }
+    const prefix = (bot.paths[key] ??= { requests: 0, throttled: 0 });
+
+    if (throttled) {
+      bot.throttled++;
+      prefix.throttled++;
+    } else {
+      bot.requests++;
+      prefix.requests++;
+    }
+  };
+
+  const middleware = async (ctx: Context, next: Next): Promise<void> => {
+    const result = (ctx.state as KoaContextWithBot['state'])[stateKey] as
+      | BotDetectionResult
+      | undefined;
+
+    // No detection result (koaIsBot not mounted before this middleware) or a human
+    if (!result?.isBot) {
+      await next();
+      return;
+    }
+
+    const identity = result.knownBot ?? result.botName ?? 'unknown';
+    const budgetKey = `${identity}|${result.verified === true ? 'verified' : 'unverified'}`;
+    const interval = await findInterval(result);
+    const now = Date.now();
+    const last = lastServed.get(budgetKey);
+    const retryAfterMs = interval && last !== undefined ? last + interval - now : 0;
+
+    if (retryAfterMs > 0) {
+      count(identity, ctx.path, true);
+
+      if (options.onThrottled) {
+        await options.onThrottled(ctx, result, retryAfterMs);
+      }
+
+      ctx.status = result.category === 'search-engine' && result.verified === true ? 503 : 429;
+      ctx.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      return;
+    }
+
+    setRecent(lastServed, budgetKey, now, maxBots);
+    count(identity, ctx.path, false);
+    await next();
+  };
+
+  const getCounters = (): CrawlBudgetCounters => structuredClone(Object.fromEntries(counters));
+
+  const resetCounters = (): void => {
+    counters = new Map();
+  };
+
+  return Object.assign(middleware, { getCounters, resetCounters });
+}
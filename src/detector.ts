@@ -0,0 +1,389 @@
+import { isbot, isbotMatch, isbotMatches, createIsbotFromList, isbotPatterns, list } from 'isbot';
+import { BOT_CLASSIFICATIONS, createBotClassifier } from './classification.js';
+import { collectResultSignals, createSignalScorer } from './signals.js';
+import { hashPatternConfig } from './pattern-updates.js';
+import { analyzePattern, compileSafeMatcher } from './redos.js';
+import { normalizeUserAgent } from './user-agent.js';
+import type {
+  BotDetectionResult,
+  BotDetector,
+  BotCategory,
+  BotDetectorOptions,
+  BotExclusion,
+  BotPatternMatch,
+  CustomBotDefinition,
+  PatternSafetyIssue,
+  PatternSafetyOptions,
+} from './types.js';
+
+/**
+ * Detection pattern with its origin and compiled form
+ */
+interface PatternDefinition {
+  pattern: string;
+  flags?: string;
+  source: BotPatternMatch['source'];
+  bot?: CustomBotDefinition;
+
+  /**
+   * Text of the user agent matched by the pattern, or null
+   */
+  exec: (userAgent: string) => string | null;
+
+  /**
+   * Whether the pattern is part of the combined case-insensitive regex
+   */
+  combined: boolean;
+}
+
+/**
+ * Whether joining a pattern into the combined case-insensitive regex keeps its meaning
+ *
+ * Strings are case-insensitive by definition; a RegExp must have no flag besides `i`
+ * (`g` only affects iteration). Backreferences and named groups are renumbered or
+ * clash once patterns are joined, so those patterns always run on their own.
+ */
+const isCombinable = (pattern: string | RegExp): boolean => {
+  if (pattern instanceof RegExp && pattern.flags.replace('g', '') !== 'i') {
+    return false;
+  }
+  const source = pattern instanceof RegExp ? pattern.source : pattern;
+  return !/\\[1-9]|\\k<|\(\?<(?![=!])/.test(source);
+};
+
+/**
+ * Compile a pattern on its own; a RegExp keeps its flags and gets a private copy,
+ * so its `lastIndex` is never shared with the caller. With a time budget, the
+ * pattern runs on the safe matcher and never joins the combined regex.
+ */
+const compileDefinition = (
+  pattern: string | RegExp,
+  source: BotPatternMatch['source'],
+  bot?: CustomBotDefinition,
+  safety?: PatternSafetyOptions
+): PatternDefinition => {
+  let exec: PatternDefinition['exec'];
+  const timeout = safety?.matchTimeout;
+
+  if (timeout !== undefined) {
+    let matcher: ReturnType<typeof compileSafeMatcher>;
+    try {
+      matcher = compileSafeMatcher(pattern);
+    } catch (error) {
+      throw new TypeError(`Bot pattern ${String(pattern)}: ${(error as Error).message}`);
+    }
+    exec = (userAgent) => {
+      const { match, timedOut } = matcher.exec(userAgent, timeout);
+      if (timedOut) {
+        safety?.onTimeout?.(pattern, userAgent);
+      }
+      return match;
+    };
+  } else {
+    const regex = pattern instanceof RegExp ? new RegExp(pattern) : new RegExp(pattern, 'i');
+    exec = (userAgent) => {
+      regex.lastIndex = 0;
+      return regex.exec(userAgent)?.[0] ?? null;
+    };
+  }
+
+  return {
+    pattern: pattern instanceof RegExp ? pattern.source : pattern,
+    ...(pattern instanceof RegExp && { flags: pattern.flags }),
+    source,
+    ...(bot && { bot }),
+    exec,
+    combined: timeout === undefined && isCombinable(pattern),
+  };
+};
+
+/**
+ * Text of the user agent matched by a definition, or null
+ * Strings and combined patterns report lowercased text like `botPatterns`;
+ * RegExps evaluated on their own report it as matched
+ */
+const execDefinition = (definition: PatternDefinition, userAgent: string): string | null => {
+  const match = definition.exec(userAgent);
+  if (match === null) {
+    return null;
+  }
+  return definition.combined || definition.flags === undefined ? match.toLowerCase() : match;
+};
+
+/**
+ * Default handler of the `warn` pattern safety policy
+ */
+const emitPatternWarning = (issue: PatternSafetyIssue): void => {
+  process.emitWarning(issue.message, 'UnsafePatternWarning');
+};
+
+/**
+ * Analyse user-supplied patterns and apply the safety policy
+ */
+const checkPatternSafety = (patterns: (string | RegExp)[], safety: PatternSafetyOptions): void => {
+  const policy = safety.policy ?? 'warn';
+  if (!['reject', 'warn', 'off'].includes(policy)) {
+    throw new TypeError(`Unknown pattern safety policy: ${String(policy)}`);
+  }
+  if (
+    safety.matchTimeout !== undefined &&
+    (typeof safety.matchTimeout !== 'number' || !(safety.matchTimeout > 0))
+  ) {
+    throw new TypeError('matchTimeout must be a positive number of milliseconds');
+  }
+  if (policy === 'off') {
+    return;
+  }
+
+  for (const pattern of patterns) {
+    for (const issue of analyzePattern(pattern)) {
+      if (policy === 'reject') {
+        throw new TypeError(issue.message);
+      }
+      (safety.onWarning ?? emitPatternWarning)(issue);
+    }
+  }
+};
+
+/**
+ * Patterns removed from the list, and bot names and categories no longer detected
+ */
+interface ResolvedExclusions {
+  patterns: Set<string>;
+  bots: Set<string>;
+  categories: Set<BotCategory>;
+}
+
+/**
+ * Resolve `excludePatterns` entries against the pattern list and the bots it resolves to
+ *
+ * @throws TypeError if an entry is malformed or matches nothing
+ */
+const resolveExclusions = (
+  exclusions: (string | BotExclusion)[],
+  definitions: PatternDefinition[],
+  bots: { name: string; category: BotCategory }[]
+): ResolvedExclusions => {
+  const resolved: ResolvedExclusions = {
+    patterns: new Set(),
+    bots: new Set(),
+    categories: new Set(),
+  };
+  const sources = new Set(definitions.map(({ pattern }) => pattern));
+  const names = new Set(bots.map(({ name }) => name.toLowerCase()));
+  // Patterns without a classification resolve to 'other'
+  const categories = new Set<BotCategory>(['other', ...bots.map(({ category }) => category)]);
+
+  for (const exclusion of exclusions) {
+    const entry = typeof exclusion === 'string' ? { userAgent: exclusion } : exclusion;
+
+    if ('userAgent' in entry && typeof entry.userAgent === 'string') {
+      const matched = isbotPatterns(entry.userAgent);
+      if (matched.length === 0) {
+        throw new TypeError(`Excluded user agent "${entry.userAgent}" matches no bot pattern`);
+      }
+      matched.forEach((pattern) => resolved.patterns.add(pattern));
+    } else if ('pattern' in entry && typeof entry.pattern === 'string') {
+      if (!sources.has(entry.pattern)) {
+        throw new TypeError(`Excluded pattern "${entry.pattern}" is not in the bot pattern list`);
+      }
+      resolved.patterns.add(entry.pattern);
+    } else if ('bot' in entry && typeof entry.bot === 'string') {
+      if (!names.has(entry.bot.toLowerCase())) {
+        throw new TypeError(`Excluded bot "${entry.bot}" is not a known bot name`);
+      }
+      resolved.bots.add(entry.bot.toLowerCase());
+    } else if ('category' in entry && typeof entry.category === 'string') {
+      if (!categories.has(entry.category)) {
+        throw new TypeError(`Excluded category "${entry.category}" matches no known bot`);
+      }
+      resolved.categories.add(entry.category);
+    } else {
+      throw new TypeError(
+        'Exclusions need a sample user agent string or one of pattern, bot, category or userAgent'
+      );
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Creates a compiled bot detector for a pattern configuration
+ *
+ * Compiling the pattern list and classification table is the expensive part of
+ * `koaIsBot()`; create the detector once and pass it to every middleware
+ * instance sharing the configuration.
+ *
+ * @param options - Custom patterns and bots, excluded patterns and classifications
+ * @returns Detector for the `detector` option of `koaIsBot`
+ * @throws TypeError if a custom bot has no name or pattern, a custom pattern is rejected
+ * by the pattern safety policy, or an exclusion matches nothing
+ *
+ * @example
+ * ```typescript
+ * const detector = createBotDetector({ customPatterns: ['mybot'] });
+ *
+ * apiRouter.use(koaIsBot({ detector }));
+ * webRouter.use(koaIsBot({ detector, stateKey: 'bot' }));
+ * ```
+ */
+export function createBotDetector(options: BotDetectorOptions = {}): BotDetector {
+  const customPatterns = options.customPatterns ?? [];
+  const customBots = options.customBots ?? [];
+  const excludePatterns = options.excludePatterns ?? [];
+
+  for (const bot of customBots) {
+    if (
+      typeof bot?.name !== 'string' ||
+      !bot.name ||
+      !(typeof bot.pattern === 'string' || bot.pattern instanceof RegExp)
+    ) {
+      throw new TypeError('Custom bots need a name and a string or RegExp pattern');
+    }
+  }
+
+  // User-supplied patterns are checked for catastrophic backtracking
+  const safety = options.patternSafety ?? {};
+  checkPatternSafety([...customPatterns, ...customBots.map(({ pattern }) => pattern)], safety);
+
+  // Every pattern with where it was defined
+  const allDefinitions = [
+    ...list.map((pattern) => compileDefinition(pattern, 'isbot')),
+    ...customPatterns.map((pattern) => compileDefinition(pattern, 'custom', undefined, safety)),
+    ...customBots.map((bot) => compileDefinition(bot.pattern, 'custom', bot, safety)),
+  ];
+
+  // Excluded patterns are removed; excluded bot names and categories are dropped once resolved
+  const classifications = options.classifications ?? [];
+  const exclusions = resolveExclusions(excludePatterns, allDefinitions, [
+    ...classifications,
+    ...BOT_CLASSIFICATIONS,
+    ...customBots.map(({ name, category }) => ({ name, category: category ?? 'other' })),
+  ]);
+  const definitions = allDefinitions.filter(({ pattern }) => !exclusions.patterns.has(pattern));
+
+  // Patterns whose meaning would change in the combined regex are evaluated as written
+  const exactDefinitions = definitions.filter(({ combined }) => !combined);
+
+  // Create custom isbot detector if needed
+  let customIsBot = isbot;
+  let customIsbotMatch = isbotMatch;
+  let customIsbotMatches = isbotMatches;
+
+  if (customPatterns.length > 0 || customBots.length > 0 || exclusions.patterns.size > 0) {
+    const patterns = definitions.filter(({ combined }) => combined).map(({ pattern }) => pattern);
+
+    // Create custom detector
+    const baseCustomIsBot = createIsbotFromList(patterns);
+    customIsBot = (ua?: string | null): boolean => baseCustomIsBot(ua || '');
+
+    // Create custom match functions
+    const customPattern = new RegExp(patterns.join('|'), 'i');
+    customIsbotMatch = (ua?: string | null): string | null => {
+      if (!ua) return null;
+      const match = ua.toLowerCase().match(customPattern);
+      return match?.[0] ?? null;
+    };
+    customIsbotMatches = (ua?: string | null): string[] => {
+      if (!ua) return [];
+      const matches = ua.toLowerCase().match(new RegExp(customPattern, 'gi'));
+      return matches ?? [];
+    };
+  }
+
+  /**
+   * Find the definitions matching a user agent, in list order
+   */
+  const matchDefinitions = (
+    candidates: PatternDefinition[],
+    userAgent: string
+  ): (PatternDefinition & { match: string })[] => {
+    return candidates.flatMap((definition) => {
+      const match = execDefinition(definition, userAgent);
+      return match === null ? [] : [{ ...definition, match }];
+    });
+  };
+
+  // Bundled classification table, extended with user-supplied entries
+  const classifyBot = createBotClassifier(classifications);
+
+  // Scores the user agent match; koaIsBot rescores with its own weights per request
+  const scoreSignals = createSignalScorer();
+
+  /**
+   * Detect bot from user agent string
+   */
+  const detect = (userAgent: string): BotDetectionResult => {
+    // Security: Validate and sanitize input
+    const sanitizedUA = String(userAgent || '').slice(0, 2048); // Limit length to prevent DoS
+
+    const exactMatches = matchDefinitions(exactDefinitions, sanitizedUA).map(({ match }) => match);
+    const matched = customIsBot(sanitizedUA) || exactMatches.length > 0;
+    const candidates = matched ? matchDefinitions(definitions, sanitizedUA) : [];
+
+    // A declared custom bot takes precedence over pattern names and the classification table
+    const matchedBot = candidates.find(({ bot }) => bot)?.bot;
+    const matchedClassification = matched && !matchedBot ? classifyBot(sanitizedUA) : null;
+
+    // Bots resolving to an excluded name or category are not detected
+    const resolvedName = matchedBot?.name ?? matchedClassification?.name;
+    const detected =
+      matched &&
+      !(resolvedName !== undefined && exclusions.bots.has(resolvedName.toLowerCase())) &&
+      !exclusions.categories.has(
+        (matchedBot ? matchedBot.category : matchedClassification?.category) ?? 'other'
+      );
+    const matches = detected ? candidates : [];
+    const customBot = detected ? matchedBot : undefined;
+    const classification = detected ? matchedClassification : null;
+
+    const result: BotDetectionResult = {
+      isBot: detected,
+      botName: detected
+        ? (customBot?.name ?? customIsbotMatch(sanitizedUA) ?? exactMatches[0] ?? null)
+        : null,
+      botPatterns: detected ? [...customIsbotMatches(sanitizedUA), ...exactMatches] : [],
+      patternMatches: matches.map(({ pattern, flags, match, source, bot }) => ({
+        pattern,
+        ...(flags !== undefined && { flags }),
+        match,
+        source,
+        ...(bot && { name: bot.name }),
+      })),
+      userAgent: sanitizedUA,
+      category: detected
+        ? ((customBot ? customBot.category : classification?.category) ?? 'other')
+        : null,
+      subcategory: (customBot ? customBot.subcategory : classification?.subcategory) ?? null,
+      knownBot: customBot?.name ?? classification?.name ?? null,
+      operator: (customBot ? customBot.vendor : classification?.operator) ?? null,
+      ...(customBot?.url !== undefined && { botUrl: customBot.url }),
+      score: 0,
+      signals: [],
+      automation: null,
+      clientHints: null,
+    };
+
+    // Cached results carry the user agent signal only; header signals are per request
+    return { ...result, ...scoreSignals(collectResultSignals(result)) };
+  };
+
+  /**
+   * Cache key shared by equivalent browser user agents
+   * Custom patterns may match version numbers, so their detectors key by the raw user agent
+   */
+  const cacheKey = (userAgent: string): string | null =>
+    customPatterns.length > 0 || customBots.length > 0 ? null : normalizeUserAgent(userAgent);
+
+  // Detections of other pattern configurations never share cache keys with these
+  const id =
+    customPatterns.length > 0 ||
+    customBots.length > 0 ||
+    excludePatterns.length > 0 ||
+    classifications.length > 0
+      ? hashPatternConfig({ customPatterns, customBots, excludePatterns, classifications })
+      : '';
+
+  return { id, detect, cacheKey };
+}
@@ -0,0 +1,142 @@
+import { promises as dns } from 'node:dns';
+import { isSameIp, normalizeIp } from './ip.js';
+import type {
+  BotDetectionResult,
+  BotVerifier,
+  DnsResolver,
+  DnsVerifierOptions,
+  VerificationStatus,
+} from './types.js';
+
+// Any Google Cloud VM has a forward-confirming *.googleusercontent.com PTR record,
+// so only user-triggered fetchers may resolve there, and only on App Engine
+const GOOGLE_SUFFIXES = ['.googlebot.com', '.google.com'];
+const GOOGLE_FETCHER_SUFFIXES = ['.google.com', '.gae.googleusercontent.com'];
+const BING_SUFFIXES = ['.search.msn.com'];
+
+/**
+ * Hostname suffixes published by crawler operators for reverse-DNS verification
+ * Keyed by the `knownBot` name from the classification table
+ */
+export const DNS_VERIFIED_CRAWLERS: Readonly<Record<string, readonly string[]>> = {
+  Googlebot: GOOGLE_SUFFIXES,
+  'Googlebot-Image': GOOGLE_SUFFIXES,
+  'Googlebot-News': GOOGLE_SUFFIXES,
+  'Googlebot-Video': GOOGLE_SUFFIXES,
+  'Storebot-Google': GOOGLE_SUFFIXES,
+  'AdsBot-Google': GOOGLE_SUFFIXES,
+  'Mediapartners-Google': GOOGLE_SUFFIXES,
+  'Google-InspectionTool': GOOGLE_SUFFIXES,
+  'FeedFetcher-Google': GOOGLE_FETCHER_SUFFIXES,
+  'Google-Read-Aloud': GOOGLE_FETCHER_SUFFIXES,
+  'Google-Site-Verification': GOOGLE_FETCHER_SUFFIXES,
+  Bingbot: BING_SUFFIXES,
+  AdIdxBot: BING_SUFFIXES,
+  BingPreview: BING_SUFFIXES,
+  Applebot: ['.applebot.apple.com'],
+  YandexBot: ['.yandex.ru', '.yandex.net', '.yandex.com'],
+  Baiduspider: ['.baidu.com', '.baidu.jp'],
+  Slurp: ['.crawl.yahoo.net'],
+  SeznamBot: ['.seznam.cz'],
+  PetalBot: ['.petalsearch.com'],
+  Sogou: ['.sogou.com'],
+  Yeti: ['.naver.com'],
+  Amazonbot: ['.crawl.amazonbot.amazon'],
+};
+
+/**
+ * DNS error codes meaning "no such record", i.e. a definitive negative answer
+ */
+const NOT_FOUND_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+/**
+ * Default resolver backed by Node.js `dns/promises`
+ */
+const defaultResolver: DnsResolver = {
+  reverse: (ip) => dns.reverse(ip),
+  lookup: async (hostname) => {
+    const addresses = await dns.lookup(hostname, { all: true });
+    return addresses.map((entry) => entry.address);
+  },
+};
+
+/**
+ * Map a DNS failure to a verification status
+ */
+const statusFromError = (error: unknown): VerificationStatus => {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return code && NOT_FOUND_CODES.has(code) ? false : 'unknown';
+};
+
+/**
+ * Reject if the promise does not settle within the given time
+ */
+const withTimeout = <T>(promise: Promise<T>, timeout: number): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('DNS verification timed out')), timeout);
+  });
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Creates a verifier that confirms crawler identities with reverse DNS
+ *
+ * The client IP is resolved to a hostname, the hostname is checked against the
+ * operator's published suffixes, and the hostname is resolved forward again to
+ * make sure it points back at the same IP.
+ *
+ * @param options - Resolver, crawler table and timeout
+ * @returns Verifier for the `verifier` option of `koaIsBot`
+ *
+ * @example
+ * ```typescript
+ * app.use(koaIsBot({ verifier: createDnsVerifier() }));
+ * ```
+ */
+export function createDnsVerifier(options: DnsVerifierOptions = {}): BotVerifier {
+  const resolver = options.resolver ?? defaultResolver;
+  const timeout = options.timeout ?? 2000;
+  const crawlers: Record<string, readonly string[]> = {
+    ...DNS_VERIFIED_CRAWLERS,
+    ...options.crawlers,
+  };
+
+  const verify = async (ip: string, result: BotDetectionResult): Promise<VerificationStatus> => {
+    const suffixes = result.knownBot ? crawlers[result.knownBot] : undefined;
+    const address = normalizeIp(ip);
+
+    if (!suffixes || !address) {
+      return 'unknown';
+    }
+
+    // Reverse lookup: IP -> hostname within the operator's domains
+    let hostnames: string[];
+    try {
+      hostnames = await withTimeout(resolver.reverse(address), timeout);
+    } catch (error) {
+      return statusFromError(error);
+    }
+
+    const hostname = hostnames
+      .map((name) => name.toLowerCase().replace(/\.$/, ''))
+      .find((name) => suffixes.some((suffix) => name.endsWith(suffix)));
+
+    if (!hostname) {
+      return false;
+    }
+
+    // Forward confirmation: hostname -> IP must point back at the client
+    let addresses: string[];
+    try {
+      addresses = await withTimeout(resolver.lookup(hostname), timeout);
+    } catch (error) {
+      return statusFromError(error);
+    }
+
+    return addresses.some((candidate) => isSameIp(candidate, address));
+  };
+
+  return { verify };
+}
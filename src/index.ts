@@ -1,32 +1,249 @@
-import { isbot, isbotMatch, isbotMatches, createIsbotFromList, isbotPatterns, list } from 'isbot';
+import { randomUUID } from 'node:crypto';
+import { unwatchFile, watchFile, type Stats } from 'node:fs';
+import { isbot, isbotMatch, isbotMatches, createIsbotFromList, list } from 'isbot';
 import type { Context, Next } from 'koa';
+import { detectAutomation } from './automation.js';
 import { BotDetectionCache } from './cache.js';
+import { createClientHintsHeaders, parseClientHints } from './client-hints.js';
+import { createBotDetector } from './detector.js';
+import {
+  applyPatternUpdate,
+  isStaleDetection,
+  mergePatternFile,
+  readPatternFile,
+  readPatternFileSync,
+  type PatternConfig,
+} from './pattern-updates.js';
+import { createTrustedProxy } from './proxy.js';
+import { createRobotsTxtLoader, isRobotsAllowed, reportRobotsTxtError } from './robots.js';
+import { collectHeaderSignals, collectResultSignals, createSignalScorer } from './signals.js';
 import type {
+  BotCacheStore,
   BotDetectionResult,
+  BotDetector,
+  BotPatternUpdate,
+  BotVerifier,
   KoaIsBotMiddleware,
   KoaIsBotOptions,
+  KoaIsBotStats,
   KoaContextWithBot,
+  SignedAgent,
+  VerificationStatus,
 } from './types.js';
 
 // Export types for consumers
 export type {
+  AutomationFramework,
+  BotCacheStore,
+  BotCategory,
+  BotClassification,
+  BotDetectionCacheOptions,
   BotDetectionResult,
+  BotDetector,
+  BotDetectorOptions,
+  BotExclusion,
+  BotPatternFile,
+  BotPatternMatch,
+  BotPatternUpdate,
+  BotPolicyAction,
+  BotPolicyDecision,
+  BotPolicyHandler,
+  BotPolicyRule,
+  BotPolicyRuleHits,
+  BotPolicySummary,
+  BotSignal,
+  BotSignalName,
+  BotVerifier,
+  CacheAdmissionPolicy,
+  CacheStats,
+  ClientHintBrand,
+  ClientHints,
+  ClientHintsOptions,
+  CrawlBotCounter,
+  CrawlBudgetCounters,
+  CrawlPathCounter,
+  CustomBotDefinition,
+  DnsResolver,
+  DnsVerifierOptions,
+  IpRangeList,
+  IpRangeSource,
+  IpRangeVerifier,
+  IpRangeVerifierOptions,
+  JsonWebKeySet,
+  JwksSource,
+  KoaBotPolicyMiddleware,
+  KoaBotPolicyOptions,
+  KoaBotRateLimitOptions,
+  KoaCrawlBudgetMiddleware,
+  KoaCrawlBudgetOptions,
   KoaIsBotOptions,
   KoaContextWithBot,
   KoaIsBotMiddleware,
+  KoaIsBotStats,
+  KoaRobotsTxtOptions,
+  LlmsTxtConfig,
+  LlmsTxtLink,
+  PatternFileOptions,
+  PatternSafetyIssue,
+  PatternSafetyOptions,
+  RateLimit,
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitStore,
+  RobotsGroup,
+  RobotsOptions,
+  RobotsRule,
+  RobotsTxt,
+  RobotsTxtSource,
+  SignatureInput,
+  SignatureKey,
+  SignatureKeyBinding,
+  SignatureKeyDirectory,
+  SignedAgent,
+  TrustedProxy,
+  TrustedProxyOptions,
+  VerificationStatus,
+  WebBotAuthVerifier,
+  WebBotAuthVerifierOptions,
 } from './types.js';
 
 /**
  * Default options for the middleware
  */
-const DEFAULT_OPTIONS: Required<Omit<KoaIsBotOptions, 'onBotDetected' | 'onDetection'>> = {
+const DEFAULT_OPTIONS: Required<
+  Omit<
+    KoaIsBotOptions,
+    | 'onBotDetected'
+    | 'onDetection'
+    | 'onSpoofDetected'
+    | 'robots'
+    | 'verifier'
+    | 'threshold'
+    | 'clientHints'
+    | 'signatureVerifier'
+    | 'trustedProxy'
+    | 'cacheStore'
+    | 'onCacheError'
+    | 'detector'
+    | 'patternFile'
+  >
+> = {
   customPatterns: [],
+  customBots: [],
+  patternSafety: {},
   excludePatterns: [],
+  classifications: [],
   stateKey: 'isBot',
   cache: true,
   cacheSize: 1000,
   cacheTTL: 3600000, // 1 hour
+  cacheMaxBytes: Infinity,
+  cacheAdmission: 'lru',
+  normalizeCacheKeys: false,
   getUserAgent: (ctx: Context) => ctx.request.headers['user-agent'] || '',
+  getClientIp: (ctx: Context) => ctx.ip,
+  signalWeights: {},
+};
+
+/**
+ * How long an 'unknown' verification outcome is cached, in milliseconds
+ */
+const UNKNOWN_VERIFICATION_TTL = 60000;
+
+/**
+ * Cache key namespace of a detector's detections; none for the default patterns
+ */
+const detectorNamespace = (detector: BotDetector): string => (detector.id ? `@${detector.id}` : '');
+
+/**
+ * Namespaces of verifiers without an id, one per verifier instance
+ */
+const verifierIds = new WeakMap<BotVerifier, string>();
+
+/**
+ * Cache key namespace of a verifier's outcomes
+ */
+const verifierNamespace = (verifier: BotVerifier): string => {
+  if (verifier.id) {
+    return `@${verifier.id}`;
+  }
+  let id = verifierIds.get(verifier);
+  if (!id) {
+    id = randomUUID();
+    verifierIds.set(verifier, id);
+  }
+  return `#${id}`;
+};
+
+/**
+ * Turn a result whose claimed identity failed verification into an impersonator result
+ * The claimed identity moves to `claimedBot` so it is not trusted as the real bot
+ */
+const markSpoofed = (result: BotDetectionResult): BotDetectionResult => ({
+  ...result,
+  category: 'impersonator',
+  subcategory: null,
+  knownBot: null,
+  operator: null,
+  verified: false,
+  spoofed: true,
+  claimedBot: result.knownBot ?? result.botName,
+});
+
+/**
+ * Turn a result with strong proof of identity (agent signature, CDN verdict) into a verified bot
+ * The proof does not depend on the user agent, so requests detected as human become bots too
+ */
+const markVerified = (result: BotDetectionResult): BotDetectionResult => ({
+  ...result,
+  isBot: true,
+  category: result.category ?? 'other',
+  verified: true,
+  spoofed: false,
+  claimedBot: null,
+});
+
+/**
+ * Whether two names are the same, ignoring case
+ */
+const sameName = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * The result as the bot a valid signature's key is bound to, or null when the key is
+ * unbound or belongs to another bot or operator than the one the user agent claims
+ * Results claiming no known bot take the key's identity
+ */
+const applySignedIdentity = (
+  result: BotDetectionResult,
+  { valid, bot, operator }: SignedAgent
+): BotDetectionResult | null => {
+  if (!valid || (!bot && !operator)) {
+    return null;
+  }
+  if (!result.knownBot) {
+    return {
+      ...result,
+      botName: result.botName ?? bot ?? null,
+      knownBot: bot ?? null,
+      operator: operator ?? result.operator,
+    };
+  }
+  return sameName(bot, result.knownBot) || sameName(operator, result.operator) ? result : null;
+};
+
+/**
+ * Make `isBot` follow the score, updating the category of results that flip
+ */
+const applyThreshold = (result: BotDetectionResult, threshold: number): BotDetectionResult => {
+  const isBot = result.score >= threshold;
+  if (isBot === result.isBot) {
+    return result;
+  }
+
+  return isBot
+    ? { ...result, isBot, category: 'other' }
+    : { ...result, isBot, category: null, subcategory: null, knownBot: null, operator: null };
 };
 
 /**
@@ -66,59 +283,90 @@ const DEFAULT_OPTIONS: Required<Omit<KoaIsBotOptions, 'onBotDetected' | 'onDetec
  * ```
  */
 export function koaIsBot(options: KoaIsBotOptions = {}): KoaIsBotMiddleware {
+  const trustedProxy = options.trustedProxy ? createTrustedProxy(options.trustedProxy) : null;
+
   // Merge with default options
   const config = {
     ...DEFAULT_OPTIONS,
+    ...(trustedProxy && {
+      getClientIp: trustedProxy.getClientIp,
+      getUserAgent: trustedProxy.getUserAgent,
+    }),
     ...options,
   };
 
-  // Initialize cache if enabled
-  const cache = config.cache ? new BotDetectionCache(config.cacheSize, config.cacheTTL) : null;
-
-  // Create custom isbot detector if needed
-  let customIsBot = isbot;
-  let customIsbotMatch = isbotMatch;
-  let customIsbotMatches = isbotMatches;
+  // Initialize cache if enabled; a custom store holds both kinds of entries under key prefixes
+  const cacheOptions = { maxBytes: config.cacheMaxBytes, admission: config.cacheAdmission };
+  const cache = config.cache
+    ? ((options.cacheStore as BotCacheStore<BotDetectionResult> | undefined) ??
+      new BotDetectionCache(config.cacheSize, config.cacheTTL, cacheOptions))
+    : null;
 
-  if (config.customPatterns.length > 0 || config.excludePatterns.length > 0) {
-    let patterns = [...list];
+  // Verification outcomes are cached separately, keyed by verifier, client IP and claimed bot,
+  // so instances verifying differently never read each other's outcomes from a shared store
+  const verificationNamespace = config.verifier ? verifierNamespace(config.verifier) : '';
+  const verificationCache =
+    config.cache && config.verifier
+      ? ((options.cacheStore as BotCacheStore<VerificationStatus> | undefined) ??
+        new BotDetectionCache<VerificationStatus>(config.cacheSize, config.cacheTTL, cacheOptions))
+      : null;
 
-    // Add custom patterns
-    if (config.customPatterns.length > 0) {
-      const customStrings = config.customPatterns.map((p) => (p instanceof RegExp ? p.source : p));
-      patterns = [...patterns, ...customStrings];
-    }
+  // Compiled patterns and classifications, shared when a detector is passed in
+  if (
+    options.detector &&
+    (options.customPatterns ||
+      options.customBots ||
+      options.excludePatterns ||
+      options.classifications ||
+      options.patternSafety)
+  ) {
+    throw new TypeError(
+      'Pass customPatterns, customBots, excludePatterns, classifications and patternSafety to createBotDetector when using a shared detector'
+    );
+  }
+  if (options.detector && options.patternFile) {
+    throw new TypeError('patternFile cannot be combined with a shared detector');
+  }
 
-    // Remove excluded patterns
-    if (config.excludePatterns.length > 0) {
-      const patternsToRemove = new Set(
-        config.excludePatterns.flatMap((pattern) => isbotPatterns(pattern))
-      );
-      patterns = patterns.filter((p) => !patternsToRemove.has(p));
-    }
+  // Configured patterns, extended by the pattern file and replaced by runtime updates
+  const patternFile =
+    typeof options.patternFile === 'string' ? { path: options.patternFile } : options.patternFile;
+  const configuredPatterns: PatternConfig = {
+    customPatterns: config.customPatterns,
+    customBots: config.customBots,
+    excludePatterns: config.excludePatterns,
+  };
+  let patterns = patternFile
+    ? mergePatternFile(configuredPatterns, readPatternFileSync(patternFile.path))
+    : configuredPatterns;
+  let detector = options.detector ?? createBotDetector({ ...config, ...patterns });
 
-    // Create custom detector
-    const baseCustomIsBot = createIsbotFromList(patterns);
-    customIsBot = (ua?: string | null): boolean => baseCustomIsBot(ua || '');
+  // Detections are keyed by the detector's patterns, so instances with other patterns,
+  // in this process or another, never read them from a shared store
+  let detectionNamespace = detectorNamespace(detector);
 
-    // Create custom match functions
-    const customPattern = new RegExp(patterns.join('|'), 'i');
-    customIsbotMatch = (ua?: string | null): string | null => {
-      if (!ua) return null;
-      const match = ua.toLowerCase().match(customPattern);
-      return match?.[0] ?? null;
-    };
-    customIsbotMatches = (ua?: string | null): string[] => {
-      if (!ua) return [];
-      const matches = ua.toLowerCase().match(new RegExp(customPattern, 'gi'));
-      return matches ?? [];
-    };
+  // Combines user agent, header and verification signals into a score
+  const scoreSignals = createSignalScorer(config.signalWeights);
+  if (
+    config.threshold !== undefined &&
+    !(typeof config.threshold === 'number' && config.threshold >= 0 && config.threshold <= 1)
+  ) {
+    throw new TypeError(`Invalid threshold: expected 0 to 1 (got ${String(config.threshold)})`);
   }
 
-  // Periodic cache cleanup (every 10 minutes)
-  if (cache) {
-    const cleanupInterval = setInterval(() => {
+  // Accept-CH/Critical-CH headers asking browsers for more client hints
+  const clientHintsHeaders = config.clientHints
+    ? createClientHintsHeaders(config.clientHints)
+    : null;
+
+  // Periodic cleanup (every 10 minutes) of the caches created here; shared stores are their owner's
+  let cleanupInterval: NodeJS.Timeout | null = null;
+  if (cache instanceof BotDetectionCache && !options.cacheStore) {
+    cleanupInterval = setInterval(() => {
       cache.cleanup();
+      if (verificationCache instanceof BotDetectionCache) {
+        verificationCache.cleanup();
+      }
     }, 600000);
 
     // Don't keep the process alive for this interval
@@ -128,60 +376,204 @@ export function koaIsBot(options: KoaIsBotOptions = {}): KoaIsBotMiddleware {
   }
 
   /**
-   * Detect bot from user agent string
+   * Read a cache entry; a failing store counts as a miss
    */
-  const detectBot = (userAgent: string): BotDetectionResult => {
-    // Security: Validate and sanitize input
-    const sanitizedUA = String(userAgent || '').slice(0, 2048); // Limit length to prevent DoS
+  const readCache = async <T>(store: BotCacheStore<T>, key: string): Promise<T | null> => {
+    try {
+      return (await store.get(key)) ?? null;
+    } catch (error) {
+      options.onCacheError?.(error, key);
+      return null;
+    }
+  };
 
-    const detected = customIsBot(sanitizedUA);
-    const botName = customIsbotMatch(sanitizedUA);
-    const botPatterns = customIsbotMatches(sanitizedUA);
+  /**
+   * Write a cache entry; a failing store leaves the request unaffected
+   */
+  const writeCache = async <T>(
+    store: BotCacheStore<T>,
+    key: string,
+    value: T,
+    ttl: number
+  ): Promise<void> => {
+    try {
+      await store.set(key, value, ttl);
+    } catch (error) {
+      options.onCacheError?.(error, key);
+    }
+  };
 
-    return {
-      isBot: detected,
-      botName,
-      botPatterns,
-      userAgent: sanitizedUA,
-    };
+  /**
+   * Verify the claimed bot identity against the client IP
+   */
+  const verifyBot = async (
+    ip: string | undefined,
+    result: BotDetectionResult
+  ): Promise<VerificationStatus> => {
+    if (!config.verifier || !ip) {
+      return 'unknown';
+    }
+
+    const key = `verify${verificationNamespace}:${ip}|${result.knownBot ?? result.botName ?? ''}`;
+    const cached = verificationCache ? await readCache(verificationCache, key) : null;
+    if (cached !== null) {
+      return cached;
+    }
+
+    // 'unknown' may be a transient failure such as a DNS timeout, so it is retried soon
+    const verified = await config.verifier.verify(ip, result);
+    if (verificationCache) {
+      await writeCache(
+        verificationCache,
+        key,
+        verified,
+        verified === 'unknown'
+          ? Math.min(config.cacheTTL, UNKNOWN_VERIFICATION_TTL)
+          : config.cacheTTL
+      );
+    }
+    return verified;
   };
 
+  // Load robots.txt once; a failed load is retried on the next request
+  const getRobotsTxt = config.robots ? createRobotsTxtLoader(config.robots.source) : null;
+
   /**
    * The middleware function
    */
-  return async (ctx: Context, next: Next): Promise<void> => {
-    // Extract user agent
+  const middleware = async (ctx: Context, next: Next): Promise<void> => {
+    if (clientHintsHeaders) {
+      ctx.set(clientHintsHeaders);
+    }
+
+    // Extract user agent and client IP
     const userAgent = config.getUserAgent(ctx);
+    const clientIp = config.getClientIp(ctx) || undefined;
+    const headerSignals = collectHeaderSignals(ctx, userAgent ?? '');
+
+    /**
+     * Score the result from its own signals plus the request headers
+     */
+    const score = (base: BotDetectionResult): BotDetectionResult => ({
+      ...base,
+      ...scoreSignals([...collectResultSignals(base), ...headerSignals]),
+    });
+
+    let result: BotDetectionResult | null = null;
 
     if (!userAgent) {
-      // No user agent, assume not a bot
-      (ctx.state as KoaContextWithBot['state'])[config.stateKey] = {
+      // No user agent, assume not a bot unless the score says otherwise
+      result = score({
         isBot: false,
         botName: null,
         botPatterns: [],
         userAgent: '',
-      };
-      await next();
-      return;
+        category: null,
+        subcategory: null,
+        knownBot: null,
+        operator: null,
+        score: 0,
+        signals: [],
+        automation: null,
+        clientHints: parseClientHints(ctx, ''),
+      });
+      if (config.threshold !== undefined) {
+        result = applyThreshold(result, config.threshold);
+      }
+
+      if (!result.isBot) {
+        (ctx.state as KoaContextWithBot['state'])[config.stateKey] = clientIp
+          ? { ...result, clientIp }
+          : result;
+        await next();
+        return;
+      }
+    } else {
+      // Equivalent browser user agents share a key in their own namespace
+      const normalized = config.normalizeCacheKeys
+        ? (detector.cacheKey?.(userAgent) ?? null)
+        : null;
+      const cacheKey =
+        normalized !== null
+          ? `detect-ua${detectionNamespace}:${normalized}`
+          : `detect${detectionNamespace}:${userAgent}`;
+
+      // Check cache first
+      if (cache) {
+        result = await readCache(cache, cacheKey);
+
+        // A shared entry may come from another user agent of the family
+        if (result && normalized !== null) {
+          result = { ...result, userAgent: userAgent.slice(0, 2048) };
+        }
+      }
+
+      // Detect if not in cache
+      if (!result) {
+        result = detector.detect(userAgent);
+
+        // Store in cache
+        if (cache) {
+          await writeCache(cache, cacheKey, result, config.cacheTTL);
+        }
+      }
+
+      // Client hints and automation tells are per request, like header signals
+      const clientHints = parseClientHints(ctx, userAgent);
+      result = score({
+        ...result,
+        clientHints,
+        automation: detectAutomation(ctx, userAgent, clientHints),
+      });
+      if (config.threshold !== undefined) {
+        result = applyThreshold(result, config.threshold);
+      }
     }
 
-    // Check cache first
-    let result: BotDetectionResult | null = null;
-    if (cache) {
-      result = cache.get(userAgent);
+    const signedAgent = config.signatureVerifier
+      ? await config.signatureVerifier.verify(ctx)
+      : null;
+    if (signedAgent) {
+      result = { ...result, signedAgent };
     }
 
-    // Detect if not in cache
-    if (!result) {
-      result = detectBot(userAgent);
+    // A valid agent signature of the claimed bot or a CDN verdict from a trusted proxy is
+    // strong verification, in place of DNS or IP checks
+    const signed = signedAgent ? applySignedIdentity(result, signedAgent) : null;
+    const stronglyVerified = !!signed || !!trustedProxy?.isVerifiedBot(ctx);
+    if (stronglyVerified) {
+      result = score(markVerified(signed ?? result));
+    }
 
-      // Store in cache
-      if (cache) {
-        cache.set(userAgent, result);
+    // Verify claimed identity (results are per request, so the cached entry is not mutated)
+    if (config.verifier && result.isBot && !stronglyVerified) {
+      const verified = await verifyBot(clientIp, result);
+      result = score(
+        verified === false
+          ? markSpoofed(result)
+          : { ...result, verified, spoofed: false, claimedBot: null }
+      );
+    }
+
+    // Check the requested path against robots.txt; flagging carries on without it when it fails to load
+    const robotsOptions = config.robots;
+    if (robotsOptions && getRobotsTxt && result.isBot) {
+      const robots =
+        robotsOptions.enforce === 'reject'
+          ? await getRobotsTxt()
+          : await getRobotsTxt().catch((error: unknown) => {
+              reportRobotsTxtError(error, robotsOptions.onError);
+              return null;
+            });
+      if (robots) {
+        result = { ...result, robotsAllowed: isRobotsAllowed(robots, result, ctx.url) };
       }
     }
 
-    // Store result in context state
+    // Store result in context state, with the client IP for the middlewares after this one
+    if (clientIp) {
+      result = { ...result, clientIp };
+    }
     (ctx.state as KoaContextWithBot['state'])[config.stateKey] = result;
 
     // Call callbacks if provided
@@ -193,8 +585,118 @@ export function koaIsBot(options: KoaIsBotOptions = {}): KoaIsBotMiddleware {
       await options.onBotDetected(ctx, result);
     }
 
+    if (result.spoofed && options.onSpoofDetected) {
+      await options.onSpoofDetected(ctx, result);
+    }
+
+    if (result.robotsAllowed === false && config.robots?.enforce === 'reject') {
+      ctx.status = config.robots.status ?? 403;
+      return;
+    }
+
     await next();
   };
+
+  /**
+   * Counters of the detection and verification caches
+   */
+  const getStats = (): KoaIsBotStats => ({
+    detection: cache?.getStats?.() ?? null,
+    verification: verificationCache?.getStats?.() ?? null,
+  });
+
+  /**
+   * Swap in a detector for new patterns and drop the cached detections it changes
+   * The detector is compiled first, so an invalid configuration leaves the current one in use
+   */
+  const applyPatterns = (next: PatternConfig): void => {
+    const nextDetector = createBotDetector({ ...config, ...next });
+    patterns = next;
+    detector = nextDetector;
+
+    // The LRU created here is pruned in place; a store passed in may serve other instances,
+    // so detections move to the key namespace of the new patterns
+    if (cache instanceof BotDetectionCache && !options.cacheStore) {
+      cache.prune((key, cached) =>
+        isStaleDetection(key, cached as BotDetectionResult, detector, detectionNamespace)
+      );
+    } else {
+      detectionNamespace = detectorNamespace(detector);
+    }
+  };
+
+  /**
+   * Patterns of a shared detector belong to its creator
+   */
+  const assertOwnDetector = (): void => {
+    if (options.detector) {
+      throw new TypeError('Create a new detector to change the patterns of a shared detector');
+    }
+  };
+
+  const updatePatterns = (update: BotPatternUpdate): Promise<void> =>
+    new Promise((resolve) => {
+      assertOwnDetector();
+      applyPatterns(applyPatternUpdate(patterns, update));
+      resolve();
+    });
+
+  const reloadPatternFile = async (): Promise<void> => {
+    const file = patternFile ? await readPatternFile(patternFile.path) : null;
+    applyPatterns(file ? mergePatternFile(configuredPatterns, file) : configuredPatterns);
+  };
+
+  // Reloads run one after another, so an older read never replaces a newer one
+  let reloading: Promise<void> = Promise.resolve();
+  const reload = async (): Promise<void> => {
+    assertOwnDetector();
+    const run = reloading.then(reloadPatternFile);
+    reloading = run.catch(() => undefined);
+    await run;
+  };
+
+  // Poll the pattern file, so editors and deployments replacing it are noticed too
+  let unwatchPatternFile: (() => void) | null = null;
+  if (patternFile?.watch) {
+    const listener = (current: Stats, previous: Stats): void => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        reload().catch((error: unknown) => {
+          if (patternFile.onError) {
+            patternFile.onError(error);
+          } else {
+            process.emitWarning(
+              `Bot patterns not reloaded: ${(error as Error).message}`,
+              'PatternFileWarning'
+            );
+          }
+        });
+      }
+    };
+    watchFile(
+      patternFile.path,
+      { interval: patternFile.watchInterval ?? 1000, persistent: false },
+      listener
+    );
+    unwatchPatternFile = () => unwatchFile(patternFile.path, listener);
+  }
+
+  /**
+   * Release the cleanup timer, the pattern file watch and the memory of the caches created here
+   */
+  const dispose = (): void => {
+    if (cleanupInterval) {
+      clearInterval(cleanupInterval);
+      cleanupInterval = null;
+    }
+    unwatchPatternFile?.();
+    unwatchPatternFile = null;
+    if (!options.cacheStore) {
+      void cache?.clear();
+      void verificationCache?.clear();
+    }
+  };
+
+  return Object.assign(middleware, { getStats, dispose, updatePatterns, reload });
 }
 
 /**
@@ -206,3 +708,121 @@ export default koaIsBot;
  * Re-export useful isbot functions for advanced usage
  */
 export { isbot, isbotMatch, isbotMatches, createIsbotFromList, list as isbotPatternList };
+
+/**
+ * Bundled bot classification table
+ */
+export {
+  BOT_CLASSIFICATIONS,
+  BOT_CLASSIFICATION_VERSION,
+  createBotClassifier,
+} from './classification.js';
+
+/**
+ * Bot identity verification
+ */
+export { createDnsVerifier, DNS_VERIFIED_CRAWLERS } from './dns-verifier.js';
+export { createIpRangeVerifier, parseIpRangeList } from './ip-range-verifier.js';
+
+/**
+ * Policy-driven blocking
+ */
+export { koaBotPolicy } from './policy.js';
+
+/**
+ * robots.txt parsing and matching
+ */
+export {
+  parseRobotsTxt,
+  loadRobotsTxt,
+  findRobotsGroups,
+  isRobotsAllowed,
+  getRobotsCrawlDelay,
+} from './robots.js';
+
+/**
+ * robots.txt, ai.txt and llms.txt generation
+ */
+export {
+  koaRobotsTxt,
+  renderRobotsTxt,
+  renderAiTxt,
+  renderLlmsTxt,
+  globToRobotsPath,
+} from './robots-txt.js';
+
+/**
+ * Per-bot rate limiting
+ */
+export { koaBotRateLimit, MemoryRateLimitStore } from './rate-limit.js';
+
+/**
+ * Crawl budget throttling
+ */
+export { koaCrawlBudget } from './crawl-budget.js';
+
+/**
+ * Bot confidence signals
+ */
+export {
+  DEFAULT_SIGNAL_WEIGHTS,
+  collectHeaderSignals,
+  collectResultSignals,
+  createSignalScorer,
+} from './signals.js';
+
+/**
+ * Headless browser and automation framework detection
+ */
+export { detectAutomation } from './automation.js';
+
+/**
+ * User-Agent Client Hints
+ */
+export {
+  parseClientHints,
+  parseBrandList,
+  createClientHintsHeaders,
+  DEFAULT_ACCEPT_CH,
+} from './client-hints.js';
+
+/**
+ * Web Bot Auth (HTTP Message Signatures) verification
+ */
+export {
+  createWebBotAuthVerifier,
+  createJwksKeyDirectory,
+  createSignatureBase,
+  parseSignatureInput,
+  jwkThumbprint,
+} from './web-bot-auth.js';
+
+/**
+ * Trusted proxy and CDN-aware client resolution
+ */
+export { createTrustedProxy, parseForwarded } from './proxy.js';
+
+/**
+ * Detection cache stores
+ */
+export { BotDetectionCache, TieredCacheStore, MemoryRemoteCacheStore } from './cache.js';
+
+/**
+ * Compiled detector shareable between middleware instances
+ */
+export { createBotDetector } from './detector.js';
+
+/**
+ * User agent normalization
+ */
+export { normalizeUserAgent } from './user-agent.js';
+
+/**
+ * ReDoS analysis of bot patterns
+ */
+export { analyzePattern } from './redos.js';
+
+/**
+ * Pattern files for runtime pattern updates
+ */
+export { parsePatternFile } from './pattern-updates.js';
@@ -0,0 +1,147 @@
+import { readFile } from 'node:fs/promises';
+import { createCidrMatcher, parseIp } from './ip.js';
+import type {
+  BotDetectionResult,
+  IpRangeList,
+  IpRangeSource,
+  IpRangeVerifier,
+  IpRangeVerifierOptions,
+  VerificationStatus,
+} from './types.js';
+
+/**
+ * Extract CIDR blocks from a published IP range list
+ *
+ * @param list - Operator JSON (`{ prefixes: [...] }`), array of CIDRs, or newline-separated text
+ * @returns CIDR blocks in the list
+ */
+export function parseIpRangeList(list: IpRangeList): string[] {
+  if (typeof list === 'string') {
+    return list
+      .split(/\r?\n/)
+      .map((line) => line.replace(/#.*$/, '').trim())
+      .filter(Boolean);
+  }
+
+  if (Array.isArray(list)) {
+    return list.filter((cidr): cidr is string => typeof cidr === 'string');
+  }
+
+  if (!list || !Array.isArray(list.prefixes)) {
+    throw new TypeError('Invalid IP range list: expected a "prefixes" array');
+  }
+
+  return list.prefixes.flatMap((prefix) => {
+    if (typeof prefix === 'string') return [prefix];
+    const cidr = prefix.ipv4Prefix ?? prefix.ipv6Prefix;
+    return cidr ? [cidr] : [];
+  });
+}
+
+/**
+ * Load a source and parse it into CIDR blocks
+ */
+const loadSource = async (source: IpRangeSource): Promise<string[]> => {
+  if (typeof source === 'function') {
+    return parseIpRangeList(await source());
+  }
+
+  const contents = await readFile(source, 'utf8');
+  let list: IpRangeList;
+  try {
+    list = JSON.parse(contents) as IpRangeList;
+  } catch {
+    // Not JSON: treat as one CIDR per line
+    list = contents;
+  }
+  return parseIpRangeList(list);
+};
+
+/**
+ * Creates a verifier that checks client IPs against published crawler IP ranges
+ *
+ * Sources are loaded lazily on the first verification, and can be reloaded
+ * manually or periodically without restarting the application. A source that
+ * fails to reload keeps its previous ranges.
+ *
+ * @param options - Range sources and reload settings
+ * @returns Verifier for the `verifier` option of `koaIsBot`
+ *
+ * @example
+ * ```typescript
+ * const verifier = createIpRangeVerifier({
+ *   sources: {
+ *     google: './ranges/googlebot.json',
+ *     microsoft: './ranges/bingbot.json',
+ *     GPTBot: () => loadFromS3('gptbot.json'),
+ *   },
+ *   reloadInterval: 86400000, // daily
+ * });
+ *
+ * app.use(koaIsBot({ verifier }));
+ * ```
+ */
+export function createIpRangeVerifier(options: IpRangeVerifierOptions): IpRangeVerifier {
+  let matchers = new Map<string, (ip: string) => boolean>();
+  let ready: Promise<void> | null = null;
+
+  const reload = async (): Promise<void> => {
+    const next = new Map(matchers);
+
+    await Promise.all(
+      Object.entries(options.sources).map(async ([key, source]) => {
+        try {
+          next.set(key, createCidrMatcher(await loadSource(source)));
+        } catch (error) {
+          options.onError?.(error, key);
+        }
+      })
+    );
+
+    // Swap in all ranges at once so concurrent requests never see a partial update
+    matchers = next;
+  };
+
+  const verify = async (ip: string, result: BotDetectionResult): Promise<VerificationStatus> => {
+    ready ??= reload();
+    await ready;
+
+    const matcher =
+      (result.knownBot ? matchers.get(result.knownBot) : undefined) ??
+      (result.operator ? matchers.get(result.operator) : undefined);
+
+    if (!matcher || !parseIp(ip)) {
+      return 'unknown';
+    }
+
+    return matcher(ip);
+  };
+
+  let reloadTimer: NodeJS.Timeout | null = null;
+  if (options.reloadInterval && options.reloadInterval > 0) {
+    // Requests keep using the current ranges while a reload is in flight
+    reloadTimer = setInterval(() => {
+      void reload();
+    }, options.reloadInterval);
+
+    // Don't keep the process alive for this interval
+    if (reloadTimer.unref) {
+      reloadTimer.unref();
+    }
+  }
+
+  return {
+    verify,
+    reload: async () => {
+      const pending = reload();
+      ready ??= pending;
+      await pending;
+    },
+    dispose: () => {
+      if (reloadTimer) {
+        clearInterval(reloadTimer);
+        reloadTimer = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { isIP } from 'node:net';
+
+/**
+ * Parsed IP address as an unsigned integer
+ */
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/**
+ * Inclusive address interval
+ */
+interface IpInterval {
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Normalize an IP address for comparison
+ * Strips IPv4-mapped IPv6 prefixes (::ffff:1.2.3.4) and zone identifiers, lowercases IPv6
+ *
+ * @returns The normalized address, or null if the input is not an IP address
+ */
+export function normalizeIp(ip: string | undefined | null): string | null {
+  if (!ip) return null;
+
+  let address = ip.trim().toLowerCase();
+
+  // Drop IPv6 zone identifier (fe80::1%eth0)
+  const zoneIndex = address.indexOf('%');
+  if (zoneIndex !== -1) {
+    address = address.slice(0, zoneIndex);
+  }
+
+  if (address.startsWith('::ffff:') && isIP(address.slice(7)) === 4) {
+    address = address.slice(7);
+  }
+
+  return isIP(address) ? address : null;
+}
+
+/**
+ * Parse an IPv4 address into a 32-bit integer
+ */
+const parseIpv4 = (address: string): bigint => {
+  return address
+    .split('.')
+    .reduce((acc, octet) => (acc << 8n) | BigInt(Number.parseInt(octet, 10)), 0n);
+};
+
+/**
+ * Parse an IPv6 address (including :: compression and embedded IPv4) into a 128-bit integer
+ */
+const parseIpv6 = (address: string): bigint => {
+  let groups = address;
+
+  // Embedded IPv4 tail (::ffff:1.2.3.4, 64:ff9b::1.2.3.4)
+  const lastColon = groups.lastIndexOf(':');
+  const tail = groups.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const v4 = parseIpv4(tail);
+    groups = `${groups.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head = '', rest] = groups.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest ? rest.split(':') : [];
+  const missing = 8 - headGroups.length - restGroups.length;
+  const all = [
+    ...headGroups,
+    ...Array<string>(rest === undefined ? 0 : missing).fill('0'),
+    ...restGroups,
+  ];
+
+  return all.reduce((acc, group) => (acc << 16n) | BigInt(Number.parseInt(group, 16)), 0n);
+};
+
+/**
+ * Parse an IP address into its version and integer value
+ * IPv4-mapped IPv6 addresses are treated as IPv4
+ */
+export function parseIp(ip: string | undefined | null): ParsedIp | null {
+  const address = normalizeIp(ip);
+  if (!address) return null;
+
+  return isIP(address) === 4
+    ? { version: 4, value: parseIpv4(address) }
+    : { version: 6, value: parseIpv6(address) };
+}
+
+/**
+ * Check whether two IP addresses are equal, regardless of notation
+ */
+export function isSameIp(a: string, b: string): boolean {
+  const left = parseIp(a);
+  const right = parseIp(b);
+  return !!left && !!right && left.version === right.version && left.value === right.value;
+}
+
+/**
+ * Parse a CIDR block (or a single address) into an inclusive interval
+ *
+ * @returns The interval and IP version, or null if the block is invalid
+ */
+export function parseCidr(cidr: string): (IpInterval & { version: 4 | 6 }) | null {
+  const [address = '', prefix, ...rest] = cidr.trim().split('/');
+  const parsed = parseIp(address);
+  // An empty or non-numeric prefix must not become /0 and match every address
+  if (!parsed || rest.length > 0 || (prefix !== undefined && !/^\d+$/.test(prefix))) return null;
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  // IPv4-mapped IPv6 prefixes (::ffff:0:0/104) are rebased onto the IPv4 space
+  const offset = parsed.version === 4 && isIP(address.trim()) === 6 ? 96 : 0;
+  const length = prefix === undefined ? bits : Number(prefix) - offset;
+
+  if (!Number.isInteger(length) || length < 0 || length > bits) {
+    return null;
+  }
+
+  const hostBits = BigInt(bits - length);
+  const start = (parsed.value >> hostBits) << hostBits;
+  const end = start | ((1n << hostBits) - 1n);
+
+  return { version: parsed.version, start, end };
+}
+
+/**
+ * Sort and merge overlapping intervals for binary search
+ */
+const mergeIntervals = (intervals: IpInterval[]): IpInterval[] => {
+  const sorted = [...intervals].sort((a, b) =>
+    a.start < b.start ? -1 : a.start > b.start ? 1 : 0
+  );
+  const merged: IpInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end + 1n) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Binary search for the interval containing the value
+ */
+const containsValue = (intervals: IpInterval[], value: bigint): boolean => {
+  let low = 0;
+  let high = intervals.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const interval = intervals[mid]!;
+    if (value < interval.start) {
+      high = mid - 1;
+    } else if (value > interval.end) {
+      low = mid + 1;
+    } else {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Creates a fast CIDR lookup for IPv4 and IPv6 ranges
+ * Invalid entries are ignored
+ *
+ * @param cidrs - CIDR blocks or single addresses
+ * @returns Function checking whether an IP falls inside any of the ranges
+ */
+export function createCidrMatcher(cidrs: readonly string[]): (ip: string) => boolean {
+  const v4: IpInterval[] = [];
+  const v6: IpInterval[] = [];
+
+  for (const cidr of cidrs) {
+    const interval = cidr ? parseCidr(cidr) : null;
+    if (interval) {
+      (interval.version === 4 ? v4 : v6).push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  const ranges = { 4: mergeIntervals(v4), 6: mergeIntervals(v6) };
+
+  return (ip: string): boolean => {
+    const parsed = parseIp(ip);
+    return parsed ? containsValue(ranges[parsed.version], parsed.value) : false;
+  };
+}
@@ -0,0 +1,336 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import type {
+  BotDetectionResult,
+  BotDetector,
+  BotDetectorOptions,
+  BotPatternFile,
+  BotPatternUpdate,
+} from './types.js';
+
+/**
+ * Pattern options rebuilt at runtime
+ */
+export type PatternConfig = Required<
+  Pick<BotDetectorOptions, 'customPatterns' | 'customBots' | 'excludePatterns'>
+>;
+
+const PATTERN_FILE_KEYS = ['customPatterns', 'customBots', 'excludePatterns'];
+
+/**
+ * Characters starting YAML syntax this parser does not support in plain scalars
+ */
+const YAML_INDICATORS = '[]{}&*!|>%@`';
+
+/**
+ * Remove a comment, ignoring `#` inside quotes or words
+ */
+const stripYamlComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]!))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+/**
+ * Parse a plain, single-quoted or double-quoted scalar
+ */
+const parseYamlScalar = (text: string): string => {
+  const value = text.trim();
+  if (value.startsWith('"')) {
+    return JSON.parse(value) as string;
+  }
+  if (value.startsWith("'")) {
+    if (value.length < 2 || !value.endsWith("'")) {
+      throw new TypeError(`unterminated string ${value}`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (YAML_INDICATORS.includes(value[0] ?? '')) {
+    throw new TypeError(`quote values starting with "${value[0]}"`);
+  }
+  return value;
+};
+
+/**
+ * Parse a `[a, 'b', "c"]` flow sequence of scalars
+ */
+const parseYamlFlowSequence = (text: string): string[] => {
+  if (!text.startsWith('[') || !text.endsWith(']')) {
+    throw new TypeError('expected a list');
+  }
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 1;
+  for (let i = 1; i < text.length - 1; i++) {
+    const char = text[i]!;
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start, -1));
+  return items.filter((item) => item.trim() !== '').map(parseYamlScalar);
+};
+
+/**
+ * Parse the YAML subset of pattern files: top-level keys holding block or flow lists
+ * of scalars, or of flat `key: value` mappings
+ */
+const parseYamlPatternFile = (contents: string): unknown => {
+  const root: Record<string, unknown[]> = {};
+  let list: unknown[] | null = null;
+  let listIndent = 0;
+  let item: Record<string, string> | null = null;
+  const pair = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+
+  contents.split(/\r?\n/).forEach((raw, index) => {
+    const line = stripYamlComment(raw).trimEnd();
+    const text = line.trim();
+    if (!text || text === '---') {
+      return;
+    }
+    const indent = line.length - line.trimStart().length;
+
+    try {
+      if (indent === 0) {
+        const [, key, value] = pair.exec(text) ?? [];
+        if (!key) {
+          throw new TypeError('expected "key:"');
+        }
+        root[key] = value ? parseYamlFlowSequence(value) : [];
+        list = value ? null : root[key];
+        item = null;
+        return;
+      }
+      if (!list) {
+        throw new TypeError('unexpected indentation');
+      }
+
+      if (text === '-' || text.startsWith('- ')) {
+        const entry = text.slice(1).trim();
+        const [, key, value] = pair.exec(entry) ?? [];
+        listIndent = indent;
+        if (key) {
+          item = { [key]: parseYamlScalar(value ?? '') };
+          list.push(item);
+        } else {
+          item = null;
+          list.push(parseYamlScalar(entry));
+        }
+        return;
+      }
+
+      const [, key, value] = pair.exec(text) ?? [];
+      if (!item || !key || indent <= listIndent) {
+        throw new TypeError('expected "- item"');
+      }
+      item[key] = parseYamlScalar(value ?? '');
+    } catch (error) {
+      throw new TypeError(`line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+  return root;
+};
+
+/**
+ * Check the shape of parsed pattern file contents
+ * Custom bots and exclusions are validated by `createBotDetector`
+ */
+const validatePatternFile = (data: unknown): BotPatternFile => {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    throw new TypeError('expected an object of customPatterns, customBots and excludePatterns');
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (!PATTERN_FILE_KEYS.includes(key)) {
+      throw new TypeError(`unknown key "${key}"`);
+    }
+    if (!Array.isArray(value)) {
+      throw new TypeError(`${key} must be a list`);
+    }
+  }
+  const file = data as BotPatternFile;
+  if (file.customPatterns?.some((pattern) => typeof pattern !== 'string')) {
+    throw new TypeError('customPatterns must be strings');
+  }
+  return file;
+};
+
+/**
+ * Parse the contents of a pattern file
+ *
+ * @param contents - File contents
+ * @param format - `'json'`, or `'yaml'` for the YAML subset of block or flow lists
+ * of strings and flat mappings
+ * @returns Patterns in the file
+ * @throws TypeError if the contents are malformed
+ *
+ * @example
+ * ```typescript
+ * parsePatternFile(`
+ * customPatterns:
+ *   - company-crawler
+ * excludePatterns:
+ *   - bot: AhrefsBot
+ * `, 'yaml');
+ * ```
+ */
+export function parsePatternFile(contents: string, format: 'json' | 'yaml'): BotPatternFile {
+  if (format === 'yaml') {
+    return validatePatternFile(parseYamlPatternFile(contents));
+  }
+  try {
+    return validatePatternFile(JSON.parse(contents));
+  } catch (error) {
+    throw new TypeError((error as Error).message);
+  }
+}
+
+/**
+ * Format of a pattern file, from its extension
+ */
+const patternFileFormat = (path: string): 'json' | 'yaml' =>
+  ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? 'yaml' : 'json';
+
+/**
+ * Parse a pattern file, naming it in errors
+ */
+const parsePatternFileAt = (path: string, contents: string): BotPatternFile => {
+  try {
+    return parsePatternFile(contents, patternFileFormat(path));
+  } catch (error) {
+    throw new TypeError(`Pattern file ${path}: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Read a pattern file at construction
+ */
+export const readPatternFileSync = (path: string): BotPatternFile =>
+  parsePatternFileAt(path, readFileSync(path, 'utf8'));
+
+/**
+ * Read a pattern file on reload
+ */
+export const readPatternFile = async (path: string): Promise<BotPatternFile> =>
+  parsePatternFileAt(path, await readFile(path, 'utf8'));
+
+/**
+ * Configured patterns followed by those of a pattern file
+ */
+export const mergePatternFile = (config: PatternConfig, file: BotPatternFile): PatternConfig => ({
+  customPatterns: [...config.customPatterns, ...(file.customPatterns ?? [])],
+  customBots: [...config.customBots, ...(file.customBots ?? [])],
+  excludePatterns: [...config.excludePatterns, ...(file.excludePatterns ?? [])],
+});
+
+/**
+ * Digest of a pattern configuration, the same in every process
+ * RegExps are serialized with their flags, so they never collide with string patterns
+ */
+export const hashPatternConfig = (config: BotDetectorOptions): string =>
+  createHash('sha256')
+    .update(
+      JSON.stringify(config, (_key, value: unknown) =>
+        value instanceof RegExp ? { source: value.source, flags: value.flags } : value
+      )
+    )
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Whether two custom patterns are the same, RegExps by source and flags
+ */
+const samePattern = (a: string | RegExp, b: string | RegExp): boolean =>
+  a instanceof RegExp && b instanceof RegExp
+    ? a.source === b.source && a.flags === b.flags
+    : a === b;
+
+/**
+ * Apply an `updatePatterns()` change to a pattern configuration
+ * @throws TypeError if the update is malformed or removes a RegExp that is not a custom pattern
+ */
+export const applyPatternUpdate = (
+  config: PatternConfig,
+  update: BotPatternUpdate
+): PatternConfig => {
+  const add = update?.add ?? [];
+  const remove = update?.remove ?? [];
+  if (!Array.isArray(add) || !Array.isArray(remove)) {
+    throw new TypeError('Pattern updates need add and remove lists');
+  }
+
+  let { customPatterns, customBots, excludePatterns } = config;
+
+  for (const entry of add) {
+    if (typeof entry === 'string' || entry instanceof RegExp) {
+      customPatterns = [...customPatterns.filter((pattern) => !samePattern(pattern, entry)), entry];
+    } else {
+      customBots = [...customBots.filter(({ name }) => name !== entry.name), entry];
+    }
+  }
+
+  for (const entry of remove) {
+    const before = customPatterns.length + customBots.length;
+
+    if (typeof entry === 'string' || entry instanceof RegExp) {
+      customPatterns = customPatterns.filter((pattern) => !samePattern(pattern, entry));
+    } else if ('pattern' in entry) {
+      customPatterns = customPatterns.filter(
+        (pattern) => (pattern instanceof RegExp ? pattern.source : pattern) !== entry.pattern
+      );
+    } else if ('bot' in entry && typeof entry.bot === 'string') {
+      const name = entry.bot.toLowerCase();
+      customBots = customBots.filter((bot) => bot.name.toLowerCase() !== name);
+    }
+
+    // Nothing of the configuration dropped: stop detecting it through an exclusion
+    if (customPatterns.length + customBots.length === before) {
+      if (entry instanceof RegExp) {
+        throw new TypeError(`Cannot remove ${String(entry)}: it is not a custom pattern`);
+      }
+      excludePatterns = [...excludePatterns, entry];
+    }
+  }
+
+  return { customPatterns, customBots, excludePatterns };
+};
+
+/**
+ * Whether a cached detection of a key namespace changes under a new detector
+ * Other kinds of entries sharing the store, and other namespaces, are never stale
+ */
+export const isStaleDetection = (
+  key: string,
+  cached: BotDetectionResult,
+  detector: BotDetector,
+  namespace: string
+): boolean => {
+  if (key.startsWith(`detect-ua${namespace}:`)) {
+    // Normalized keys are unused once the detector keys by the raw user agent
+    return (
+      detector.cacheKey?.(cached.userAgent) == null ||
+      !isDeepStrictEqual(detector.detect(cached.userAgent), cached)
+    );
+  }
+  return (
+    key.startsWith(`detect${namespace}:`) &&
+    !isDeepStrictEqual(detector.detect(cached.userAgent), cached)
+  );
+};
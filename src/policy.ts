@@ -0,0 +1,279 @@
+import type { Context, Next } from 'koa';
+import { escapeRegExp, toArray } from './utils.js';
+import type {
+  BotDetectionResult,
+  BotPolicyDecision,
+  BotPolicyRule,
+  BotPolicySummary,
+  KoaBotPolicyMiddleware,
+  KoaBotPolicyOptions,
+  KoaContextWithBot,
+} from './types.js';
+
+/**
+ * Compiled rule with pre-built matchers
+ */
+interface CompiledRule {
+  rule: BotPolicyRule;
+  label: string;
+  action: BotPolicyDecision['action'];
+  matches: (ctx: Context, result: BotDetectionResult) => boolean;
+  hits: number;
+}
+
+/**
+ * Percent-encode a character that cannot appear in a header value
+ * (a lone surrogate becomes the replacement character)
+ */
+const encodeHeaderChar = (char: string): string => {
+  try {
+    return encodeURIComponent(char);
+  } catch {
+    return '%EF%BF%BD';
+  }
+};
+
+/**
+ * Header value of a dry-run decision
+ * Rule names are free text; characters outside printable ASCII are percent-encoded
+ */
+const formatDecisionHeader = ({ action, rule }: BotPolicyDecision): string =>
+  rule ? `${action}; rule=${rule.replace(/[^\x20-\x7e]/gu, encodeHeaderChar)}` : action;
+
+/**
+ * Convert a path glob to a regular expression
+ * `**` matches across path segments, `*` within a segment, `?` a single character
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a matcher function for a single rule
+ */
+const compileRule = (rule: BotPolicyRule, index: number): CompiledRule => {
+  if (typeof rule.action !== 'function' && !['allow', 'deny', 'redirect'].includes(rule.action)) {
+    throw new TypeError(
+      `Bot policy rule ${rule.name ?? `#${index}`} has an unknown action: ${String(rule.action)}`
+    );
+  }
+  if (rule.action === 'redirect' && !rule.location) {
+    throw new TypeError(`Bot policy rule ${rule.name ?? ''} uses 'redirect' without a location`);
+  }
+
+  const checks: ((ctx: Context, result: BotDetectionResult) => boolean)[] = [];
+
+  if (rule.bot !== undefined) {
+    const names = toArray(rule.bot).map((name) =>
+      name instanceof RegExp ? name : new RegExp(`^${escapeRegExp(name)}$`, 'i')
+    );
+    checks.push((_, result) =>
+      [result.knownBot, result.botName].some(
+        (candidate) => candidate !== null && names.some((name) => name.test(candidate))
+      )
+    );
+  }
+
+  if (rule.category !== undefined) {
+    const categories = new Set(toArray(rule.category));
+    checks.push((_, result) => result.category !== null && categories.has(result.category));
+  }
+
+  if (rule.verified !== undefined) {
+    const statuses = new Set(toArray(rule.verified));
+    checks.push((_, result) => result.verified !== undefined && statuses.has(result.verified));
+  }
+
+  if (rule.isBot !== undefined) {
+    const isBot = rule.isBot;
+    checks.push((_, result) => result.isBot === isBot);
+  }
+
+  if (rule.path !== undefined) {
+    const paths = toArray(rule.path).map(globToRegExp);
+    checks.push((ctx) => paths.some((path) => path.test(ctx.path)));
+  }
+
+  if (rule.method !== undefined) {
+    const methods = new Set(toArray(rule.method).map((method) => method.toUpperCase()));
+    checks.push((ctx) => methods.has(ctx.method.toUpperCase()));
+  }
+
+  return {
+    rule,
+    label: rule.name ?? `#${index}`,
+    action: typeof rule.action === 'function' ? 'custom' : rule.action,
+    matches: (ctx, result) => checks.every((check) => check(ctx, result)),
+    hits: 0,
+  };
+};
+
+/**
+ * Apply the action of a matched rule
+ */
+const applyAction = async (
+  rule: BotPolicyRule,
+  ctx: Context,
+  result: BotDetectionResult,
+  next: Next
+): Promise<void> => {
+  switch (rule.action) {
+    case 'allow':
+      await next();
+      return;
+    case 'deny':
+      ctx.status = rule.status ?? 403;
+      if (rule.body !== undefined) {
+        ctx.body = rule.body;
+      }
+      return;
+    case 'redirect':
+      ctx.redirect(rule.location!);
+      ctx.status = rule.status ?? 302;
+      return;
+    default:
+      await rule.action(ctx, result, next);
+  }
+};
+
+/**
+ * Creates a Koa middleware that allows, denies or redirects bots based on declarative rules
+ *
+ * Must be mounted after `koaIsBot`, as it reads the existing detection result
+ * from `ctx.state[stateKey]`. Rules are evaluated in order and the first match
+ * decides; requests matching no rule are allowed.
+ *
+ * Every decision is stored in `ctx.state[decisionStateKey]` and reported to
+ * `onDecision`. In dry-run mode decisions are only recorded (plus a response
+ * header), which makes it safe to roll out new rules in production.
+ *
+ * @param options - Policy rules, state keys and dry-run settings
+ * @returns Koa middleware function with `getSummary()` and `resetSummary()`
+ *
+ * @example
+ * ```typescript
+ * app.use(koaIsBot({ verifier: createDnsVerifier() }));
+ * app.use(koaBotPolicy({
+ *   rules: [
+ *     { category: 'impersonator', action: 'deny' },
+ *     { category: 'search-engine', verified: true, action: 'allow' },
+ *     { bot: ['GPTBot', 'CCBot'], path: '/blog/**', action: 'deny', status: 451 },
+ *     { category: 'seo', method: 'POST', action: 'redirect', location: '/' },
+ *   ],
+ * }));
+ * ```
+ *
+ * @example
+ * Dry run:
+ * ```typescript
+ * const policy = koaBotPolicy({
+ *   dryRun: true,
+ *   rules: [{ name: 'block-ai', category: 'ai-crawler', action: 'deny' }],
+ *   onDecision: (ctx, decision) => logger.info({ path: ctx.path, ...decision }),
+ * });
+ * app.use(policy);
+ *
+ * // Later: how often would each rule have fired?
+ * console.log(policy.getSummary());
+ * ```
+ */
+export function koaBotPolicy(options: KoaBotPolicyOptions): KoaBotPolicyMiddleware {
+  const stateKey = options.stateKey ?? 'isBot';
+  const decisionStateKey = options.decisionStateKey ?? 'botPolicy';
+  const decisionHeader = options.decisionHeader ?? 'X-Bot-Policy';
+  const dryRun = options.dryRun ?? false;
+  const rules = options.rules.map(compileRule);
+  let total = 0;
+  let unmatched = 0;
+
+  const middleware = async (ctx: Context, next: Next): Promise<void> => {
+    const result = (ctx.state as KoaContextWithBot['state'])[stateKey] as
+      | BotDetectionResult
+      | undefined;
+
+    // No detection result: koaIsBot is not mounted before this middleware
+    if (!result) {
+      await next();
+      return;
+    }
+
+    const matched = rules.find(({ matches }) => matches(ctx, result));
+
+    total++;
+    if (matched) {
+      matched.hits++;
+    } else {
+      unmatched++;
+    }
+
+    const decision: BotPolicyDecision = {
+      rule: matched?.label ?? null,
+      action: matched?.action ?? 'allow',
+      dryRun,
+    };
+    (ctx.state as KoaContextWithBot['state'])[decisionStateKey] = decision;
+
+    if (options.onDecision) {
+      try {
+        await options.onDecision(ctx, decision);
+      } catch (error) {
+        // A failing hook must not turn a dry run into an error response
+        if (!dryRun) throw error;
+        process.emitWarning(
+          `Bot policy decision not reported: ${(error as Error).message}`,
+          'BotPolicyWarning'
+        );
+      }
+    }
+
+    if (dryRun) {
+      // Dry runs never change the response: a header that cannot be written is left out
+      if (decisionHeader) {
+        try {
+          ctx.set(decisionHeader, formatDecisionHeader(decision));
+        } catch {
+          // Invalid custom header name
+        }
+      }
+      await next();
+      return;
+    }
+
+    if (!matched) {
+      await next();
+      return;
+    }
+
+    await applyAction(matched.rule, ctx, result, next);
+  };
+
+  const getSummary = (): BotPolicySummary => ({
+    total,
+    unmatched,
+    rules: rules.map(({ label, action, hits }) => ({ rule: label, action, hits })),
+  });
+
+  const resetSummary = (): void => {
+    total = 0;
+    unmatched = 0;
+    for (const rule of rules) {
+      rule.hits = 0;
+    }
+  };
+
+  return Object.assign(middleware, { getSummary, resetSummary });
+}
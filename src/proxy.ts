@@ -0,0 +1,142 @@
+import type { Context } from 'koa';
+import { createCidrMatcher, normalizeIp, parseCidr } from './ip.js';
+import type { TrustedProxy, TrustedProxyOptions } from './types.js';
+
+/**
+ * Strip the port (and IPv6 brackets) from a forwarded node: "[2001:db8::1]:4711", "192.0.2.1:80"
+ */
+const stripPort = (node: string): string => {
+  const value = node.trim();
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+  if (bracketed) {
+    return bracketed[1]!;
+  }
+  return /^[\d.]+:\d+$/.test(value) ? value.slice(0, value.lastIndexOf(':')) : value;
+};
+
+/**
+ * Parse the `for=` nodes of a Forwarded header (RFC 7239)
+ *
+ * @param header - Forwarded header value
+ * @returns Forwarded addresses, client first; obfuscated or unknown nodes are kept as-is
+ *
+ * @example
+ * ```typescript
+ * parseForwarded('for=192.0.2.60;proto=http, for="[2001:db8:cafe::17]:4711"');
+ * // ['192.0.2.60', '2001:db8:cafe::17']
+ * ```
+ */
+export function parseForwarded(header: string): string[] {
+  const nodes: string[] = [];
+
+  for (const pair of header.split(/[,;]/)) {
+    const match = /^\s*for\s*=\s*"?([^"]*)"?\s*$/i.exec(pair);
+    if (match) {
+      nodes.push(stripPort(match[1]!));
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse an X-Forwarded-For header, client first
+ */
+const parseXForwardedFor = (header: string): string[] => {
+  return header.split(',').map(stripPort).filter(Boolean);
+};
+
+/**
+ * Creates a resolver for the client IP and user agent behind trusted proxies
+ *
+ * The forwarding chain (`Forwarded`, or `X-Forwarded-For` when absent) is walked
+ * from the socket address towards the client, skipping trusted hops. The first
+ * untrusted address is the client, so entries prepended by the client itself
+ * are never trusted. Proxy and CDN headers are only read from trusted peers.
+ *
+ * @param options - Trusted proxies, hop count and proxy headers
+ * @returns Resolver whose functions can be used as `getClientIp` / `getUserAgent`
+ * @throws TypeError if a proxy CIDR is invalid or hops is not a non-negative integer
+ *
+ * @example
+ * ```typescript
+ * const proxy = createTrustedProxy({ proxies: ['10.0.0.0/8'] });
+ *
+ * app.use(koaIsBot({ trustedProxy: { proxies: ['10.0.0.0/8'] } }));
+ * app.use(koaBotRateLimit({ limits, getClientIp: proxy.getClientIp }));
+ * ```
+ */
+export function createTrustedProxy(options: TrustedProxyOptions): TrustedProxy {
+  const proxies = options.proxies ?? [];
+  const hops = options.hops ?? 0;
+  const userAgentHeaders = options.userAgentHeaders ?? ['X-Original-User-Agent'];
+  const verifiedValues = (options.verifiedBotHeader?.values ?? ['1', 'true', 'yes']).map((value) =>
+    value.toLowerCase()
+  );
+
+  for (const cidr of proxies) {
+    if (!parseCidr(cidr)) {
+      throw new TypeError(`Invalid trusted proxy: ${cidr}`);
+    }
+  }
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new TypeError('hops must be a non-negative integer');
+  }
+
+  const isTrustedProxy = createCidrMatcher(proxies);
+
+  /**
+   * Whether the hop at the given distance from the application is trusted
+   */
+  const isTrustedHop = (address: string, index: number): boolean =>
+    index < hops || isTrustedProxy(address);
+
+  const remoteAddress = (ctx: Context): string | null => normalizeIp(ctx.req.socket.remoteAddress);
+
+  const isTrusted = (ctx: Context): boolean => {
+    const remote = remoteAddress(ctx);
+    return !!remote && isTrustedHop(remote, 0);
+  };
+
+  const getClientIp = (ctx: Context): string | undefined => {
+    const remote = remoteAddress(ctx);
+    if (!remote) {
+      return undefined;
+    }
+
+    const forwarded = ctx.get('Forwarded');
+    const chain = [
+      remote,
+      ...(forwarded ? parseForwarded(forwarded) : parseXForwardedFor(ctx.get('X-Forwarded-For')))
+        .map((node) => normalizeIp(node))
+        .reverse(),
+    ];
+
+    // Walk towards the client while the current hop is trusted and forwarded a valid address
+    let index = 0;
+    while (index < chain.length - 1 && isTrustedHop(chain[index]!, index) && chain[index + 1]) {
+      index++;
+    }
+
+    return chain[index]!;
+  };
+
+  const getUserAgent = (ctx: Context): string => {
+    if (isTrusted(ctx)) {
+      for (const header of userAgentHeaders) {
+        const userAgent = ctx.get(header);
+        if (userAgent) return userAgent;
+      }
+    }
+    return ctx.get('User-Agent');
+  };
+
+  const isVerifiedBot = (ctx: Context): boolean => {
+    if (!options.verifiedBotHeader || !isTrusted(ctx)) {
+      return false;
+    }
+    return verifiedValues.includes(ctx.get(options.verifiedBotHeader.name).trim().toLowerCase());
+  };
+
+  return { isTrusted, getClientIp, getUserAgent, isVerifiedBot };
+}
@@ -0,0 +1,278 @@
+import type { Context, Middleware, Next } from 'koa';
+import type {
+  BotDetectionResult,
+  KoaBotRateLimitOptions,
+  KoaContextWithBot,
+  RateLimit,
+  RateLimitResult,
+  RateLimitStore,
+} from './types.js';
+
+/**
+ * Token bucket state: fractional tokens left at `updatedAt`
+ */
+interface TokenBucketState {
+  kind: 'token-bucket';
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Sliding window counter state: counts for the current and previous fixed windows
+ */
+interface SlidingWindowState {
+  kind: 'sliding-window';
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+type CounterState = TokenBucketState | SlidingWindowState;
+
+/**
+ * Consume one token, refilling `limit` tokens per window
+ */
+const consumeTokenBucket = (
+  state: TokenBucketState | undefined,
+  limit: Required<RateLimit>,
+  now: number
+): [TokenBucketState, RateLimitResult] => {
+  const refill = (elapsed: number): number => (elapsed * limit.limit) / limit.windowMs;
+  const tokens = state
+    ? Math.min(limit.limit, state.tokens + refill(Math.max(0, now - state.updatedAt)))
+    : limit.limit;
+
+  if (tokens >= 1) {
+    return [
+      { kind: 'token-bucket', tokens: tokens - 1, updatedAt: now },
+      { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+    ];
+  }
+
+  return [
+    { kind: 'token-bucket', tokens, updatedAt: now },
+    {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil(((1 - tokens) * limit.windowMs) / limit.limit),
+    },
+  ];
+};
+
+/**
+ * Time until a denied sliding window request would be allowed
+ */
+const slidingWindowRetryAfter = (
+  state: SlidingWindowState,
+  limit: Required<RateLimit>,
+  now: number
+): number => {
+  const { windowMs } = limit;
+  const elapsed = now - state.windowStart;
+
+  // The previous window's weight may decay enough within the current window
+  if (state.current < limit.limit && state.previous > 0) {
+    const wait = windowMs * (1 - (limit.limit - 1 - state.current) / state.previous) - elapsed;
+    if (elapsed + wait < windowMs) {
+      return Math.ceil(wait);
+    }
+  }
+
+  // Otherwise wait for the next window, where this window's count becomes the decaying one
+  const decay =
+    state.current > 0 ? Math.max(0, windowMs * (1 - (limit.limit - 1) / state.current)) : 0;
+  return Math.ceil(windowMs - elapsed + decay);
+};
+
+/**
+ * Count one request with a sliding window counter
+ * The previous window's count is weighted by how much of it still overlaps the sliding window
+ */
+const consumeSlidingWindow = (
+  state: SlidingWindowState | undefined,
+  limit: Required<RateLimit>,
+  now: number
+): [SlidingWindowState, RateLimitResult] => {
+  const { windowMs } = limit;
+  const windowStart = now - (now % windowMs);
+  let next: SlidingWindowState;
+
+  if (!state || windowStart - state.windowStart >= 2 * windowMs) {
+    next = { kind: 'sliding-window', windowStart, current: 0, previous: 0 };
+  } else if (windowStart > state.windowStart) {
+    next = { kind: 'sliding-window', windowStart, current: 0, previous: state.current };
+  } else {
+    next = { ...state };
+  }
+
+  const weight = 1 - (now - next.windowStart) / windowMs;
+  const count = next.previous * weight + next.current;
+
+  if (count + 1 > limit.limit) {
+    return [
+      next,
+      { allowed: false, remaining: 0, retryAfterMs: slidingWindowRetryAfter(next, limit, now) },
+    ];
+  }
+
+  next.current++;
+  return [
+    next,
+    {
+      allowed: true,
+      remaining: Math.max(0, Math.floor(limit.limit - count - 1)),
+      retryAfterMs: 0,
+    },
+  ];
+};
+
+/**
+ * In-memory rate limit counters
+ * Keeps at most `maxKeys` counters, evicting the least recently used
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, CounterState>;
+  private maxKeys: number;
+
+  constructor(maxKeys = 10000) {
+    this.counters = new Map();
+    this.maxKeys = maxKeys;
+  }
+
+  /**
+   * Record one request for the key and report whether it is allowed
+   */
+  consume(key: string, limit: Required<RateLimit>, now: number): RateLimitResult {
+    const previous = this.counters.get(key);
+    const [state, result] =
+      limit.algorithm === 'token-bucket'
+        ? consumeTokenBucket(previous?.kind === 'token-bucket' ? previous : undefined, limit, now)
+        : consumeSlidingWindow(
+            previous?.kind === 'sliding-window' ? previous : undefined,
+            limit,
+            now
+          );
+
+    // Move to end (LRU)
+    this.counters.delete(key);
+    if (this.counters.size >= this.maxKeys) {
+      const firstKey = this.counters.keys().next().value;
+      if (firstKey !== undefined) {
+        this.counters.delete(firstKey);
+      }
+    }
+    this.counters.set(key, state);
+
+    return result;
+  }
+
+  /**
+   * Clear all counters
+   */
+  clear(): void {
+    this.counters.clear();
+  }
+
+  /**
+   * Get current number of counters
+   */
+  get size(): number {
+    return this.counters.size;
+  }
+}
+
+/**
+ * Creates a Koa middleware that rate limits bots per identity and client IP
+ *
+ * Must be mounted after `koaIsBot`, as it reads the existing detection result
+ * from `ctx.state[stateKey]`. Human traffic is never limited. Limits are looked
+ * up by bot name (`knownBot`, then `botName`), then category, then `default`;
+ * requests over the limit get `429 Too Many Requests` with `Retry-After`.
+ *
+ * @param options - Limits, algorithm and counter store
+ * @returns Koa middleware function
+ *
+ * @example
+ * ```typescript
+ * app.use(koaIsBot());
+ * app.use(koaBotRateLimit({
+ *   algorithm: 'token-bucket',
+ *   limits: {
+ *     default: { limit: 120, windowMs: 60000 },
+ *     bots: { Bytespider: { limit: 10, windowMs: 60000 } },
+ *     categories: { seo: { limit: 30, windowMs: 60000, algorithm: 'sliding-window' } },
+ *   },
+ * }));
+ * ```
+ */
+export function koaBotRateLimit(options: KoaBotRateLimitOptions): Middleware<KoaContextWithBot> {
+  const stateKey = options.stateKey ?? 'isBot';
+  const algorithm = options.algorithm ?? 'sliding-window';
+  const store = options.store ?? new MemoryRateLimitStore();
+  const bots = new Map(
+    Object.entries(options.limits.bots ?? {}).map(([name, limit]) => [name.toLowerCase(), limit])
+  );
+
+  for (const limit of [
+    options.limits.default,
+    ...bots.values(),
+    ...Object.values(options.limits.categories ?? {}),
+  ]) {
+    if (limit && !(limit.limit > 0 && limit.windowMs > 0)) {
+      throw new TypeError(
+        `Invalid bot rate limit: limit and windowMs must be positive (got ${limit.limit}/${limit.windowMs}ms)`
+      );
+    }
+  }
+
+  /**
+   * Find the limit for a bot: by name, then category, then default
+   */
+  const findLimit = (result: BotDetectionResult): RateLimit | undefined => {
+    for (const name of [result.knownBot, result.botName]) {
+      const limit = name ? bots.get(name.toLowerCase()) : undefined;
+      if (limit) return limit;
+    }
+    return (
+      (result.category ? options.limits.categories?.[result.category] : undefined) ??
+      options.limits.default
+    );
+  };
+
+  return async (ctx: Context, next: Next): Promise<void> => {
+    const result = (ctx.state as KoaContextWithBot['state'])[stateKey] as
+      | BotDetectionResult
+      | undefined;
+
+    // No detection result (koaIsBot not mounted before this middleware) or a human
+    const limit = result?.isBot ? findLimit(result) : undefined;
+    if (!result || !limit) {
+      await next();
+      return;
+    }
+
+    const identity = result.knownBot ?? result.botName ?? result.category ?? 'bot';
+    const clientIp = options.getClientIp ? options.getClientIp(ctx) : (result.clientIp ?? ctx.ip);
+    const key = options.keyGenerator
+      ? options.keyGenerator(ctx, result)
+      : `${identity}|${clientIp ?? ''}`;
+
+    const outcome = await store.consume(
+      key,
+      { limit: limit.limit, windowMs: limit.windowMs, algorithm: limit.algorithm ?? algorithm },
+      Date.now()
+    );
+
+    if (outcome.allowed) {
+      await next();
+      return;
+    }
+
+    if (options.onLimited) {
+      await options.onLimited(ctx, result, outcome);
+    }
+
+    ctx.status = 429;
+    ctx.set('Retry-After', String(Math.max(1, Math.ceil(outcome.retryAfterMs / 1000))));
+  };
+}
@@ -0,0 +1,940 @@
+import type { PatternSafetyIssue } from './types.js';
+
+/**
+ * Inclusive code point range
+ */
+type Range = [number, number];
+
+/**
+ * Characters matched by a literal, class, escape or dot
+ */
+interface CharSet {
+  ranges: Range[];
+  negate: boolean;
+}
+
+/**
+ * Parsed regular expression; `start`/`end` locate the node in the source
+ */
+type PatternNode = { start: number; end: number } & (
+  | { type: 'char'; set: CharSet }
+  | { type: 'seq'; items: PatternNode[] }
+  | { type: 'alt'; options: PatternNode[] }
+  | { type: 'group'; body: PatternNode; index: number | null }
+  | { type: 'look'; body: PatternNode; behind: boolean; negate: boolean }
+  | { type: 'repeat'; body: PatternNode; min: number; max: number; lazy: boolean }
+  | { type: 'assert'; kind: '^' | '$' | 'b' | 'B' }
+  | { type: 'backref'; ref: number | string }
+);
+
+const MAX_CODE_POINT = 0x10ffff;
+
+const DIGIT: Range[] = [[0x30, 0x39]];
+const WORD: Range[] = [
+  [0x30, 0x39],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+const SPACE: Range[] = [
+  [0x09, 0x0d],
+  [0x20, 0x20],
+  [0xa0, 0xa0],
+  [0x1680, 0x1680],
+  [0x2000, 0x200a],
+  [0x2028, 0x2029],
+  [0x202f, 0x202f],
+  [0x205f, 0x205f],
+  [0x3000, 0x3000],
+  [0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: Range[] = [
+  [0x0a, 0x0a],
+  [0x0d, 0x0d],
+  [0x2028, 0x2029],
+];
+
+/**
+ * Ranges of the code points not in the given sorted, non-overlapping ranges
+ */
+const complement = (ranges: Range[]): Range[] => {
+  const result: Range[] = [];
+  let next = 0;
+  for (const [lo, hi] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (lo > next) result.push([next, lo - 1]);
+    next = Math.max(next, hi + 1);
+  }
+  if (next <= MAX_CODE_POINT) result.push([next, MAX_CODE_POINT]);
+  return result;
+};
+
+/**
+ * Positive ranges of a set
+ */
+const resolveRanges = (set: CharSet): Range[] => (set.negate ? complement(set.ranges) : set.ranges);
+
+const inRanges = (ranges: Range[], code: number): boolean =>
+  ranges.some(([lo, hi]) => code >= lo && code <= hi);
+
+/**
+ * Add the other-case ASCII letters of a range list
+ */
+const foldCase = (ranges: Range[]): Range[] => {
+  const folded = [...ranges];
+  for (const [lo, hi] of ranges) {
+    for (const [from, to] of [
+      [0x41, 0x61],
+      [0x61, 0x41],
+    ] as const) {
+      const start = Math.max(lo, from);
+      const end = Math.min(hi, from + 25);
+      if (start <= end) folded.push([start - from + to, end - from + to]);
+    }
+  }
+  return folded;
+};
+
+const rangesOverlap = (a: Range[], b: Range[]): boolean =>
+  a.some(([aLo, aHi]) => b.some(([bLo, bHi]) => aLo <= bHi && bLo <= aHi));
+
+/**
+ * Error for syntax the safe matcher does not implement
+ */
+const unsupported = (what: string): TypeError =>
+  new TypeError(`${what} is not supported by the safe matcher`);
+
+/**
+ * Recursive-descent parser for JavaScript regular expression sources
+ * Sources are validated by `new RegExp()` first, so only valid syntax is expected here
+ */
+class PatternParser {
+  private pos = 0;
+  private groupIndex = 0;
+  private readonly groupCount: number;
+  private readonly hasNamedGroups: boolean;
+
+  /**
+   * Capture index of each named group
+   */
+  readonly groupNames = new Map<string, number>();
+
+  constructor(
+    private readonly source: string,
+    private readonly unicode: boolean,
+    private readonly dotAll: boolean
+  ) {
+    const groups = this.scanGroups();
+    this.groupCount = groups.count;
+    this.hasNamedGroups = groups.named;
+  }
+
+  parse(): PatternNode {
+    return this.alternation();
+  }
+
+  /**
+   * Count capturing groups ahead of parsing, so `\N` can be told apart from octal escapes
+   */
+  private scanGroups(): { count: number; named: boolean } {
+    let count = 0;
+    let named = false;
+    let inClass = false;
+    for (let i = 0; i < this.source.length; i++) {
+      const char = this.source[i];
+      if (char === '\\') {
+        i++;
+      } else if (inClass) {
+        inClass = char !== ']';
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === '(') {
+        if (this.source[i + 1] !== '?') {
+          count++;
+        } else if (this.source[i + 2] === '<' && !'=!'.includes(this.source[i + 3] ?? '')) {
+          count++;
+          named = true;
+        }
+      }
+    }
+    return { count, named };
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private alternation(): PatternNode {
+    const start = this.pos;
+    const options = [this.sequence()];
+    while (this.peek() === '|') {
+      this.pos++;
+      options.push(this.sequence());
+    }
+    return options.length === 1 ? options[0]! : { type: 'alt', options, start, end: this.pos };
+  }
+
+  private sequence(): PatternNode {
+    const start = this.pos;
+    const items: PatternNode[] = [];
+    while (this.pos < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      items.push(this.quantified());
+    }
+    return items.length === 1 ? items[0]! : { type: 'seq', items, start, end: this.pos };
+  }
+
+  private quantified(): PatternNode {
+    const start = this.pos;
+    const body = this.atom();
+    const quantifier = this.quantifier();
+    if (!quantifier) {
+      return body;
+    }
+    return { type: 'repeat', body, ...quantifier, start, end: this.pos };
+  }
+
+  private quantifier(): { min: number; max: number; lazy: boolean } | null {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+    if (char === '*') {
+      [min, max] = [0, Infinity];
+      this.pos++;
+    } else if (char === '+') {
+      [min, max] = [1, Infinity];
+      this.pos++;
+    } else if (char === '?') {
+      [min, max] = [0, 1];
+      this.pos++;
+    } else if (char === '{') {
+      const braces = /^\{(\d+)(?:(,)(\d*))?\}/.exec(this.source.slice(this.pos));
+      if (!braces) {
+        return null;
+      }
+      min = Number(braces[1]);
+      max = braces[2] ? (braces[3] ? Number(braces[3]) : Infinity) : min;
+      this.pos += braces[0].length;
+    } else {
+      return null;
+    }
+
+    const lazy = this.peek() === '?';
+    if (lazy) this.pos++;
+    return { min, max, lazy };
+  }
+
+  private atom(): PatternNode {
+    const start = this.pos;
+    const char = this.peek();
+    this.pos++;
+
+    switch (char) {
+      case '^':
+      case '$':
+        return { type: 'assert', kind: char, start, end: this.pos };
+      case '.': {
+        const set = this.dotAll
+          ? { ranges: [[0, MAX_CODE_POINT] as Range], negate: false }
+          : { ranges: LINE_TERMINATORS, negate: true };
+        return { type: 'char', set, start, end: this.pos };
+      }
+      case '(':
+        return this.group(start);
+      case '[':
+        return { type: 'char', set: this.characterClass(), start, end: this.pos };
+      case '\\':
+        return this.atomEscape(start);
+      default: {
+        const code = this.unicode ? this.source.codePointAt(start)! : char.charCodeAt(0);
+        this.pos = start + (code > 0xffff ? 2 : 1);
+        return {
+          type: 'char',
+          set: { ranges: [[code, code]], negate: false },
+          start,
+          end: this.pos,
+        };
+      }
+    }
+  }
+
+  private group(start: number): PatternNode {
+    let node: PatternNode;
+    const rest = this.source.slice(this.pos);
+
+    const look = /^\?(<?)([=!])/.exec(rest);
+    if (look) {
+      this.pos += look[0].length;
+      const body = this.alternation();
+      node = {
+        type: 'look',
+        body,
+        behind: look[1] === '<',
+        negate: look[2] === '!',
+        start,
+        end: 0,
+      };
+    } else if (rest.startsWith('?:')) {
+      this.pos += 2;
+      node = { type: 'group', body: this.alternation(), index: null, start, end: 0 };
+    } else if (rest.startsWith('?<')) {
+      const close = this.source.indexOf('>', this.pos);
+      const index = ++this.groupIndex;
+      this.groupNames.set(this.source.slice(this.pos + 2, close), index);
+      this.pos = close + 1;
+      node = { type: 'group', body: this.alternation(), index, start, end: 0 };
+    } else if (rest.startsWith('?')) {
+      throw unsupported('Group modifier');
+    } else {
+      const index = ++this.groupIndex;
+      node = { type: 'group', body: this.alternation(), index, start, end: 0 };
+    }
+
+    this.pos++; // ')'
+    node.end = this.pos;
+    return node;
+  }
+
+  /**
+   * Parse `[...]` after the opening bracket
+   */
+  private characterClass(): CharSet {
+    const negate = this.peek() === '^';
+    if (negate) this.pos++;
+
+    const ranges: Range[] = [];
+    while (this.peek() !== ']') {
+      const from = this.classAtom();
+      if (this.peek() === '-' && this.peek(1) !== ']' && !Array.isArray(from)) {
+        this.pos++;
+        const to = this.classAtom();
+        if (Array.isArray(to)) {
+          ranges.push([from, from], [0x2d, 0x2d], ...to);
+        } else {
+          ranges.push([from, to]);
+        }
+      } else {
+        ranges.push(...(Array.isArray(from) ? from : [[from, from] as Range]));
+      }
+    }
+    this.pos++; // ']'
+
+    return { ranges, negate };
+  }
+
+  /**
+   * A class member: a code point, or the ranges of a class escape
+   */
+  private classAtom(): number | Range[] {
+    const char = this.peek();
+    if (char !== '\\') {
+      const code = this.unicode ? this.source.codePointAt(this.pos)! : char.charCodeAt(0);
+      this.pos += code > 0xffff ? 2 : 1;
+      return code;
+    }
+
+    this.pos++;
+    const escaped = this.peek();
+    if (escaped === 'b') {
+      this.pos++;
+      return 0x08;
+    }
+    if (escaped === '-') {
+      this.pos++;
+      return 0x2d;
+    }
+    return this.characterEscape();
+  }
+
+  private atomEscape(start: number): PatternNode {
+    const char = this.peek();
+
+    if (char === 'b' || char === 'B') {
+      this.pos++;
+      return { type: 'assert', kind: char, start, end: this.pos };
+    }
+
+    const digits = /^[1-9]\d*/.exec(this.source.slice(this.pos));
+    if (digits && Number(digits[0]) <= this.groupCount) {
+      this.pos += digits[0].length;
+      return { type: 'backref', ref: Number(digits[0]), start, end: this.pos };
+    }
+
+    if (char === 'k' && (this.unicode || this.hasNamedGroups)) {
+      const end = this.source.indexOf('>', this.pos);
+      const name = this.source.slice(this.pos + 2, end);
+      this.pos = end + 1;
+      return { type: 'backref', ref: name, start, end: this.pos };
+    }
+
+    const escape = this.characterEscape();
+    const ranges: Range[] = Array.isArray(escape) ? escape : [[escape, escape]];
+    return { type: 'char', set: { ranges, negate: false }, start, end: this.pos };
+  }
+
+  /**
+   * Escape after the backslash: a code point or the ranges of a class escape
+   */
+  private characterEscape(): number | Range[] {
+    const char = this.peek();
+    this.pos++;
+
+    switch (char) {
+      case 'd':
+        return DIGIT;
+      case 'D':
+        return complement(DIGIT);
+      case 'w':
+        return WORD;
+      case 'W':
+        return complement(WORD);
+      case 's':
+        return SPACE;
+      case 'S':
+        return complement(SPACE);
+      case 't':
+        return 0x09;
+      case 'n':
+        return 0x0a;
+      case 'v':
+        return 0x0b;
+      case 'f':
+        return 0x0c;
+      case 'r':
+        return 0x0d;
+      case 'p':
+      case 'P':
+        if (this.unicode) throw unsupported('Unicode property escape');
+        return char.charCodeAt(0);
+      case 'c': {
+        const letter = this.peek();
+        if (/[a-z]/i.test(letter)) {
+          this.pos++;
+          return letter.charCodeAt(0) % 32;
+        }
+        this.pos--;
+        return 0x5c;
+      }
+      case 'x': {
+        const hex = /^[\da-f]{2}/i.exec(this.source.slice(this.pos));
+        if (!hex) return 0x78;
+        this.pos += 2;
+        return parseInt(hex[0], 16);
+      }
+      case 'u': {
+        const hex =
+          /^[\da-f]{4}/i.exec(this.source.slice(this.pos)) ??
+          (this.unicode ? /^\{([\da-f]+)\}/i.exec(this.source.slice(this.pos)) : null);
+        if (!hex) return 0x75;
+        this.pos += hex[0].length;
+        return parseInt(hex[1] ?? hex[0], 16);
+      }
+      case '0':
+      case '1':
+      case '2':
+      case '3':
+      case '4':
+      case '5':
+      case '6':
+      case '7': {
+        // Legacy octal escape (or \0)
+        const octal = /^[0-7]{0,2}/.exec(this.source.slice(this.pos))![0];
+        const value = parseInt(char + octal, 8);
+        if (value > 0o377) {
+          this.pos += octal.length - 1;
+          return parseInt(char + octal.slice(0, -1), 8);
+        }
+        this.pos += octal.length;
+        return value;
+      }
+      default:
+        return this.source.codePointAt(this.pos - 1)!;
+    }
+  }
+}
+
+/**
+ * Parse a pattern (string patterns are case-insensitive)
+ */
+const parsePattern = (
+  pattern: string | RegExp
+): { root: PatternNode; flags: string; groupNames: Map<string, number> } => {
+  const regex = pattern instanceof RegExp ? pattern : new RegExp(pattern, 'i');
+  if (regex.flags.includes('v')) {
+    throw unsupported('The v flag');
+  }
+  const parser = new PatternParser(
+    regex.source,
+    regex.flags.includes('u'),
+    regex.flags.includes('s')
+  );
+  return { root: parser.parse(), flags: regex.flags, groupNames: parser.groupNames };
+};
+
+/**
+ * Whether a node can match the empty string
+ */
+const isNullable = (node: PatternNode): boolean => {
+  switch (node.type) {
+    case 'char':
+      return false;
+    case 'seq':
+      return node.items.every(isNullable);
+    case 'alt':
+      return node.options.some(isNullable);
+    case 'group':
+      return isNullable(node.body);
+    case 'repeat':
+      return node.min === 0 || isNullable(node.body);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Code points a node can start with
+ */
+const firstChars = (node: PatternNode): Range[] => {
+  switch (node.type) {
+    case 'char':
+      return resolveRanges(node.set);
+    case 'seq': {
+      const ranges: Range[] = [];
+      for (const item of node.items) {
+        ranges.push(...firstChars(item));
+        if (!isNullable(item)) break;
+      }
+      return ranges;
+    }
+    case 'alt':
+      return node.options.flatMap(firstChars);
+    case 'group':
+    case 'repeat':
+      return firstChars(node.body);
+    case 'backref':
+      return [[0, MAX_CODE_POINT]];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Whether a node contains an unbounded quantifier over something non-empty
+ */
+const hasUnboundedRepeat = (node: PatternNode): boolean => {
+  switch (node.type) {
+    case 'repeat':
+      return (node.max === Infinity && !isNullable(node.body)) || hasUnboundedRepeat(node.body);
+    case 'seq':
+      return node.items.some(hasUnboundedRepeat);
+    case 'alt':
+      return node.options.some(hasUnboundedRepeat);
+    case 'group':
+    case 'look':
+      return hasUnboundedRepeat(node.body);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Unbounded quantifier over something non-empty directly under a node, looking through groups
+ */
+const unwrapUnboundedRepeat = (
+  node: PatternNode
+): Extract<PatternNode, { type: 'repeat' }> | null => {
+  if (node.type === 'group') return unwrapUnboundedRepeat(node.body);
+  return node.type === 'repeat' && node.max === Infinity && !isNullable(node.body) ? node : null;
+};
+
+/**
+ * Alternation directly under a node, looking through groups
+ */
+const unwrapAlternation = (node: PatternNode): Extract<PatternNode, { type: 'alt' }> | null => {
+  if (node.type === 'group') return unwrapAlternation(node.body);
+  return node.type === 'alt' ? node : null;
+};
+
+/**
+ * Analyse a pattern for catastrophic backtracking
+ *
+ * Flags unbounded quantifiers nested in unbounded quantifiers (`(a+)+`),
+ * repeated alternations whose branches can start with the same character
+ * (`(a|ab)*`, `(\w|\d)+`), and unbounded quantifiers following each other
+ * over overlapping characters (`a*a*b`, `.*.*`). The first two can make a
+ * backtracking engine take exponential time on a non-matching input, the last
+ * polynomial time that still stalls on long user agents. The check is
+ * conservative: some flagged patterns are safe in practice.
+ *
+ * @param pattern - String (isbot syntax, case-insensitive) or RegExp pattern
+ * @returns Issues found, empty when the pattern looks safe
+ *
+ * @example
+ * ```typescript
+ * analyzePattern(/(\w+\s?)+$/);
+ * // [{ kind: 'nested-quantifier', fragment: '(\\w+\\s?)+', message: '...' }]
+ * ```
+ */
+export function analyzePattern(pattern: string | RegExp): PatternSafetyIssue[] {
+  const source = pattern instanceof RegExp ? pattern.source : pattern;
+  const display = pattern instanceof RegExp ? String(pattern) : `"${pattern}"`;
+
+  let parsed: ReturnType<typeof parsePattern>;
+  try {
+    parsed = parsePattern(pattern);
+  } catch {
+    // Constructs the parser does not know cannot be analysed; the matcher reports them
+    return [];
+  }
+  const ignoreCase = parsed.flags.includes('i');
+
+  const issues: PatternSafetyIssue[] = [];
+  const report = (
+    kind: PatternSafetyIssue['kind'],
+    node: { start: number; end: number },
+    reason: string
+  ): void => {
+    const fragment = source.slice(node.start, node.end);
+    issues.push({
+      pattern,
+      kind,
+      fragment,
+      message: `Unsafe bot pattern ${display}: ${reason} in "${fragment}" can backtrack catastrophically`,
+    });
+  };
+
+  const chars = (node: PatternNode): Range[] =>
+    ignoreCase ? foldCase(firstChars(node)) : firstChars(node);
+
+  /**
+   * Report unbounded quantifiers of a sequence that can trade characters with the previous one
+   */
+  const visitSequence = (items: PatternNode[]): void => {
+    let previous: Extract<PatternNode, { type: 'repeat' }> | null = null;
+    for (const item of items) {
+      const repeat = unwrapUnboundedRepeat(item);
+      if (repeat) {
+        if (previous && rangesOverlap(chars(previous.body), chars(repeat.body))) {
+          report(
+            'overlapping-quantifiers',
+            { start: previous.start, end: item.end },
+            'adjacent overlapping quantifiers'
+          );
+          return;
+        }
+        previous = repeat;
+      } else if (!isNullable(item)) {
+        previous = null;
+      }
+    }
+  };
+
+  const visit = (node: PatternNode): void => {
+    if (node.type === 'repeat' && node.max === Infinity) {
+      if (hasUnboundedRepeat(node.body)) {
+        report('nested-quantifier', node, 'nested quantifier');
+        return;
+      }
+
+      const alternation = unwrapAlternation(node.body);
+      if (alternation) {
+        const starts = alternation.options.map(chars);
+        const ambiguous = starts.some((ranges, i) =>
+          starts.slice(i + 1).some((other) => rangesOverlap(ranges, other))
+        );
+        if (ambiguous) {
+          report('ambiguous-alternation', node, 'repeated alternation with overlapping branches');
+          return;
+        }
+      }
+    }
+
+    switch (node.type) {
+      case 'seq':
+        visitSequence(node.items);
+        node.items.forEach(visit);
+        break;
+      case 'alt':
+        node.options.forEach(visit);
+        break;
+      case 'group':
+      case 'look':
+      case 'repeat':
+        visit(node.body);
+        break;
+    }
+  };
+
+  visit(parsed.root);
+  return issues;
+}
+
+/**
+ * Outcome of a budgeted match
+ */
+export interface SafeMatchResult {
+  /**
+   * Matched text, or null when the pattern does not match (or ran out of time)
+   */
+  match: string | null;
+
+  /**
+   * Whether the time budget ran out before the match completed
+   */
+  timedOut: boolean;
+}
+
+/**
+ * Backtracking matcher with a time budget
+ */
+export interface SafeMatcher {
+  /**
+   * Find the first match in the input, giving up after `timeout` milliseconds
+   */
+  exec(input: string, timeout: number): SafeMatchResult;
+}
+
+/**
+ * Thrown inside the matcher when the budget runs out
+ */
+class MatchTimeout extends Error {}
+
+/**
+ * Steps between clock reads
+ */
+const CLOCK_INTERVAL = 1024;
+
+/**
+ * Compile a pattern for the budgeted matcher
+ *
+ * Implements JavaScript regular expression semantics (flags `i`, `m`, `s`,
+ * `u`, `y`; `g` is ignored) with a backtracking interpreter that checks the
+ * clock as it goes, so a catastrophic pattern gives up instead of stalling the
+ * event loop.
+ *
+ * @param pattern - String (case-insensitive) or RegExp pattern
+ * @returns Matcher
+ * @throws TypeError for Unicode property escapes, group modifiers and the `v` flag
+ */
+export function compileSafeMatcher(pattern: string | RegExp): SafeMatcher {
+  const { root, flags, groupNames } = parsePattern(pattern);
+  const ignoreCase = flags.includes('i');
+  const multiline = flags.includes('m');
+  const unicode = flags.includes('u');
+  const sticky = flags.includes('y');
+
+  // Like the native engine, a negated class excludes every case of its members
+  const testChar = (set: CharSet, code: number): boolean => {
+    const inSet = (value: number): boolean => inRanges(set.ranges, value);
+    if (inSet(code) || !ignoreCase) return inSet(code) !== set.negate;
+    const char = String.fromCodePoint(code);
+    const lower = char.toLowerCase();
+    const upper = char.toUpperCase();
+    const member =
+      (lower.length === char.length && inSet(lower.codePointAt(0)!)) ||
+      (upper.length === char.length && inSet(upper.codePointAt(0)!));
+    return member !== set.negate;
+  };
+
+  const isWordAt = (input: string, index: number): boolean =>
+    index >= 0 && index < input.length && inRanges(WORD, input.charCodeAt(index));
+
+  const isLineTerminatorAt = (input: string, index: number): boolean =>
+    inRanges(LINE_TERMINATORS, input.charCodeAt(index));
+
+  return {
+    exec(input: string, timeout: number): SafeMatchResult {
+      const deadline = performance.now() + timeout;
+      let steps = 0;
+      let captures: ([number, number] | undefined)[] = [];
+
+      const tick = (): void => {
+        if (++steps % CLOCK_INTERVAL === 0 && performance.now() > deadline) {
+          throw new MatchTimeout();
+        }
+      };
+
+      // Without the u flag, patterns match UTF-16 code units
+      const codeAt = (index: number): { code: number; size: number } => {
+        const code = unicode ? input.codePointAt(index)! : input.charCodeAt(index);
+        return { code, size: code > 0xffff ? 2 : 1 };
+      };
+
+      /**
+       * Start of the character ending at a position
+       */
+      const previousStart = (index: number): number => {
+        const low = input.charCodeAt(index - 1);
+        const isPair =
+          unicode && index >= 2 && low >= 0xdc00 && low <= 0xdfff && codeAt(index - 2).size === 2;
+        return isPair ? index - 2 : index - 1;
+      };
+
+      /**
+       * Match a node at a position, in the given direction (backwards inside lookbehinds),
+       * calling the continuation with the position after it
+       */
+      const match = (
+        node: PatternNode,
+        pos: number,
+        backward: boolean,
+        next: (pos: number) => boolean
+      ): boolean => {
+        tick();
+
+        switch (node.type) {
+          case 'char': {
+            if (backward) {
+              if (pos <= 0) return false;
+              const from = previousStart(pos);
+              return testChar(node.set, codeAt(from).code) && next(from);
+            }
+            if (pos >= input.length) return false;
+            const { code, size } = codeAt(pos);
+            return testChar(node.set, code) && next(pos + size);
+          }
+
+          case 'seq': {
+            const items = backward ? [...node.items].reverse() : node.items;
+            const step = (index: number, at: number): boolean =>
+              index === items.length
+                ? next(at)
+                : match(items[index]!, at, backward, (after) => step(index + 1, after));
+            return step(0, pos);
+          }
+
+          case 'alt':
+            return node.options.some((option) => match(option, pos, backward, next));
+
+          case 'group': {
+            if (node.index === null) {
+              return match(node.body, pos, backward, next);
+            }
+            const index = node.index;
+            const saved = captures[index];
+            const matched = match(node.body, pos, backward, (after) => {
+              const previous = captures[index];
+              captures[index] = backward ? [after, pos] : [pos, after];
+              if (next(after)) return true;
+              captures[index] = previous;
+              return false;
+            });
+            if (!matched) captures[index] = saved;
+            return matched;
+          }
+
+          case 'look': {
+            const saved = captures.slice();
+            const matched = match(node.body, pos, node.behind, () => true);
+            if (matched === node.negate) {
+              captures = saved;
+              return false;
+            }
+            if (node.negate) captures = saved;
+            if (next(pos)) return true;
+            captures = saved;
+            return false;
+          }
+
+          case 'repeat':
+            return matchRepeat(node, pos, backward, next);
+
+          case 'assert':
+            switch (node.kind) {
+              case '^':
+                return (
+                  (pos === 0 || (multiline && isLineTerminatorAt(input, pos - 1))) && next(pos)
+                );
+              case '$':
+                return (
+                  (pos === input.length || (multiline && isLineTerminatorAt(input, pos))) &&
+                  next(pos)
+                );
+              case 'b':
+                return isWordAt(input, pos - 1) !== isWordAt(input, pos) && next(pos);
+              case 'B':
+                return isWordAt(input, pos - 1) === isWordAt(input, pos) && next(pos);
+            }
+            return false;
+
+          case 'backref': {
+            const index = typeof node.ref === 'number' ? node.ref : groupNames.get(node.ref);
+            const capture = index === undefined ? undefined : captures[index];
+            if (!capture) return next(pos);
+            const text = input.slice(capture[0], capture[1]);
+            const start = backward ? pos - text.length : pos;
+            if (start < 0 || start + text.length > input.length) return false;
+            const candidate = input.slice(start, start + text.length);
+            const equal = ignoreCase
+              ? candidate.toLowerCase() === text.toLowerCase()
+              : candidate === text;
+            return equal && next(backward ? start : start + text.length);
+          }
+        }
+      };
+
+      /**
+       * Quantifiers; single characters loop iteratively to keep the stack shallow
+       */
+      const matchRepeat = (
+        node: Extract<PatternNode, { type: 'repeat' }>,
+        pos: number,
+        backward: boolean,
+        next: (pos: number) => boolean
+      ): boolean => {
+        const { body, min, max, lazy } = node;
+
+        if (body.type === 'char' && !backward) {
+          const ends = [pos];
+          let at = pos;
+          while (ends.length - 1 < max && at < input.length) {
+            tick();
+            const { code, size } = codeAt(at);
+            if (!testChar(body.set, code)) break;
+            at += size;
+            ends.push(at);
+          }
+          if (ends.length - 1 < min) return false;
+          const candidates = ends.slice(min);
+          for (const end of lazy ? candidates : candidates.reverse()) {
+            if (next(end)) return true;
+          }
+          return false;
+        }
+
+        const iterate = (count: number, at: number): boolean => {
+          const more = (): boolean =>
+            count < max &&
+            match(body, at, backward, (after) =>
+              // An empty iteration past the minimum cannot make progress
+              after === at && count >= min ? false : iterate(count + 1, after)
+            );
+          const done = (): boolean => count >= min && next(at);
+          return lazy ? done() || more() : more() || done();
+        };
+        return iterate(0, pos);
+      };
+
+      try {
+        const lastStart = sticky ? 0 : input.length;
+        for (let start = 0; start <= lastStart; start++) {
+          captures = [];
+          let end = -1;
+          if (
+            match(root, start, false, (after) => {
+              end = after;
+              return true;
+            })
+          ) {
+            return { match: input.slice(start, end), timedOut: false };
+          }
+        }
+        return { match: null, timedOut: false };
+      } catch (error) {
+        // Deep recursion is treated like running out of time
+        if (error instanceof MatchTimeout || error instanceof RangeError) {
+          return { match: null, timedOut: true };
+        }
+        throw error;
+      }
+    },
+  };
+}
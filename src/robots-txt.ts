@@ -0,0 +1,252 @@
+import { createHash } from 'node:crypto';
+import type { Context, Middleware, Next } from 'koa';
+import { BOT_CLASSIFICATIONS } from './classification.js';
+import { toArray } from './utils.js';
+import type {
+  BotCategory,
+  BotClassification,
+  BotPolicyRule,
+  KoaContextWithBot,
+  KoaRobotsTxtOptions,
+  LlmsTxtConfig,
+} from './types.js';
+
+/**
+ * A rendered file served by the route middleware
+ */
+interface GeneratedFile {
+  body: string;
+  type: string;
+  etag: string;
+}
+
+/**
+ * User-agent token resolved from a policy rule
+ */
+interface ResolvedToken {
+  token: string;
+  category: BotCategory | null;
+}
+
+const AI_CATEGORIES = new Set<BotCategory>(['ai-crawler', 'ai-agent']);
+
+const HEADER = '# Generated by koa-isbot from bot policy rules';
+
+/**
+ * Convert a policy path glob to a robots.txt path pattern
+ * A trailing wildcard becomes a prefix match; otherwise the path is anchored with `$`
+ */
+export function globToRobotsPath(glob: string): string {
+  const trailing = /\*+$/.exec(glob);
+  const body = (trailing ? glob.slice(0, trailing.index) : glob)
+    .replace(/\*\*/g, '*')
+    .replace(/\?/g, '*');
+  return trailing ? body || '/' : `${body}$`;
+}
+
+/**
+ * Resolve the user-agent tokens a rule applies to, using the classification table
+ * Returns null when the rule cannot be expressed in robots.txt
+ */
+const resolveTokens = (
+  rule: BotPolicyRule,
+  table: readonly BotClassification[]
+): ResolvedToken[] | null => {
+  if (rule.action !== 'allow' && rule.action !== 'deny') return null;
+  if (rule.verified !== undefined || rule.isBot === false) return null;
+  if (rule.method !== undefined && !toArray(rule.method).some((m) => /^(GET|HEAD)$/i.test(m))) {
+    return null;
+  }
+
+  if (rule.bot === undefined && rule.category === undefined) {
+    return [{ token: '*', category: null }];
+  }
+
+  const tokens = new Map<string, ResolvedToken>();
+  const categories = rule.category === undefined ? null : new Set(toArray(rule.category));
+
+  if (rule.bot !== undefined) {
+    for (const name of toArray(rule.bot)) {
+      // RegExp bot matchers have no robots.txt equivalent
+      if (typeof name !== 'string') continue;
+      const entry = table.find((e) => e.name.toLowerCase() === name.toLowerCase());
+      if (categories && (!entry || !categories.has(entry.category))) continue;
+      tokens.set((entry?.name ?? name).toLowerCase(), {
+        token: entry?.name ?? name,
+        category: entry?.category ?? null,
+      });
+    }
+  } else if (categories) {
+    for (const entry of table) {
+      if (categories.has(entry.category)) {
+        tokens.set(entry.name.toLowerCase(), { token: entry.name, category: entry.category });
+      }
+    }
+  }
+
+  return tokens.size > 0 ? [...tokens.values()] : null;
+};
+
+/**
+ * Render robots.txt-style groups for the rules
+ *
+ * Crawlers merge the groups of their token, while the policy stops at the first
+ * matching rule: once a rule decides a token for the whole site, later rules
+ * leave it out, and a whole-site catch-all rule ends the file.
+ */
+const renderGroups = (
+  options: Pick<KoaRobotsTxtOptions, 'rules' | 'classifications' | 'sitemaps'>,
+  include: (token: ResolvedToken) => boolean
+): string => {
+  const table = [...(options.classifications ?? []), ...BOT_CLASSIFICATIONS];
+  const groups: string[] = [];
+  const decided = new Set<string>();
+  let hasDefaultGroup = false;
+
+  for (const rule of options.rules) {
+    if (decided.has('*')) break;
+
+    const resolved = resolveTokens(rule, table) ?? [];
+    const tokens = resolved.filter(
+      (token) => !decided.has(token.token.toLowerCase()) && include(token)
+    );
+    if (rule.path === undefined) {
+      for (const { token } of resolved) decided.add(token.toLowerCase());
+    }
+    if (!tokens.length) continue;
+
+    const directive = rule.action === 'allow' ? 'Allow' : 'Disallow';
+    const paths = rule.path === undefined ? ['/'] : toArray(rule.path).map(globToRobotsPath);
+    hasDefaultGroup ||= tokens.some(({ token }) => token === '*');
+
+    groups.push(
+      [
+        ...(rule.name ? [`# ${rule.name}`] : []),
+        ...tokens.map(({ token }) => `User-agent: ${token}`),
+        ...paths.map((path) => `${directive}: ${path}`),
+      ].join('\n')
+    );
+  }
+
+  if (!hasDefaultGroup) {
+    groups.push('User-agent: *\nDisallow:');
+  }
+
+  const sitemaps = (options.sitemaps ?? []).map((url) => `Sitemap: ${url}`);
+
+  return [HEADER, ...groups, ...(sitemaps.length ? [sitemaps.join('\n')] : [])].join('\n\n') + '\n';
+};
+
+/**
+ * Render robots.txt from bot policy rules
+ *
+ * Bot names and categories are resolved to user-agent tokens via the
+ * classification table (e.g. 'ai-crawler' -> GPTBot, ClaudeBot, CCBot,
+ * Google-Extended, ...). Rules that robots.txt cannot express (redirects,
+ * custom handlers, verification conditions, RegExp bot names) are skipped.
+ */
+export function renderRobotsTxt(
+  options: Pick<KoaRobotsTxtOptions, 'rules' | 'classifications' | 'sitemaps'>
+): string {
+  return renderGroups(options, () => true);
+}
+
+/**
+ * Render ai.txt from bot policy rules, keeping only AI crawlers and agents
+ * Rules for every bot keep their `*` group, so a catch-all deny also denies AI bots here
+ */
+export function renderAiTxt(
+  options: Pick<KoaRobotsTxtOptions, 'rules' | 'classifications'>
+): string {
+  return renderGroups(
+    options,
+    ({ token, category }) => token === '*' || (category !== null && AI_CATEGORIES.has(category))
+  );
+}
+
+/**
+ * Render llms.txt (markdown) from its configuration
+ */
+export function renderLlmsTxt(config: LlmsTxtConfig): string {
+  const blocks = [`# ${config.title}`];
+
+  if (config.summary) blocks.push(`> ${config.summary}`);
+  if (config.details) blocks.push(config.details);
+
+  for (const [heading, links] of Object.entries(config.sections ?? {})) {
+    const items = links.map(
+      (link) => `- [${link.title}](${link.url})${link.description ? `: ${link.description}` : ''}`
+    );
+    blocks.push([`## ${heading}`, ...items].join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Build a served file with a strong ETag
+ */
+const createFile = (body: string, type: string): GeneratedFile => ({
+  body,
+  type,
+  etag: `"${createHash('sha1').update(body).digest('base64url')}"`,
+});
+
+/**
+ * Creates a Koa middleware serving /robots.txt (and optionally /ai.txt and /llms.txt)
+ * generated from bot policy rules
+ *
+ * Files are rendered once at creation and served with ETag and Last-Modified
+ * headers, answering conditional requests with 304.
+ *
+ * @param options - Policy rules and file settings
+ * @returns Koa middleware function
+ *
+ * @example
+ * ```typescript
+ * const rules: BotPolicyRule[] = [
+ *   { name: 'no-ai-training', category: 'ai-crawler', action: 'deny' },
+ *   { bot: 'AhrefsBot', path: '/search/**', action: 'deny' },
+ * ];
+ *
+ * app.use(koaRobotsTxt({ rules, sitemaps: ['https://example.com/sitemap.xml'], aiTxt: true }));
+ * app.use(koaIsBot());
+ * app.use(koaBotPolicy({ rules }));
+ * ```
+ */
+export function koaRobotsTxt(options: KoaRobotsTxtOptions): Middleware<KoaContextWithBot> {
+  const lastModified = options.lastModified ?? new Date();
+  const files = new Map<string, GeneratedFile>([
+    ['/robots.txt', createFile(renderRobotsTxt(options), 'text/plain; charset=utf-8')],
+  ]);
+
+  if (options.aiTxt) {
+    files.set('/ai.txt', createFile(renderAiTxt(options), 'text/plain; charset=utf-8'));
+  }
+  if (options.llmsTxt) {
+    files.set(
+      '/llms.txt',
+      createFile(renderLlmsTxt(options.llmsTxt), 'text/markdown; charset=utf-8')
+    );
+  }
+
+  return async (ctx: Context, next: Next): Promise<void> => {
+    const file = files.get(ctx.path);
+    if (!file || (ctx.method !== 'GET' && ctx.method !== 'HEAD')) {
+      await next();
+      return;
+    }
+
+    ctx.status = 200;
+    ctx.type = file.type;
+    ctx.set('ETag', file.etag);
+    ctx.lastModified = lastModified;
+
+    if (ctx.fresh) {
+      ctx.status = 304;
+      return;
+    }
+
+    ctx.body = file.body;
+  };
+}
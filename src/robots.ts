@@ -0,0 +1,203 @@
+import { readFile } from 'node:fs/promises';
+import { escapeRegExp } from './utils.js';
+import type {
+  BotDetectionResult,
+  RobotsGroup,
+  RobotsRule,
+  RobotsTxt,
+  RobotsTxtSource,
+} from './types.js';
+
+/**
+ * Bot identity used to select a robots.txt group
+ */
+type RobotsIdentity = Pick<BotDetectionResult, 'knownBot' | 'botName' | 'userAgent'> & {
+  claimedBot?: string | null;
+};
+
+/**
+ * Parse robots.txt contents into per-user-agent groups
+ *
+ * Consecutive user-agent lines share a group; unknown directives are ignored.
+ *
+ * @param contents - robots.txt file contents
+ * @returns Parsed groups and sitemap URLs
+ */
+export function parseRobotsTxt(contents: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const directive = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (directive) {
+      case 'user-agent': {
+        if (!current || !collectingAgents) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        // Only the product token matters: "Googlebot/2.1" -> "googlebot"
+        const token = value.split('/')[0]!.trim().toLowerCase();
+        if (token) current.userAgents.push(token);
+        break;
+      }
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        // An empty Disallow allows everything, so it adds no rule
+        if (current && value) {
+          current.rules.push({ allow: directive === 'allow', path: value });
+        }
+        break;
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const delay = Number.parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Load and parse robots.txt from a string, file or loader function
+ */
+export async function loadRobotsTxt(source: RobotsTxtSource): Promise<RobotsTxt> {
+  if (typeof source === 'function') {
+    return parseRobotsTxt(await source());
+  }
+  if (typeof source === 'object') {
+    return parseRobotsTxt(await readFile(source.file, 'utf8'));
+  }
+  return parseRobotsTxt(source);
+}
+
+/**
+ * Memoise loading robots.txt; a failed load is retried on the next call
+ */
+export const createRobotsTxtLoader = (source: RobotsTxtSource): (() => Promise<RobotsTxt>) => {
+  let robotsTxt: Promise<RobotsTxt> | null = null;
+  return () => {
+    robotsTxt ??= loadRobotsTxt(source).catch((error: unknown) => {
+      robotsTxt = null;
+      throw error;
+    });
+    return robotsTxt;
+  };
+};
+
+/**
+ * Report a robots.txt load failure that did not fail the request
+ */
+export const reportRobotsTxtError = (
+  error: unknown,
+  onError: ((error: unknown) => void) | undefined
+): void => {
+  if (onError) {
+    onError(error);
+  } else {
+    process.emitWarning(`robots.txt not loaded: ${(error as Error).message}`, 'RobotsTxtWarning');
+  }
+};
+
+/**
+ * Select the groups that apply to a bot
+ *
+ * The most specific user-agent token wins: a token applies when the bot's
+ * canonical name starts with it (so "googlebot" also covers Googlebot-Image),
+ * or, for bots without a known name, when the user agent contains it.
+ * Falls back to the '*' group.
+ */
+export function findRobotsGroups(robots: RobotsTxt, bot: RobotsIdentity): RobotsGroup[] {
+  const names = [bot.knownBot, bot.claimedBot, bot.botName]
+    .filter((name): name is string => !!name)
+    .map((name) => name.toLowerCase());
+  const userAgent = bot.userAgent.toLowerCase();
+
+  let best = '';
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      if (token === '*' || token.length <= best.length) continue;
+      if (names.some((name) => name.startsWith(token)) || userAgent.includes(token)) {
+        best = token;
+      }
+    }
+  }
+
+  const selected = best || '*';
+  return robots.groups.filter((group) => group.userAgents.includes(selected));
+}
+
+/**
+ * Convert a robots.txt path pattern to a regular expression
+ */
+const ruleToRegExp = (path: string): RegExp => {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path).split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+const ruleCache = new WeakMap<RobotsRule, RegExp>();
+
+/**
+ * Check whether a rule matches the path, compiling its pattern once
+ */
+const ruleMatches = (rule: RobotsRule, path: string): boolean => {
+  let regex = ruleCache.get(rule);
+  if (!regex) {
+    regex = ruleToRegExp(rule.path);
+    ruleCache.set(rule, regex);
+  }
+  return regex.test(path);
+};
+
+/**
+ * Check whether robots.txt allows a bot to fetch a path
+ *
+ * The longest matching rule wins; on a tie Allow wins. /robots.txt itself is always allowed.
+ *
+ * @param robots - Parsed robots.txt
+ * @param bot - Detection result identifying the bot
+ * @param path - Request path, including the query string
+ */
+export function isRobotsAllowed(robots: RobotsTxt, bot: RobotsIdentity, path: string): boolean {
+  if (path === '/robots.txt') return true;
+
+  let winner: RobotsRule | null = null;
+  for (const group of findRobotsGroups(robots, bot)) {
+    for (const rule of group.rules) {
+      if (!ruleMatches(rule, path)) continue;
+      if (
+        !winner ||
+        rule.path.length > winner.path.length ||
+        (rule.path.length === winner.path.length && rule.allow)
+      ) {
+        winner = rule;
+      }
+    }
+  }
+
+  return winner?.allow ?? true;
+}
+
+/**
+ * Get the Crawl-delay (in seconds) robots.txt sets for a bot, if any
+ */
+export function getRobotsCrawlDelay(robots: RobotsTxt, bot: RobotsIdentity): number | undefined {
+  return findRobotsGroups(robots, bot).find((group) => group.crawlDelay !== undefined)?.crawlDelay;
+}
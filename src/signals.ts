@@ -0,0 +1,145 @@
+import type { Context } from 'koa';
+import type { BotDetectionResult, BotSignal, BotSignalName } from './types.js';
+
+/**
+ * A signal observed on a request, before weighting
+ */
+type ObservedSignal = Pick<BotSignal, 'name' | 'detail'>;
+
+/**
+ * Default weight of each signal
+ * The user agent match and verification dominate; header anomalies only add up
+ */
+export const DEFAULT_SIGNAL_WEIGHTS: Readonly<Record<BotSignalName, number>> = {
+  'ua-match': 0.95,
+  'missing-user-agent': 0.8,
+  'missing-accept': 0.3,
+  'missing-accept-language': 0.25,
+  'missing-accept-encoding': 0.25,
+  'missing-sec-fetch': 0.3,
+  'inconsistent-sec-fetch': 0.4,
+  'client-hint-mismatch': 0.5,
+  automation: 0.9,
+  verified: 1,
+  'verification-failed': 0.9,
+};
+
+const SEC_FETCH_SITES = new Set(['same-origin', 'same-site', 'cross-site', 'none']);
+const SEC_FETCH_MODES = new Set(['navigate', 'cors', 'no-cors', 'same-origin', 'websocket']);
+const NAVIGATION_DESTS = new Set(['document', 'iframe', 'frame', 'fencedframe', 'embed', 'object']);
+
+/**
+ * Check whether the user agent claims a browser that sends Sec-Fetch-* headers
+ * (Chromium 76+, Firefox 90+)
+ */
+const sendsSecFetch = (userAgent: string): boolean => {
+  const chrome = /(?:Chrome|Chromium)\/(\d+)/.exec(userAgent);
+  if (chrome) return Number(chrome[1]) >= 76;
+  const firefox = /Firefox\/(\d+)/.exec(userAgent);
+  return !!firefox && Number(firefox[1]) >= 90;
+};
+
+/**
+ * Collect the header signals of a request
+ *
+ * @param ctx - Koa context of the request
+ * @param userAgent - User agent the request was detected with
+ * @returns Signals found in the request headers
+ */
+export function collectHeaderSignals(ctx: Context, userAgent: string): ObservedSignal[] {
+  const signals: ObservedSignal[] = [];
+
+  if (!userAgent) signals.push({ name: 'missing-user-agent' });
+  if (!ctx.get('Accept')) signals.push({ name: 'missing-accept' });
+  if (!ctx.get('Accept-Language')) signals.push({ name: 'missing-accept-language' });
+  if (!ctx.get('Accept-Encoding')) signals.push({ name: 'missing-accept-encoding' });
+
+  const site = ctx.get('Sec-Fetch-Site');
+  const mode = ctx.get('Sec-Fetch-Mode');
+  const dest = ctx.get('Sec-Fetch-Dest');
+
+  if (!site && !mode && !dest) {
+    if (sendsSecFetch(userAgent)) {
+      signals.push({ name: 'missing-sec-fetch', detail: 'Browser user agent without Sec-Fetch-*' });
+    }
+  } else if (!site || !mode || !dest) {
+    signals.push({ name: 'inconsistent-sec-fetch', detail: 'Incomplete Sec-Fetch-* headers' });
+  } else if (!SEC_FETCH_SITES.has(site) || !SEC_FETCH_MODES.has(mode)) {
+    signals.push({ name: 'inconsistent-sec-fetch', detail: 'Invalid Sec-Fetch-* value' });
+  } else if (mode === 'navigate' && !NAVIGATION_DESTS.has(dest)) {
+    signals.push({
+      name: 'inconsistent-sec-fetch',
+      detail: `Sec-Fetch-Mode navigate with Sec-Fetch-Dest ${dest}`,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Collect the signals carried by a detection result
+ * (user agent match, client hint mismatches, automation and verification)
+ */
+export function collectResultSignals(result: BotDetectionResult): ObservedSignal[] {
+  const signals: ObservedSignal[] = [];
+
+  if (result.botName !== null) {
+    signals.push({ name: 'ua-match', detail: result.botName });
+  }
+  if (result.clientHints?.mismatches.length) {
+    signals.push({
+      name: 'client-hint-mismatch',
+      detail: result.clientHints.mismatches.join('; '),
+    });
+  }
+  if (result.automation) {
+    signals.push({ name: 'automation', detail: result.automation });
+  }
+  if (result.verified === true) {
+    signals.push({ name: 'verified' });
+  }
+  if (result.spoofed) {
+    signals.push(
+      result.claimedBot
+        ? { name: 'verification-failed', detail: result.claimedBot }
+        : { name: 'verification-failed' }
+    );
+  }
+
+  return signals;
+}
+
+/**
+ * Creates a function weighting signals and combining them into a score
+ *
+ * Signals are combined as independent evidence: score = 1 - Π(1 - weight).
+ * Signals weighted 0 are disabled and left out.
+ *
+ * @param weights - Weights overriding `DEFAULT_SIGNAL_WEIGHTS`
+ * @returns Function computing the score and weighted signals
+ */
+export function createSignalScorer(
+  weights: Partial<Record<BotSignalName, number>> = {}
+): (observed: ObservedSignal[]) => Pick<BotDetectionResult, 'score' | 'signals'> {
+  const merged = { ...DEFAULT_SIGNAL_WEIGHTS, ...weights };
+
+  for (const [name, weight] of Object.entries(merged)) {
+    if (!(weight >= 0 && weight <= 1)) {
+      throw new TypeError(`Invalid weight for signal '${name}': expected 0 to 1 (got ${weight})`);
+    }
+  }
+
+  return (observed) => {
+    const signals: BotSignal[] = [];
+    let human = 1;
+
+    for (const signal of observed) {
+      const weight = merged[signal.name];
+      if (weight === 0) continue;
+      signals.push({ ...signal, weight });
+      human *= 1 - weight;
+    }
+
+    return { score: Math.round((1 - human) * 10000) / 10000, signals };
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Unescape the contents of a structured field string (RFC 8941 section 3.3.3)
+ */
+export const unescapeString = (value: string): string => value.replace(/\\(["\\])/g, '$1');
+
+/**
+ * Parse a structured field string ("Windows", "https://agent.example"), or null when not a string
+ */
+export const parseString = (value: string): string | null => {
+  const match = /^\s*"((?:[^"\\]|\\.)*)"\s*$/.exec(value);
+  return match ? unescapeString(match[1]!) : null;
+};
@@ -1,93 +1,1603 @@
-import type { Context, Middleware } from 'koa';
+import type { JsonWebKey } from 'node:crypto';
+import type { Context, Middleware, Next } from 'koa';
+
+/**
+ * High-level bot category used for routing, caching and analytics decisions
+ */
+export type BotCategory =
+  | 'search-engine'
+  | 'ai-crawler'
+  | 'ai-agent'
+  | 'seo'
+  | 'social'
+  | 'monitoring'
+  | 'scanner'
+  | 'impersonator'
+  | 'other';
+
+/**
+ * A single entry of the bot classification table
+ */
+export interface BotClassification {
+  /**
+   * Pattern matched (case-insensitively) against the user agent,
+   * written in the same syntax as isbot's pattern list
+   * @example 'googlebot-image', 'gptbot'
+   */
+  pattern: string;
+
+  /**
+   * Canonical product token of the bot
+   * @example 'Googlebot', 'GPTBot', 'ClaudeBot'
+   */
+  name: string;
+
+  /**
+   * Category the bot belongs to
+   */
+  category: BotCategory;
+
+  /**
+   * Finer-grained classification within the category
+   * @example 'web', 'images', 'training', 'link-preview'
+   */
+  subcategory?: string;
+
+  /**
+   * Organisation operating the bot
+   * @example 'google', 'openai'
+   */
+  operator?: string;
+}
+
+/**
+ * Named custom bot, reported with its declared name and metadata when its pattern matches
+ */
+export interface CustomBotDefinition {
+  /**
+   * Name reported as `botName` and `knownBot`
+   * @example 'CompanyCrawler'
+   */
+  name: string;
+
+  /**
+   * Pattern matched (case-insensitively) against the user agent
+   * @example 'company-crawler', /company-crawler\/\d+/i
+   */
+  pattern: string | RegExp;
+
+  /**
+   * Category reported for the bot
+   * @default 'other'
+   */
+  category?: BotCategory;
+
+  /**
+   * Finer-grained classification within the category
+   */
+  subcategory?: string;
+
+  /**
+   * Organisation operating the bot, reported as `operator`
+   * @example 'example-corp'
+   */
+  vendor?: string;
+
+  /**
+   * Documentation URL of the bot, reported as `botUrl`
+   */
+  url?: string;
+}
+
+/**
+ * Catastrophic-backtracking risk found in a user-supplied pattern
+ */
+export interface PatternSafetyIssue {
+  /**
+   * The offending pattern, as configured
+   */
+  pattern: string | RegExp;
+
+  /**
+   * `nested-quantifier`: an unbounded quantifier inside another, e.g. `(a+)+`
+   * `ambiguous-alternation`: a repeated alternation whose branches overlap, e.g. `(a|ab)*`
+   * `overlapping-quantifiers`: unbounded quantifiers in a row over overlapping characters,
+   * e.g. `a*a*b`
+   */
+  kind: 'nested-quantifier' | 'ambiguous-alternation' | 'overlapping-quantifiers';
+
+  /**
+   * Part of the pattern source at risk
+   * @example '(\\w+\\s?)+'
+   */
+  fragment: string;
+
+  /**
+   * Description naming the pattern, used for errors and warnings
+   */
+  message: string;
+}
+
+/**
+ * ReDoS protection for `customPatterns` and `customBots`
+ */
+export interface PatternSafetyOptions {
+  /**
+   * What to do with patterns at risk of catastrophic backtracking
+   * - `reject`: throw a TypeError naming the pattern
+   * - `warn`: call `onWarning` for each issue
+   * - `off`: skip the analysis
+   * @default 'warn'
+   */
+  policy?: 'reject' | 'warn' | 'off';
+
+  /**
+   * Called for each issue under the `warn` policy
+   * @default issue => process.emitWarning(issue.message, 'UnsafePatternWarning')
+   */
+  onWarning?: (issue: PatternSafetyIssue) => void;
+
+  /**
+   * Time budget per pattern match in milliseconds
+   * When set, custom patterns run on a backtracking matcher that gives up after the budget,
+   * instead of the combined pattern; a match that runs out of time counts as no match
+   */
+  matchTimeout?: number;
+
+  /**
+   * Called when a custom pattern ran out of its time budget on a user agent
+   */
+  onTimeout?: (pattern: string | RegExp, userAgent: string) => void;
+}
+
+/**
+ * Pattern that matched a user agent, with where it was defined
+ */
+export interface BotPatternMatch {
+  /**
+   * Pattern source, as listed in isbot or the configuration
+   */
+  pattern: string;
+
+  /**
+   * Flags of a RegExp pattern, which was evaluated as written
+   * @example 'i', ''
+   */
+  flags?: string;
+
+  /**
+   * Text of the user agent matched by the pattern
+   * Lowercased, except for RegExp patterns evaluated on their own (see `customPatterns`)
+   */
+  match: string;
+
+  /**
+   * isbot's built-in list, or `customPatterns`/`customBots`
+   */
+  source: 'isbot' | 'custom';
+
+  /**
+   * Name of the `customBots` definition the pattern belongs to
+   */
+  name?: string;
+}
 
 /**
  * Bot detection result containing information about the detected bot
  */
-export interface BotDetectionResult {
+export interface BotDetectionResult {
+  /**
+   * Whether a bot was detected
+   */
+  isBot: boolean;
+
+  /**
+   * The name/pattern of the detected bot (if any)
+   * @example 'googlebot', 'bingbot', 'chatgpt-user'
+   */
+  botName: string | null;
+
+  /**
+   * All detected bot patterns (if multiple match)
+   */
+  botPatterns: string[];
+
+  /**
+   * The patterns behind `botPatterns`, with the definition that fired and its source
+   * Only present for bots detected by `createBotDetector` (and so `koaIsBot`)
+   */
+  patternMatches?: BotPatternMatch[];
+
+  /**
+   * Documentation URL of the matching `customBots` definition (if declared)
+   */
+  botUrl?: string;
+
+  /**
+   * The user agent string that was analyzed
+   */
+  userAgent: string;
+
+  /**
+   * Category of the detected bot (null for non-bots)
+   * Bots missing from the classification table are reported as 'other'
+   */
+  category: BotCategory | null;
+
+  /**
+   * Sub-category of the detected bot (if known)
+   * @example 'web', 'training', 'link-preview'
+   */
+  subcategory: string | null;
+
+  /**
+   * Canonical name of the bot from the classification table (if known)
+   * @example 'Googlebot', 'GPTBot'
+   */
+  knownBot: string | null;
+
+  /**
+   * Organisation operating the bot, from the classification table (if known)
+   * @example 'google', 'openai'
+   */
+  operator: string | null;
+
+  /**
+   * Whether the bot's identity was confirmed by the configured verifier
+   * Only present when a verifier is configured and a bot was detected
+   */
+  verified?: VerificationStatus;
+
+  /**
+   * Whether the user agent claims to be a bot that failed verification
+   * Spoofed results use the 'impersonator' category and move the claimed identity to `claimedBot`
+   * Only present when a verifier is configured and a bot was detected
+   */
+  spoofed?: boolean;
+
+  /**
+   * The bot identity claimed by a spoofed user agent
+   * @example 'Googlebot'
+   */
+  claimedBot?: string | null;
+
+  /**
+   * Whether robots.txt allows this bot to fetch the requested path
+   * Only present when the `robots` option is configured and a bot was detected
+   */
+  robotsAllowed?: boolean;
+
+  /**
+   * HTTP Message Signature (Web Bot Auth) of the request
+   * Only present when `signatureVerifier` is configured and the request is signed
+   */
+  signedAgent?: SignedAgent;
+
+  /**
+   * Client IP resolved by `koaIsBot` (through `getClientIp` or `trustedProxy`)
+   * Used by `koaBotRateLimit`; absent when no IP could be resolved
+   */
+  clientIp?: string;
+
+  /**
+   * Bot confidence from 0 (human) to 1 (bot), combining all signals
+   */
+  score: number;
+
+  /**
+   * Signals contributing to the score
+   */
+  signals: BotSignal[];
+
+  /**
+   * Automation framework or headless browser behind the request, if any
+   */
+  automation: AutomationFramework | null;
+
+  /**
+   * User-Agent Client Hints sent with the request, or null when none were sent
+   */
+  clientHints: ClientHints | null;
+}
+
+/**
+ * A brand and version from Sec-CH-UA or Sec-CH-UA-Full-Version-List
+ */
+export interface ClientHintBrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * Parsed User-Agent Client Hints
+ */
+export interface ClientHints {
+  /**
+   * Brands from Sec-CH-UA, without GREASE entries
+   * @example [{ brand: 'Chromium', version: '120' }, { brand: 'Google Chrome', version: '120' }]
+   */
+  brands: ClientHintBrand[];
+
+  /**
+   * Brands with full versions from Sec-CH-UA-Full-Version-List, without GREASE entries
+   */
+  fullVersionList: ClientHintBrand[];
+
+  /**
+   * Sec-CH-UA-Mobile
+   */
+  mobile: boolean | null;
+
+  /**
+   * Sec-CH-UA-Platform
+   * @example 'Windows'
+   */
+  platform: string | null;
+
+  /**
+   * Sec-CH-UA-Platform-Version
+   */
+  platformVersion: string | null;
+
+  /**
+   * Sec-CH-UA-Model
+   */
+  model: string | null;
+
+  /**
+   * Sec-CH-UA-Arch
+   */
+  architecture: string | null;
+
+  /**
+   * Contradictions between the hints and the legacy User-Agent string
+   * @example ['Sec-CH-UA-Platform "macOS" does not match the user agent']
+   */
+  mismatches: string[];
+}
+
+/**
+ * Client hints requested from browsers via response headers
+ */
+export interface ClientHintsOptions {
+  /**
+   * Hints requested with Accept-CH
+   * @default ['Sec-CH-UA-Full-Version-List', 'Sec-CH-UA-Platform-Version', 'Sec-CH-UA-Model', 'Sec-CH-UA-Arch']
+   */
+  accept?: string[];
+
+  /**
+   * Hints also sent in Critical-CH, so the browser retries the request with them
+   * @example ['Sec-CH-UA-Full-Version-List']
+   */
+  critical?: string[];
+}
+
+/**
+ * Browser automation detected from request-level tells
+ * 'unknown-headless' is a headless browser that could not be attributed to a framework
+ */
+export type AutomationFramework = 'puppeteer' | 'playwright' | 'selenium' | 'unknown-headless';
+
+/**
+ * Names of the signals contributing to the bot score
+ */
+export type BotSignalName =
+  | 'ua-match'
+  | 'missing-user-agent'
+  | 'missing-accept'
+  | 'missing-accept-language'
+  | 'missing-accept-encoding'
+  | 'missing-sec-fetch'
+  | 'inconsistent-sec-fetch'
+  | 'client-hint-mismatch'
+  | 'automation'
+  | 'verified'
+  | 'verification-failed';
+
+/**
+ * A signal observed on a request and its weight
+ */
+export interface BotSignal {
+  name: BotSignalName;
+
+  /**
+   * Weight of the signal, from 0 to 1
+   */
+  weight: number;
+
+  /**
+   * What triggered the signal
+   * @example 'Sec-CH-UA-Platform "Windows" does not match the user agent'
+   */
+  detail?: string;
+}
+
+/**
+ * Outcome of verifying a claimed bot identity
+ * 'unknown' means verification was not possible (unsupported bot, missing IP, DNS failure)
+ */
+export type VerificationStatus = true | false | 'unknown';
+
+/**
+ * Verifies that a request really comes from the bot its user agent claims to be
+ */
+export interface BotVerifier {
+  /**
+   * Name of the verifier's configuration, namespacing cached outcomes so verifiers in other
+   * processes configured the same way share them; without one, outcomes stay with this verifier
+   */
+  readonly id?: string;
+
+  /**
+   * Verify the detection result against the client IP address
+   */
+  verify(ip: string, result: BotDetectionResult): Promise<VerificationStatus>;
+}
+
+/**
+ * DNS resolver used for reverse-DNS verification
+ * Injectable so verification can be tested without network access
+ */
+export interface DnsResolver {
+  /**
+   * Resolve an IP address to its hostnames (PTR records)
+   */
+  reverse(ip: string): Promise<string[]>;
+
+  /**
+   * Resolve a hostname to its IP addresses (A/AAAA records)
+   */
+  lookup(hostname: string): Promise<string[]>;
+}
+
+/**
+ * Source of published crawler IP ranges
+ * Either a path to a local file, or a loader returning the parsed list
+ */
+export type IpRangeSource = string | (() => IpRangeList | Promise<IpRangeList>);
+
+/**
+ * IP range list as published by crawler operators
+ * Accepts the `{ prefixes: [{ ipv4Prefix }, { ipv6Prefix }] }` JSON format used by
+ * Google, Bing, OpenAI and Perplexity, a plain array of CIDR blocks, or newline-separated text
+ */
+export type IpRangeList =
+  | string
+  | string[]
+  | { prefixes: ({ ipv4Prefix?: string; ipv6Prefix?: string } | string)[] };
+
+/**
+ * Options for the IP-range verifier
+ */
+export interface IpRangeVerifierOptions {
+  /**
+   * Range sources keyed by `knownBot` name or operator
+   * The bot name takes precedence over the operator
+   * @example { google: './ranges/googlebot.json', GPTBot: './ranges/gptbot.json' }
+   */
+  sources: Record<string, IpRangeSource>;
+
+  /**
+   * Reload all sources periodically, in milliseconds (0 disables)
+   * @default 0
+   */
+  reloadInterval?: number;
+
+  /**
+   * Called when a source fails to load; previously loaded ranges are kept
+   */
+  onError?: (error: unknown, key: string) => void;
+}
+
+/**
+ * Verifier backed by published crawler IP ranges
+ */
+export interface IpRangeVerifier extends BotVerifier {
+  /**
+   * Reload all sources and atomically swap in the new ranges
+   */
+  reload(): Promise<void>;
+
+  /**
+   * Stop the periodic reload timer
+   */
+  dispose(): void;
+}
+
+/**
+ * Options for resolving the client behind trusted proxies, load balancers and CDNs
+ */
+export interface TrustedProxyOptions {
+  /**
+   * CIDR blocks (or single addresses) of trusted proxies
+   * @example ['10.0.0.0/8', '2001:db8::/32']
+   */
+  proxies?: string[];
+
+  /**
+   * Number of proxy hops in front of the application to trust, nearest first
+   * Combined with `proxies`: a hop is trusted if either applies
+   * @default 0
+   */
+  hops?: number;
+
+  /**
+   * Headers carrying the original user agent, read when the request came through a trusted proxy
+   * The first non-empty header wins; User-Agent is the fallback
+   * @default ['X-Original-User-Agent']
+   */
+  userAgentHeaders?: string[];
+
+  /**
+   * Verdict header set by the CDN's bot management for verified bots
+   * Only honoured when the request came through a trusted proxy
+   * @example { name: 'CF-Verified-Bot', values: ['true'] }
+   */
+  verifiedBotHeader?: {
+    name: string;
+
+    /**
+     * Header values (case-insensitive) meaning the bot is verified
+     * @default ['1', 'true', 'yes']
+     */
+    values?: string[];
+  };
+}
+
+/**
+ * Client IP and user agent resolution through trusted proxies
+ * Functions are bound, so they can be passed as `getClientIp` / `getUserAgent` options
+ */
+export interface TrustedProxy {
+  /**
+   * Whether the request arrived from a trusted proxy
+   */
+  isTrusted: (ctx: Context) => boolean;
+
+  /**
+   * Client IP: the nearest address in the forwarding chain not belonging to a trusted proxy
+   */
+  getClientIp: (ctx: Context) => string | undefined;
+
+  /**
+   * Original user agent forwarded by a trusted proxy, or the User-Agent header
+   */
+  getUserAgent: (ctx: Context) => string;
+
+  /**
+   * Whether a trusted CDN marked the request as coming from a verified bot
+   */
+  isVerifiedBot: (ctx: Context) => boolean;
+}
+
+/**
+ * Outcome of verifying the HTTP Message Signature (RFC 9421) of a signed agent
+ */
+export interface SignedAgent {
+  /**
+   * Key identifier from the `keyid` signature parameter
+   * @example 'poqkLGiymh_W0uP6PZFw-dvez3QJT5SolqXBCW38r0U'
+   */
+  keyId: string;
+
+  /**
+   * Key directory URL from the Signature-Agent header, or null when absent
+   * @example 'https://chatgpt.com'
+   */
+  agent: string | null;
+
+  /**
+   * Whether the signature verified against the resolved key and is within its validity window
+   */
+  valid: boolean;
+
+  /**
+   * Bot the key is bound to, when `valid`
+   * @example 'ChatGPT-User'
+   */
+  bot?: string;
+
+  /**
+   * Operator the key is bound to, when `valid`
+   * @example 'openai'
+   */
+  operator?: string;
+
+  /**
+   * Why verification failed, when `valid` is false
+   * @example 'Signature expired'
+   */
+  reason?: string;
+}
+
+/**
+ * A signature declared in the Signature-Input header
+ */
+export interface SignatureInput {
+  /**
+   * Signature label, matching its member in the Signature header
+   * @example 'sig1'
+   */
+  label: string;
+
+  /**
+   * Covered component identifiers, in signing order
+   * @example ['@authority', 'signature-agent']
+   */
+  components: string[];
+
+  /**
+   * Signature parameters (created, expires, keyid, alg, nonce, tag)
+   */
+  params: Record<string, string | number | boolean>;
+
+  /**
+   * Serialized inner list and parameters, signed as `@signature-params`
+   */
+  raw: string;
+}
+
+/**
+ * Bot or operator a signing key belongs to
+ * A valid signature only verifies results claiming this bot (`knownBot`) or operator
+ */
+export interface SignatureKeyBinding {
+  /**
+   * Bot name, compared case-insensitively with `knownBot`
+   */
+  bot?: string;
+
+  /**
+   * Operator, compared case-insensitively with `operator`
+   */
+  operator?: string;
+}
+
+/**
+ * Public key of a signing agent, with the bot or operator it signs for
+ */
+export interface SignatureKey extends JsonWebKey, SignatureKeyBinding {}
+
+/**
+ * JSON Web Key Set (RFC 7517) as published by signing agents
+ * Keys may carry `bot` and `operator` members binding them to an identity
+ */
+export interface JsonWebKeySet {
+  keys: SignatureKey[];
+}
+
+/**
+ * Source of a JSON Web Key Set
+ * Either a path to a local JSON file, or a loader returning the parsed key set
+ */
+export type JwksSource = string | (() => JsonWebKeySet | Promise<JsonWebKeySet>);
+
+/**
+ * Resolves the public keys of signing agents
+ * Injectable so keys can come from local files, a database, or the agent's key directory
+ */
+export interface SignatureKeyDirectory {
+  /**
+   * Find the public key for a `keyid`
+   * @param keyId - Key identifier from the signature parameters
+   * @param agent - Key directory URL from the Signature-Agent header, or null when absent
+   * @returns The public key with its binding, or null when unknown
+   */
+  getKey(keyId: string, agent: string | null): Promise<SignatureKey | null>;
+}
+
+/**
+ * Options for Web Bot Auth signature verification
+ */
+export interface WebBotAuthVerifierOptions {
+  /**
+   * Directory resolving `keyid` values to public keys
+   * @example createJwksKeyDirectory('./keys/openai.json', { operator: 'openai' })
+   */
+  keys: SignatureKeyDirectory;
+
+  /**
+   * Components every signature must cover
+   * `signature-agent` is always required when the Signature-Agent header is sent
+   * @default ['@authority']
+   */
+  requiredComponents?: string[];
+
+  /**
+   * Tolerated clock difference when checking `created` and `expires`, in seconds
+   * @default 60
+   */
+  clockSkew?: number;
+}
+
+/**
+ * Verifies HTTP Message Signatures of signed agents
+ */
+export interface WebBotAuthVerifier {
+  /**
+   * Verify the signature of a request
+   * @returns The signed agent, or null when the request is not signed
+   */
+  verify(ctx: Context): Promise<SignedAgent | null>;
+}
+
+/**
+ * A single Allow/Disallow rule from robots.txt
+ */
+export interface RobotsRule {
+  /**
+   * Whether the rule allows or disallows matching paths
+   */
+  allow: boolean;
+
+  /**
+   * Path pattern, supporting `*` wildcards and a trailing `$` anchor
+   * @example '/private/', '/*.pdf$'
+   */
+  path: string;
+}
+
+/**
+ * A robots.txt group: the rules shared by one or more user-agent lines
+ */
+export interface RobotsGroup {
+  /**
+   * Lowercased user-agent tokens of the group ('*' for the default group)
+   */
+  userAgents: string[];
+
+  /**
+   * Allow/Disallow rules in file order
+   */
+  rules: RobotsRule[];
+
+  /**
+   * Crawl-delay in seconds (if specified)
+   */
+  crawlDelay?: number;
+}
+
+/**
+ * Parsed robots.txt file
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Source of the robots.txt file: its contents, a file path, or a loader function
+ */
+export type RobotsTxtSource = string | { file: string } | (() => string | Promise<string>);
+
+/**
+ * Options for robots.txt enforcement
+ */
+export interface RobotsOptions {
+  /**
+   * Where to load robots.txt from (loaded once, on the first bot request)
+   * @example { file: './public/robots.txt' }
+   */
+  source: RobotsTxtSource;
+
+  /**
+   * 'flag' only sets `robotsAllowed` on the result; 'reject' also responds to violators
+   * When robots.txt cannot be loaded, 'flag' leaves `robotsAllowed` unset and 'reject' fails the request
+   * @default 'flag'
+   */
+  enforce?: 'flag' | 'reject';
+
+  /**
+   * Response status for rejected requests
+   * @default 403
+   */
+  status?: number;
+
+  /**
+   * Called when robots.txt cannot be loaded under the 'flag' policy; the load is retried on the next bot request
+   * @default error => process.emitWarning(`robots.txt not loaded: ${error.message}`, 'RobotsTxtWarning')
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for the reverse-DNS verifier
+ */
+export interface DnsVerifierOptions {
+  /**
+   * Resolver to use
+   * @default Node.js `dns/promises`
+   */
+  resolver?: DnsResolver;
+
+  /**
+   * Allowed hostname suffixes per bot (keyed by `knownBot`)
+   * Merged over the bundled table
+   * @example { CompanyCrawler: ['.crawl.example.com'] }
+   */
+  crawlers?: Record<string, string[]>;
+
+  /**
+   * Maximum time to wait for DNS answers, in milliseconds
+   * Slower lookups are reported as 'unknown'
+   * @default 2000
+   */
+  timeout?: number;
+}
+
+/**
+ * Exclusion entry of `excludePatterns`
+ * - `pattern`: removes the isbot or custom pattern with exactly this source
+ * - `bot`: bots resolving to this name, compared case-insensitively with `knownBot`
+ * - `category`: bots resolving to this category
+ * - `userAgent`: removes every isbot pattern matching a sample user agent (like a plain string)
+ */
+export type BotExclusion =
+  | { pattern: string }
+  | { bot: string }
+  | { category: BotCategory }
+  | { userAgent: string };
+
+/**
+ * Runtime change to the patterns of a `koaIsBot` middleware
+ */
+export interface BotPatternUpdate {
+  /**
+   * Custom patterns or named custom bots to start detecting;
+   * a custom bot replaces any custom bot with the same name
+   */
+  add?: (string | RegExp | CustomBotDefinition)[];
+
+  /**
+   * Patterns or bots to stop detecting: a custom pattern (same source and flags) or
+   * custom bot (`{ bot: name }`) is dropped, anything else becomes an exclusion
+   */
+  remove?: (string | RegExp | BotExclusion)[];
+}
+
+/**
+ * Contents of a pattern file
+ * RegExps cannot be written in files; patterns are strings in isbot's case-insensitive syntax
+ */
+export interface BotPatternFile {
+  customPatterns?: string[];
+  customBots?: CustomBotDefinition[];
+  excludePatterns?: (string | BotExclusion)[];
+}
+
+/**
+ * Pattern file settings of `koaIsBot`
+ */
+export interface PatternFileOptions {
+  /**
+   * Path of the file; `.yaml`/`.yml` files are read as YAML, anything else as JSON
+   */
+  path: string;
+
+  /**
+   * Reload the patterns when the file changes
+   * @default false
+   */
+  watch?: boolean;
+
+  /**
+   * How often a watched file is checked for changes, in milliseconds
+   * @default 1000
+   */
+  watchInterval?: number;
+
+  /**
+   * Called when a watched file cannot be read, parsed or compiled; the previous patterns stay in use
+   * @default error => process.emitWarning(`Bot patterns not reloaded: ${error.message}`, 'PatternFileWarning')
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Pattern configuration compiled by `createBotDetector`
+ */
+export type BotDetectorOptions = Pick<
+  KoaIsBotOptions,
+  'customPatterns' | 'customBots' | 'excludePatterns' | 'classifications' | 'patternSafety'
+>;
+
+/**
+ * Compiled user agent detector, shareable between middleware instances
+ */
+export interface BotDetector {
+  /**
+   * Digest of the pattern configuration, namespacing cached detections so instances with
+   * other patterns can share a cache store; empty for the default patterns
+   */
+  readonly id?: string;
+
+  /**
+   * Detect and classify a bot from its user agent (before per-request signals)
+   */
+  detect(userAgent: string): BotDetectionResult;
+
+  /**
+   * Canonical cache key for user agents this detector is known to detect identically,
+   * or null to key by the raw user agent; used with `normalizeCacheKeys`
+   */
+  cacheKey?(userAgent: string): string | null;
+}
+
+/**
+ * Options for customizing the bot detection middleware
+ */
+export interface KoaIsBotOptions {
+  /**
+   * Custom bot patterns to add to detection
+   * Can be strings (matched case-insensitively) or RegExp patterns, evaluated with their flags;
+   * a RegExp only joins the fast combined pattern when it has the `i` flag alone
+   * and no backreferences or named groups
+   * @example ['mybot', /customcrawler/i, /^InternalProbe\//]
+   */
+  customPatterns?: (string | RegExp)[];
+
+  /**
+   * Named custom bots; a match reports the declared name, category, vendor and URL,
+   * taking precedence over isbot's built-in patterns and the classification table
+   * @example [{ name: 'CompanyCrawler', pattern: 'company-crawler', category: 'monitoring', vendor: 'example-corp' }]
+   */
+  customBots?: CustomBotDefinition[];
+
+  /**
+   * Analysis of `customPatterns` and `customBots` for catastrophic backtracking,
+   * and an optional time budget per match
+   * @example { policy: 'reject', matchTimeout: 5 }
+   */
+  patternSafety?: PatternSafetyOptions;
+
+  /**
+   * Patterns or bots to exclude from bot detection
+   * Useful for allowlisting specific user agents; a plain string is a sample user agent
+   * whose matching isbot patterns are removed. Every exclusion must match something.
+   * @example ['chrome-lighthouse', { pattern: 'headless' }, { bot: 'Googlebot' }, { category: 'seo' }]
+   */
+  excludePatterns?: (string | BotExclusion)[];
+
+  /**
+   * Additional classification entries, checked before the bundled table
+   * @example [{ pattern: 'company-crawler', name: 'CompanyCrawler', category: 'seo' }]
+   */
+  classifications?: BotClassification[];
+
+  /**
+   * JSON or YAML file of patterns added to `customPatterns`, `customBots` and
+   * `excludePatterns`, read at construction and on `reload()`, optionally watched
+   * @example { path: './bot-patterns.yaml', watch: true }
+   */
+  patternFile?: string | PatternFileOptions;
+
+  /**
+   * Shared compiled detector, replacing the pattern options above
+   * @example createBotDetector({ customPatterns: ['mybot'] })
+   */
+  detector?: BotDetector;
+
+  /**
+   * Where to store the detection result in Koa context
+   * @default 'isBot' (stored in ctx.state.isBot)
+   */
+  stateKey?: string;
+
+  /**
+   * Enable result caching for performance
+   * Caches results by user agent string
+   * @default true
+   */
+  cache?: boolean;
+
+  /**
+   * Maximum cache size (number of entries)
+   * @default 1000
+   */
+  cacheSize?: number;
+
+  /**
+   * Cache TTL in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  cacheTTL?: number;
+
+  /**
+   * Memory budget of each default cache, in estimated bytes
+   * @default Infinity (bounded by `cacheSize` only)
+   * @example 2 * 1024 * 1024
+   */
+  cacheMaxBytes?: number;
+
+  /**
+   * Admission policy of the default caches; `tinylfu` keeps one-off user agents
+   * from evicting frequently seen ones
+   * @default 'lru'
+   */
+  cacheAdmission?: CacheAdmissionPolicy;
+
+  /**
+   * Key cached detection results by canonical user agent, so browser user agents that
+   * only differ in version numbers share one entry
+   * Disabled by the detector when it has custom patterns
+   * @default false
+   */
+  normalizeCacheKeys?: boolean;
+
+  /**
+   * Cache store for detection results and verification outcomes, e.g. shared across instances
+   * Entries are written with `cacheTTL`; `cacheSize`, `cacheMaxBytes` and `cacheAdmission`
+   * only apply to the default LRU
+   * @default new BotDetectionCache(cacheSize, cacheTTL, { maxBytes: cacheMaxBytes, admission: cacheAdmission })
+   * @example new TieredCacheStore(redisStore)
+   */
+  cacheStore?: BotCacheStore;
+
+  /**
+   * Callback function called when the cache store fails to read or write an entry
+   * The request goes on without the cache: detection runs and the verifier is asked again
+   */
+  onCacheError?: (error: unknown, key: string) => void;
+
+  /**
+   * Callback function called when a bot is detected
+   * Useful for logging or custom handling
+   */
+  onBotDetected?: (ctx: Context, result: BotDetectionResult) => void | Promise<void>;
+
+  /**
+   * Callback function called for all requests
+   * Useful for analytics
+   */
+  onDetection?: (ctx: Context, result: BotDetectionResult) => void | Promise<void>;
+
+  /**
+   * Callback function called when a user agent impersonates a bot that failed verification
+   * Called after onBotDetected; requires a verifier
+   */
+  onSpoofDetected?: (ctx: Context, result: BotDetectionResult) => void | Promise<void>;
+
+  /**
+   * Custom user agent extraction function
+   * By default, uses ctx.request.headers['user-agent']
+   */
+  getUserAgent?: (ctx: Context) => string | undefined;
+
+  /**
+   * Custom client IP extraction function
+   * By default, uses ctx.ip
+   */
+  getClientIp?: (ctx: Context) => string | undefined;
+
+  /**
+   * Resolve the client IP and user agent through trusted proxies and CDNs (opt-in)
+   * Used instead of the defaults when `getClientIp` / `getUserAgent` are not set
+   * @example { proxies: ['10.0.0.0/8'], verifiedBotHeader: { name: 'CF-Verified-Bot' } }
+   */
+  trustedProxy?: TrustedProxyOptions;
+
+  /**
+   * Weights (0 to 1) overriding the default weight of each signal
+   * @example { 'missing-sec-fetch': 0, 'client-hint-mismatch': 0.8 }
+   */
+  signalWeights?: Partial<Record<BotSignalName, number>>;
+
+  /**
+   * Score from 0 to 1 from which a request counts as a bot (opt-in)
+   * When unset, `isBot` comes from the user agent alone and `score` is informational
+   * @example 0.7
+   */
+  threshold?: number;
+
+  /**
+   * Request User-Agent Client Hints from browsers with Accept-CH/Critical-CH (opt-in)
+   * Low-entropy hints (Sec-CH-UA, -Mobile, -Platform) are parsed either way
+   * @example { critical: ['Sec-CH-UA-Full-Version-List'] }
+   */
+  clientHints?: ClientHintsOptions;
+
+  /**
+   * robots.txt enforcement for detected bots (opt-in)
+   * @example { source: { file: './public/robots.txt' }, enforce: 'reject' }
+   */
+  robots?: RobotsOptions;
+
+  /**
+   * Verifier used to confirm claimed bot identities (opt-in)
+   * Results are cached per client IP using the cache settings above
+   * @example createDnsVerifier()
+   */
+  verifier?: BotVerifier;
+
+  /**
+   * Verifier for HTTP Message Signatures (Web Bot Auth) of signed agents (opt-in)
+   * A valid signature marks the request as a verified bot without DNS or IP checks
+   * @example createWebBotAuthVerifier({ keys: createJwksKeyDirectory('./keys/openai.json', { operator: 'openai' }) })
+   */
+  signatureVerifier?: WebBotAuthVerifier;
+}
+
+/**
+ * Custom policy handler, responsible for calling `next` if the request should proceed
+ */
+export type BotPolicyHandler = (
+  ctx: Context,
+  result: BotDetectionResult,
+  next: Next
+) => void | Promise<void>;
+
+/**
+ * Action taken when a policy rule matches
+ */
+export type BotPolicyAction = 'allow' | 'deny' | 'redirect' | BotPolicyHandler;
+
+/**
+ * Declarative bot policy rule
+ * All specified conditions must match; array values match any of their entries
+ */
+export interface BotPolicyRule {
+  /**
+   * Rule name, used when reporting decisions
+   */
+  name?: string;
+
+  /**
+   * Bot name(s), compared case-insensitively with `knownBot` and `botName`
+   * @example ['GPTBot', 'CCBot', /scraper/i]
+   */
+  bot?: string | RegExp | (string | RegExp)[];
+
+  /**
+   * Bot category or categories
+   * @example 'ai-crawler'
+   */
+  category?: BotCategory | BotCategory[];
+
+  /**
+   * Verification status(es)
+   */
+  verified?: VerificationStatus | VerificationStatus[];
+
+  /**
+   * Whether the request must (or must not) come from a bot
+   */
+  isBot?: boolean;
+
+  /**
+   * Path glob(s): `*` matches within a segment, `**` across segments
+   * @example '/api/**'
+   */
+  path?: string | string[];
+
+  /**
+   * HTTP method(s)
+   * @example ['GET', 'HEAD']
+   */
+  method?: string | string[];
+
+  /**
+   * Action taken when the rule matches
+   */
+  action: BotPolicyAction;
+
+  /**
+   * Response status for 'deny' (default 403) and 'redirect' (default 302)
+   */
+  status?: number;
+
+  /**
+   * Response body for 'deny'
+   */
+  body?: unknown;
+
+  /**
+   * Target URL for 'redirect'
+   */
+  location?: string;
+}
+
+/**
+ * Options for the bot policy middleware
+ */
+export interface KoaBotPolicyOptions {
+  /**
+   * Rules evaluated in order; the first matching rule decides
+   * Requests matching no rule are allowed
+   */
+  rules: BotPolicyRule[];
+
+  /**
+   * Where koaIsBot stored the detection result
+   * @default 'isBot'
+   */
+  stateKey?: string;
+
+  /**
+   * Compute and report decisions without applying them
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Where to store the policy decision in Koa context
+   * @default 'botPolicy' (stored in ctx.state.botPolicy)
+   */
+  decisionStateKey?: string;
+
+  /**
+   * Response header describing the decision in dry-run mode (false disables it)
+   * @default 'X-Bot-Policy'
+   */
+  decisionHeader?: string | false;
+
+  /**
+   * Callback function called with every policy decision
+   * Useful for logging what a dry-run policy would have done
+   * In dry-run mode, errors it throws are reported as a `BotPolicyWarning` process warning
+   */
+  onDecision?: (ctx: Context, decision: BotPolicyDecision) => void | Promise<void>;
+}
+
+/**
+ * Decision computed by the bot policy for a request
+ */
+export interface BotPolicyDecision {
+  /**
+   * Name of the matched rule (`#<index>` for unnamed rules), or null if no rule matched
+   */
+  rule: string | null;
+
+  /**
+   * Action of the matched rule ('allow' if no rule matched)
+   */
+  action: 'allow' | 'deny' | 'redirect' | 'custom';
+
+  /**
+   * Whether the decision was only recorded, not applied
+   */
+  dryRun: boolean;
+}
+
+/**
+ * Hit count of a single policy rule
+ */
+export interface BotPolicyRuleHits {
+  rule: string;
+  action: BotPolicyDecision['action'];
+  hits: number;
+}
+
+/**
+ * Per-rule hit summary of a bot policy
+ */
+export interface BotPolicySummary {
   /**
-   * Whether a bot was detected
+   * Requests evaluated by the policy
    */
-  isBot: boolean;
+  total: number;
 
   /**
-   * The name/pattern of the detected bot (if any)
-   * @example 'googlebot', 'bingbot', 'chatgpt-user'
+   * Requests matching no rule
    */
-  botName: string | null;
+  unmatched: number;
 
   /**
-   * All detected bot patterns (if multiple match)
+   * Hits per rule, in rule order
    */
-  botPatterns: string[];
+  rules: BotPolicyRuleHits[];
+}
+
+/**
+ * Type for the bot policy middleware function
+ */
+export type KoaBotPolicyMiddleware = Middleware<KoaContextWithBot> & {
+  /**
+   * Get the per-rule hit summary since creation (or the last reset)
+   */
+  getSummary(): BotPolicySummary;
 
   /**
-   * The user agent string that was analyzed
+   * Reset all hit counters
    */
-  userAgent: string;
+  resetSummary(): void;
+};
+
+/**
+ * A link in an llms.txt section
+ */
+export interface LlmsTxtLink {
+  title: string;
+  url: string;
+  description?: string;
 }
 
 /**
- * Options for customizing the bot detection middleware
+ * Contents of an llms.txt file
  */
-export interface KoaIsBotOptions {
+export interface LlmsTxtConfig {
   /**
-   * Custom bot patterns to add to detection
-   * Can be strings or RegExp patterns
-   * @example ['mybot', /customcrawler/i]
+   * Site or project name (rendered as the H1 heading)
    */
-  customPatterns?: (string | RegExp)[];
+  title: string;
 
   /**
-   * Patterns to exclude from bot detection
-   * Useful for allowlisting specific user agents
-   * @example ['chrome-lighthouse']
+   * Short summary (rendered as a blockquote)
    */
-  excludePatterns?: string[];
+  summary?: string;
 
   /**
-   * Where to store the detection result in Koa context
-   * @default 'isBot' (stored in ctx.state.isBot)
+   * Free-form details rendered after the summary
+   */
+  details?: string;
+
+  /**
+   * Link sections keyed by heading
+   * @example { Docs: [{ title: 'API', url: 'https://example.com/api.md' }] }
+   */
+  sections?: Record<string, LlmsTxtLink[]>;
+}
+
+/**
+ * Options for the robots.txt / ai.txt / llms.txt route middleware
+ */
+export interface KoaRobotsTxtOptions {
+  /**
+   * Bot policy rules to render (the same rules given to koaBotPolicy)
+   * 'deny' rules become Disallow lines and 'allow' rules become Allow lines
+   */
+  rules: BotPolicyRule[];
+
+  /**
+   * Additional classification entries used to resolve user-agent tokens
+   */
+  classifications?: BotClassification[];
+
+  /**
+   * Sitemap URLs appended to robots.txt
+   */
+  sitemaps?: string[];
+
+  /**
+   * Also serve /ai.txt with the rules for AI crawlers and agents
+   * @default false
+   */
+  aiTxt?: boolean;
+
+  /**
+   * Also serve /llms.txt with the given contents
+   */
+  llmsTxt?: LlmsTxtConfig;
+
+  /**
+   * Last-Modified date of the generated files
+   * @default the time the middleware was created
+   */
+  lastModified?: Date;
+}
+
+/**
+ * Rate limiting algorithm
+ * 'token-bucket' allows bursts up to the limit; 'sliding-window' smooths counts across windows
+ */
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+/**
+ * A rate limit: `limit` requests per `windowMs`
+ */
+export interface RateLimit {
+  /**
+   * Maximum requests per window (token bucket capacity)
+   */
+  limit: number;
+
+  /**
+   * Window length in milliseconds
+   */
+  windowMs: number;
+
+  /**
+   * Algorithm used for this limit (overrides the middleware default)
+   */
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * Outcome of consuming one request from a rate limit
+ */
+export interface RateLimitResult {
+  /**
+   * Whether the request is within the limit
+   */
+  allowed: boolean;
+
+  /**
+   * Requests left in the current window
+   */
+  remaining: number;
+
+  /**
+   * Milliseconds until the next request would be allowed (0 when allowed)
+   */
+  retryAfterMs: number;
+}
+
+/**
+ * Counter store for rate limiting
+ * Implementations backed by a shared store (e.g. Redis) must consume atomically
+ */
+export interface RateLimitStore {
+  /**
+   * Record one request for the key and report whether it is allowed
+   */
+  consume(
+    key: string,
+    limit: Required<RateLimit>,
+    now: number
+  ): RateLimitResult | Promise<RateLimitResult>;
+}
+
+/**
+ * Options for the per-bot rate limiting middleware
+ */
+export interface KoaBotRateLimitOptions {
+  /**
+   * Limits by bot name (`knownBot`, then `botName`), then category, then default
+   * Bots without an applicable limit are not limited
+   * @example { default: { limit: 60, windowMs: 60000 }, bots: { GPTBot: { limit: 10, windowMs: 60000 } } }
+   */
+  limits: {
+    default?: RateLimit;
+    bots?: Record<string, RateLimit>;
+    categories?: Partial<Record<BotCategory, RateLimit>>;
+  };
+
+  /**
+   * Default algorithm
+   * @default 'sliding-window'
+   */
+  algorithm?: RateLimitAlgorithm;
+
+  /**
+   * Counter store
+   * @default new MemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Where koaIsBot stored the detection result
+   * @default 'isBot'
    */
   stateKey?: string;
 
   /**
-   * Enable result caching for performance
-   * Caches results by user agent string
-   * @default true
+   * Custom client IP extraction function
+   * By default, uses the `clientIp` resolved by koaIsBot, then ctx.ip
    */
-  cache?: boolean;
+  getClientIp?: (ctx: Context) => string | undefined;
 
   /**
-   * Maximum cache size (number of entries)
+   * Custom rate limit key
+   * By default, combines the bot identity (name or category) with the client IP
+   */
+  keyGenerator?: (ctx: Context, result: BotDetectionResult) => string;
+
+  /**
+   * Callback function called when a request is rejected
+   */
+  onLimited?: (
+    ctx: Context,
+    result: BotDetectionResult,
+    limit: RateLimitResult
+  ) => void | Promise<void>;
+}
+
+/**
+ * Options for the crawl budget middleware
+ */
+export interface KoaCrawlBudgetOptions {
+  /**
+   * Minimum interval in milliseconds between requests of the same crawler,
+   * by bot name (`knownBot`, then `botName`), then category, then default
+   * @example { bots: { Bingbot: 2000 }, categories: { seo: 10000 } }
+   */
+  intervals?: {
+    default?: number;
+    bots?: Record<string, number>;
+    categories?: Partial<Record<BotCategory, number>>;
+  };
+
+  /**
+   * robots.txt whose Crawl-delay applies to bots without a configured bot or category interval
+   * While it cannot be loaded, the default interval applies
+   */
+  robots?: RobotsTxtSource;
+
+  /**
+   * Number of path segments used to group crawl volume ('/blog/2024/post' -> '/blog' at depth 1)
+   * @default 1
+   */
+  pathDepth?: number;
+
+  /**
+   * Maximum number of bots whose last request and crawl volume are kept, evicting the least recently seen
    * @default 1000
    */
-  cacheSize?: number;
+  maxBots?: number;
 
   /**
-   * Cache TTL in milliseconds
-   * @default 3600000 (1 hour)
+   * Maximum number of path prefixes counted per bot; requests to further prefixes are counted under '*'
+   * @default 100
    */
-  cacheTTL?: number;
+  maxPathsPerBot?: number;
 
   /**
-   * Callback function called when a bot is detected
-   * Useful for logging or custom handling
+   * Where koaIsBot stored the detection result
+   * @default 'isBot'
    */
-  onBotDetected?: (ctx: Context, result: BotDetectionResult) => void | Promise<void>;
+  stateKey?: string;
 
   /**
-   * Callback function called for all requests
-   * Useful for analytics
+   * Callback function called when a request is throttled
    */
-  onDetection?: (ctx: Context, result: BotDetectionResult) => void | Promise<void>;
+  onThrottled?: (
+    ctx: Context,
+    result: BotDetectionResult,
+    retryAfterMs: number
+  ) => void | Promise<void>;
 
   /**
-   * Custom user agent extraction function
-   * By default, uses ctx.request.headers['user-agent']
+   * Called when robots.txt cannot be loaded; the load is retried on the next request
+   * @default error => process.emitWarning(`robots.txt not loaded: ${error.message}`, 'RobotsTxtWarning')
    */
-  getUserAgent?: (ctx: Context) => string | undefined;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Crawl volume of one path prefix
+ */
+export interface CrawlPathCounter {
+  /**
+   * Requests served
+   */
+  requests: number;
+
+  /**
+   * Requests throttled
+   */
+  throttled: number;
+}
+
+/**
+ * Crawl volume of one bot
+ */
+export interface CrawlBotCounter extends CrawlPathCounter {
+  /**
+   * Volume per path prefix
+   */
+  paths: Record<string, CrawlPathCounter>;
 }
 
+/**
+ * Crawl volume per bot (`knownBot`, then `botName`)
+ */
+export type CrawlBudgetCounters = Record<string, CrawlBotCounter>;
+
+/**
+ * Type for the crawl budget middleware function
+ */
+export type KoaCrawlBudgetMiddleware = Middleware<KoaContextWithBot> & {
+  /**
+   * Get crawl volume per bot and path prefix since creation (or the last reset)
+   */
+  getCounters(): CrawlBudgetCounters;
+
+  /**
+   * Reset all crawl counters
+   */
+  resetCounters(): void;
+};
+
 /**
  * Extended Koa context with bot detection result
  */
@@ -104,12 +1614,176 @@ export interface KoaContextWithBot extends Context {
 /**
  * Type for the middleware function
  */
-export type KoaIsBotMiddleware = Middleware<KoaContextWithBot>;
+export type KoaIsBotMiddleware = Middleware<KoaContextWithBot> & {
+  /**
+   * Get counters of the detection and verification caches
+   */
+  getStats(): KoaIsBotStats;
+
+  /**
+   * Stop the cache cleanup timer and pattern file watch, and clear the caches this middleware created
+   * Shared stores passed as `cacheStore` are left untouched
+   */
+  dispose(): void;
+
+  /**
+   * Atomically rebuild the detector with patterns added or removed, and drop the cached
+   * detections it changes; rejects with a TypeError, keeping the current patterns,
+   * if the new configuration is invalid
+   */
+  updatePatterns(update: BotPatternUpdate): Promise<void>;
+
+  /**
+   * Atomically rebuild the detector from the configured options and the current
+   * pattern file, discarding `updatePatterns()` changes
+   */
+  reload(): Promise<void>;
+};
+
+/**
+ * Cache counters reported by `getStats()`
+ */
+export interface CacheStats {
+  /**
+   * Lookups answered from the cache
+   */
+  hits: number;
+
+  /**
+   * Lookups of missing or expired entries
+   */
+  misses: number;
+
+  /**
+   * Entries removed to make room for new ones
+   */
+  evictions: number;
+
+  /**
+   * Entries removed because their TTL passed, on lookup or during cleanup
+   */
+  expirations: number;
+
+  /**
+   * New entries not stored: larger than the byte budget, or refused by the admission policy
+   */
+  rejections: number;
+
+  /**
+   * Completed cleanup passes
+   */
+  cleanupRuns: number;
+
+  /**
+   * Current number of entries
+   */
+  size: number;
+
+  /**
+   * Estimated memory held by the entries, in bytes
+   */
+  bytes: number;
+
+  /**
+   * hits / (hits + misses), or 0 before the first lookup
+   */
+  hitRate: number;
+}
+
+/**
+ * Cache counters of a `koaIsBot` middleware
+ * A cache is null when disabled, or when its store does not report stats
+ */
+export interface KoaIsBotStats {
+  /**
+   * Detection result cache, keyed by user agent
+   */
+  detection: CacheStats | null;
+
+  /**
+   * Verification outcome cache, keyed by client IP and claimed bot
+   */
+  verification: CacheStats | null;
+}
 
 /**
  * Cache entry with TTL
  */
-export interface CacheEntry {
-  result: BotDetectionResult;
+export interface CacheEntry<T = BotDetectionResult> {
+  result: T;
   timestamp: number;
+
+  /**
+   * Entry-specific TTL in milliseconds (the cache TTL when absent)
+   */
+  ttl?: number;
+
+  /**
+   * Estimated size of the entry in bytes, key included
+   */
+  bytes?: number;
+}
+
+/**
+ * Admission policy of `BotDetectionCache` when storing a new key requires an eviction
+ * - `lru`: always store, evicting the least recently used entries
+ * - `tinylfu`: store only if the key was looked up more often than the entry it displaces
+ */
+export type CacheAdmissionPolicy = 'lru' | 'tinylfu';
+
+/**
+ * Memory bounds of `BotDetectionCache`, on top of its entry count
+ */
+export interface BotDetectionCacheOptions {
+  /**
+   * Budget for the estimated size of all entries, in bytes
+   * Strings count two bytes per character, so long user agents use more of the budget
+   * @default Infinity (bounded by entry count only)
+   */
+  maxBytes?: number;
+
+  /**
+   * Admission policy for new keys once the cache is full
+   * @default 'lru'
+   */
+  admission?: CacheAdmissionPolicy;
+}
+
+/**
+ * Key-value store caching detection results and verification outcomes
+ * Methods may return promises, so stores can be backed by shared caches (e.g. Redis)
+ * Values must survive serialization when the store is shared
+ */
+export interface BotCacheStore<T = unknown> {
+  /**
+   * Get a value, or null when missing or expired
+   */
+  get(key: string): T | null | Promise<T | null>;
+
+  /**
+   * Store a value
+   * @param ttl - Time to live in milliseconds (the store default when omitted)
+   */
+  set(key: string, value: T, ttl?: number): void | Promise<void>;
+
+  /**
+   * Remaining time to live of a value in milliseconds, or null when missing or unknown (optional)
+   * `TieredCacheStore` reads it from its shared tier, so local copies expire with the shared entry
+   */
+  getTTL?(key: string): number | null | Promise<number | null>;
+
+  /**
+   * Remove a value
+   */
+  delete(key: string): void | Promise<void>;
+
+  /**
+   * Remove all values
+   */
+  clear(): void | Promise<void>;
+
+  /**
+   * Report cache counters (optional), exposed through the middleware's `getStats()`
+   */
+  getStats?(): CacheStats;
 }
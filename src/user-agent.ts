@@ -0,0 +1,60 @@
+/**
+ * Platform tokens of mainstream browsers, as sent by current releases
+ */
+const WINDOWS = String.raw`Windows NT \d+\.\d+; Win64; x64`;
+const MAC = String.raw`Macintosh; Intel Mac OS X \d+(?:[_.]\d+){1,2}`;
+const LINUX = String.raw`X11; Linux x86_64`;
+const ANDROID = String.raw`Linux; Android \d+(?:\.\d+){0,2}; K`;
+const IPHONE = String.raw`iPhone; CPU iPhone OS \d+(?:_\d+){1,2} like Mac OS X`;
+const IPAD = String.raw`iPad; CPU OS \d+(?:_\d+){1,2} like Mac OS X`;
+
+const VERSION = String.raw`\d+(?:\.\d+){0,3}`;
+
+/**
+ * Browser families whose user agents may share a cache key
+ *
+ * Templates are anchored and fixed except for version numbers (and Safari's
+ * digit-letter-digit build ID), so two user agents with the same canonical form
+ * differ only in those fields. No bundled bot pattern depends on them, which
+ * test/user-agent.test.ts checks against a corpus of versions and platforms.
+ */
+const BROWSER_FAMILIES: readonly RegExp[] = [
+  // Chrome, Edge and Opera (reduced user agent)
+  new RegExp(
+    String.raw`^Mozilla/5\.0 \((?:${WINDOWS}|${MAC}|${LINUX}|${ANDROID})\) AppleWebKit/537\.36 \(KHTML, like Gecko\) Chrome/${VERSION} (?:Mobile )?Safari/537\.36(?: Edg/${VERSION}| OPR/${VERSION})?$`
+  ),
+  // Firefox
+  new RegExp(
+    String.raw`^Mozilla/5\.0 \((?:${WINDOWS}|${MAC}|${LINUX}|X11; Ubuntu; Linux x86_64|Android \d+(?:\.\d+)?; Mobile); rv:${VERSION}\) Gecko/(?:20100101|${VERSION}) Firefox/${VERSION}$`
+  ),
+  // Safari
+  new RegExp(
+    String.raw`^Mozilla/5\.0 \((?:${MAC}|${IPHONE}|${IPAD})\) AppleWebKit/${VERSION} \(KHTML, like Gecko\) Version/${VERSION} (?:Mobile/\d+[A-Z]\d+[a-z]? )?Safari/${VERSION}$`
+  ),
+];
+
+/**
+ * Canonicalize a mainstream browser user agent for use as a cache key
+ *
+ * Version numbers and build IDs are collapsed, so the thousands of near-identical
+ * Chrome, Edge, Opera, Firefox and Safari user agents share one key per browser,
+ * platform and device type. User agents outside these strict templates, including
+ * any with bot tokens, are not normalized.
+ *
+ * @param userAgent - User agent string
+ * @returns Canonical form, or null when the user agent must be keyed as-is
+ *
+ * @example
+ * ```typescript
+ * normalizeUserAgent('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+ * // 'Mozilla/0.0 (X0; Linux x0_0) AppleWebKit/0.0 (KHTML, like Gecko) Chrome/0.0.0.0 Safari/0.0'
+ * normalizeUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)');
+ * // null
+ * ```
+ */
+export function normalizeUserAgent(userAgent: string): string | null {
+  if (!BROWSER_FAMILIES.some((family) => family.test(userAgent))) {
+    return null;
+  }
+  return userAgent.replace(/Mobile\/\d+[A-Z]\d+[a-z]?/, 'Mobile/0').replace(/\d+/g, '0');
+}
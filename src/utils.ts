@@ -0,0 +1,9 @@
+/**
+ * Wrap a single value in an array
+ */
+export const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
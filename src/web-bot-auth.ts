@@ -0,0 +1,412 @@
+import { createHash, createPublicKey, verify as verifySignature } from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { Context } from 'koa';
+import { parseString, unescapeString } from './structured-fields.js';
+import type {
+  JsonWebKeySet,
+  JwksSource,
+  SignatureInput,
+  SignatureKey,
+  SignatureKeyBinding,
+  SignatureKeyDirectory,
+  SignedAgent,
+  WebBotAuthVerifier,
+  WebBotAuthVerifierOptions,
+} from './types.js';
+
+/**
+ * Signature algorithms (RFC 9421 section 3.3) and the JWK curves they verify with
+ */
+const ALGORITHMS: Record<string, { crv: string; hash: string | null }> = {
+  ed25519: { crv: 'Ed25519', hash: null },
+  'ecdsa-p256-sha256': { crv: 'P-256', hash: 'sha256' },
+  'ecdsa-p384-sha384': { crv: 'P-384', hash: 'sha384' },
+};
+
+/**
+ * Structured field key (RFC 8941 section 3.1.2)
+ */
+const KEY = '[a-z*][a-z0-9_\\-.*]*';
+
+/**
+ * Split a structured field dictionary into its members
+ * Commas inside strings and inner lists do not separate members
+ */
+const splitMembers = (header: string): string[] => {
+  const members: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < header.length; i++) {
+    const char = header[i];
+    if (quoted) {
+      if (char === '\\') i++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      members.push(header.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  members.push(header.slice(start).trim());
+
+  return members.filter(Boolean);
+};
+
+/**
+ * Parse the parameters of a structured field item (`;created=1;keyid="abc"`)
+ */
+const parseParams = (params: string): Record<string, string | number | boolean> => {
+  const parsed: Record<string, string | number | boolean> = {};
+  for (const [, key, value] of params.matchAll(
+    new RegExp(`;\\s*(${KEY})(?:=("(?:[^"\\\\]|\\\\.)*"|[^;]*))?`, 'g')
+  )) {
+    const raw = value?.trim();
+    parsed[key!] =
+      raw === undefined || raw === '?1'
+        ? true
+        : raw === '?0'
+          ? false
+          : /^-?\d+$/.test(raw)
+            ? Number(raw)
+            : (parseString(raw) ?? raw);
+  }
+  return parsed;
+};
+
+/**
+ * Parse a Signature-Input header into its signatures
+ *
+ * @param header - Signature-Input header value
+ * @returns Signatures in header order; malformed members are left out
+ *
+ * @example
+ * ```typescript
+ * parseSignatureInput('sig1=("@authority");created=1735689600;keyid="abc"');
+ * // [{ label: 'sig1', components: ['@authority'], params: { created: 1735689600, keyid: 'abc' }, ... }]
+ * ```
+ */
+export function parseSignatureInput(header: string): SignatureInput[] {
+  const inputs: SignatureInput[] = [];
+
+  for (const member of splitMembers(header)) {
+    const match = new RegExp(`^(${KEY})=(\\(([^)]*)\\)(.*))$`).exec(member);
+    if (!match) continue;
+
+    const [, label, raw, components, params] = match;
+    inputs.push({
+      label: label!,
+      // Component identifiers keep their parameters (e.g. `"@query-param";name="q"`)
+      components: [...components!.matchAll(/"((?:[^"\\]|\\.)*)"((?:;[^\s;]+)*)/g)].map(
+        ([, name, componentParams]) => unescapeString(name!) + componentParams!
+      ),
+      params: parseParams(params!),
+      raw: raw!.trim(),
+    });
+  }
+
+  return inputs;
+}
+
+/**
+ * Parse a Signature header into signature bytes by label
+ */
+const parseSignatures = (header: string): Map<string, Buffer> => {
+  const signatures = new Map<string, Buffer>();
+  for (const [, label, value] of header.matchAll(
+    new RegExp(`(?:^|,)\\s*(${KEY})=:([A-Za-z0-9+/=]*):`, 'g')
+  )) {
+    signatures.set(label!, Buffer.from(value!, 'base64'));
+  }
+  return signatures;
+};
+
+/**
+ * Read the key directory URL for a signature from the Signature-Agent header
+ * Accepts both a bare string (`"https://agent.example"`) and a dictionary keyed by signature label
+ */
+const parseSignatureAgent = (header: string, label: string): string | null => {
+  if (!header) {
+    return null;
+  }
+
+  const agent = parseString(header);
+  if (agent !== null) {
+    return agent;
+  }
+
+  for (const member of splitMembers(header)) {
+    const match = new RegExp(`^(${KEY})=(.*)$`).exec(member);
+    if (match?.[1] === label) {
+      return parseString(match[2]!);
+    }
+  }
+
+  return header.trim();
+};
+
+/**
+ * Value of a derived component (RFC 9421 section 2.2) or header field for the signature base
+ */
+const componentValue = (ctx: Context, component: string): string => {
+  const protocol = ctx.protocol;
+  const authority = ctx.host.toLowerCase().replace(protocol === 'https' ? /:443$/ : /:80$/, '');
+  const queryIndex = ctx.originalUrl.indexOf('?');
+  const path = queryIndex === -1 ? ctx.originalUrl : ctx.originalUrl.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : ctx.originalUrl.slice(queryIndex + 1);
+
+  switch (component) {
+    case '@method':
+      return ctx.method;
+    case '@authority':
+      return authority;
+    case '@scheme':
+      return protocol;
+    case '@target-uri':
+      return `${protocol}://${authority}${ctx.originalUrl}`;
+    case '@request-target':
+      return ctx.originalUrl;
+    case '@path':
+      return path || '/';
+    case '@query':
+      return `?${query}`;
+  }
+
+  if (component.startsWith('@') || component.includes(';')) {
+    throw new Error(`Unsupported component ${component}`);
+  }
+
+  const value = ctx.get(component);
+  if (!value) {
+    throw new Error(`Missing covered header ${component}`);
+  }
+  return value.trim();
+};
+
+/**
+ * Build the signature base a signer signed (RFC 9421 section 2.5)
+ *
+ * @param ctx - Koa context of the request
+ * @param input - Parsed Signature-Input member
+ * @returns The signature base
+ * @throws Error when a covered component is missing or unsupported
+ */
+export function createSignatureBase(ctx: Context, input: SignatureInput): string {
+  const lines = input.components.map(
+    (component) => `${JSON.stringify(component)}: ${componentValue(ctx, component)}`
+  );
+  lines.push(`"@signature-params": ${input.raw}`);
+  return lines.join('\n');
+}
+
+/**
+ * Compute the JWK SHA-256 thumbprint (RFC 7638), used by Web Bot Auth as the `keyid`
+ *
+ * @param jwk - Public key
+ * @returns Base64url-encoded thumbprint
+ * @throws TypeError for key types without thumbprint members
+ */
+export function jwkThumbprint(jwk: JsonWebKey): string {
+  // Required members in lexicographic order
+  const members =
+    jwk.kty === 'OKP'
+      ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+      : jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : jwk.kty === 'RSA'
+          ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+          : null;
+
+  if (!members) {
+    throw new TypeError(`Unsupported key type: ${String(jwk.kty)}`);
+  }
+
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+/**
+ * Load a key set and index its keys by `kid` and thumbprint
+ * Keys without their own binding take the directory's
+ */
+const loadKeys = async (
+  source: JwksSource,
+  binding: SignatureKeyBinding
+): Promise<Map<string, SignatureKey>> => {
+  const keySet =
+    typeof source === 'function'
+      ? await source()
+      : (JSON.parse(await readFile(source, 'utf8')) as JsonWebKeySet);
+
+  if (!keySet || !Array.isArray(keySet.keys)) {
+    throw new TypeError('Invalid JWKS: expected a "keys" array');
+  }
+
+  const keys = new Map<string, SignatureKey>();
+  for (const key of keySet.keys) {
+    const jwk = key.bot || key.operator ? key : { ...key, ...binding };
+    if (typeof jwk.kid === 'string') {
+      keys.set(jwk.kid, jwk);
+    }
+    if (jwk.kty === 'OKP' || jwk.kty === 'EC') {
+      keys.set(jwkThumbprint(jwk), jwk);
+    }
+  }
+  return keys;
+};
+
+/**
+ * Creates a key directory backed by a JSON Web Key Set
+ *
+ * Keys are found by their `kid` or by their JWK thumbprint, which Web Bot Auth
+ * signers use as `keyid`. Each key is bound to the bot or operator it signs
+ * for, by its own `bot` and `operator` members or else by `binding`; signatures
+ * of unbound keys verify nobody. The key set is loaded lazily on the first
+ * lookup; a failed load is retried on the next one.
+ *
+ * @param source - Path to a JWKS file, or a loader returning the key set
+ * @param binding - Bot or operator of keys without their own
+ * @returns Key directory for `createWebBotAuthVerifier`
+ *
+ * @example
+ * ```typescript
+ * const keys = createJwksKeyDirectory('./keys/openai.json', { operator: 'openai' });
+ * ```
+ */
+export function createJwksKeyDirectory(
+  source: JwksSource,
+  binding: SignatureKeyBinding = {}
+): SignatureKeyDirectory {
+  let keys: Promise<Map<string, SignatureKey>> | null = null;
+
+  return {
+    async getKey(keyId: string): Promise<SignatureKey | null> {
+      keys ??= loadKeys(source, binding).catch((error: unknown) => {
+        keys = null;
+        throw error;
+      });
+      return (await keys).get(keyId) ?? null;
+    },
+  };
+}
+
+/**
+ * Creates a verifier for HTTP Message Signatures (RFC 9421) sent by signed agents
+ *
+ * The verifier checks the signature labelled `tag="web-bot-auth"` (or the first
+ * one): it must cover the required components and Signature-Agent, carry
+ * `created` and `expires` timestamps valid now, and verify with the Ed25519 or
+ * ECDSA key its `keyid` resolves to. Valid signatures report the bot and
+ * operator the key is bound to; `koaIsBot` only counts them as verification of
+ * a matching claimed identity.
+ *
+ * @param options - Key directory and validation settings
+ * @returns Verifier for the `signatureVerifier` option of `koaIsBot`
+ * @throws TypeError if clockSkew is negative
+ *
+ * @example
+ * ```typescript
+ * const signatureVerifier = createWebBotAuthVerifier({
+ *   keys: createJwksKeyDirectory('./keys/openai.json', { operator: 'openai' }),
+ * });
+ *
+ * app.use(koaIsBot({ signatureVerifier }));
+ * ```
+ */
+export function createWebBotAuthVerifier(options: WebBotAuthVerifierOptions): WebBotAuthVerifier {
+  const requiredComponents = options.requiredComponents ?? ['@authority'];
+  const clockSkew = options.clockSkew ?? 60;
+
+  if (!Number.isFinite(clockSkew) || clockSkew < 0) {
+    throw new TypeError('clockSkew must be a non-negative number of seconds');
+  }
+
+  const verify = async (ctx: Context): Promise<SignedAgent | null> => {
+    const signatureInput = ctx.get('Signature-Input');
+    const signatureHeader = ctx.get('Signature');
+    if (!signatureInput && !signatureHeader) {
+      return null;
+    }
+
+    const inputs = parseSignatureInput(signatureInput);
+    const input = inputs.find(({ params }) => params.tag === 'web-bot-auth') ?? inputs[0];
+    const keyId = typeof input?.params.keyid === 'string' ? input.params.keyid : '';
+    const agentHeader = ctx.get('Signature-Agent');
+    const agent = input ? parseSignatureAgent(agentHeader, input.label) : null;
+
+    const fail = (reason: string): SignedAgent => ({ keyId, agent, valid: false, reason });
+
+    if (!input) return fail('Malformed Signature-Input');
+    if (!keyId) return fail('Missing keyid');
+
+    const signature = parseSignatures(signatureHeader).get(input.label);
+    if (!signature) return fail(`Missing signature ${input.label}`);
+
+    const { created, expires } = input.params;
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof created !== 'number') return fail('Missing created');
+    if (typeof expires !== 'number') return fail('Missing expires');
+    if (created > now + clockSkew) return fail('Signature created in the future');
+    if (expires < now - clockSkew) return fail('Signature expired');
+
+    for (const component of agentHeader
+      ? [...requiredComponents, 'signature-agent']
+      : requiredComponents) {
+      if (!input.components.includes(component)) {
+        return fail(`Signature does not cover ${component}`);
+      }
+    }
+
+    let base: string;
+    try {
+      base = createSignatureBase(ctx, input);
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+
+    let jwk: SignatureKey | null;
+    try {
+      jwk = await options.keys.getKey(keyId, agent);
+    } catch (error) {
+      return fail(`Key lookup failed: ${(error as Error).message}`);
+    }
+    if (!jwk) return fail('Unknown key');
+
+    const alg =
+      typeof input.params.alg === 'string'
+        ? input.params.alg
+        : Object.keys(ALGORITHMS).find((name) => ALGORITHMS[name]!.crv === jwk.crv);
+    const algorithm = alg ? ALGORITHMS[alg] : undefined;
+    if (!algorithm) return fail(`Unsupported algorithm ${alg ?? 'for key'}`);
+    if (algorithm.crv !== jwk.crv) return fail(`Algorithm ${alg} does not match the key`);
+
+    let valid: boolean;
+    try {
+      valid = verifySignature(
+        algorithm.hash,
+        Buffer.from(base),
+        { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+        signature
+      );
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) return fail('Signature mismatch');
+    return {
+      keyId,
+      agent,
+      valid,
+      ...(jwk.bot && { bot: jwk.bot }),
+      ...(jwk.operator && { operator: jwk.operator }),
+    };
+  };
+
+  return { verify };
+}
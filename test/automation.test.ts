@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { detectAutomation } from '../src/automation.js';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const HEADLESS_UA =
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Headers a real Chrome on Windows sends
+ */
+const BROWSER_HEADERS = {
+  'User-Agent': CHROME_UA,
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Sec-CH-UA': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+  'Sec-CH-UA-Mobile': '?0',
+  'Sec-CH-UA-Platform': '"Windows"',
+};
+
+describe('detectAutomation', () => {
+  const createAutomationApp = () => {
+    const app = new Koa();
+    app.use((ctx) => {
+      ctx.body = { automation: detectAutomation(ctx, ctx.get('User-Agent')) };
+    });
+    return app;
+  };
+
+  it('should not flag a regular browser', async () => {
+    const response = await request(createAutomationApp().callback()).get('/').set(BROWSER_HEADERS);
+
+    expect(response.body.automation).toBeNull();
+  });
+
+  it('should not flag a browser missing a single header', async () => {
+    const response = await request(createAutomationApp().callback())
+      .get('/')
+      .set({ ...BROWSER_HEADERS, 'Accept-Language': '' });
+
+    expect(response.body.automation).toBeNull();
+  });
+
+  it('should detect Puppeteer from HeadlessChrome without a locale', async () => {
+    const response = await request(createAutomationApp().callback())
+      .get('/')
+      .set({ 'User-Agent': HEADLESS_UA, Accept: '*/*' });
+
+    expect(response.body.automation).toBe('puppeteer');
+  });
+
+  it("should detect Playwright from its default 'en-US' locale", async () => {
+    const response = await request(createAutomationApp().callback())
+      .get('/')
+      .set({ 'User-Agent': HEADLESS_UA, 'Accept-Language': 'en-US' });
+
+    expect(response.body.automation).toBe('playwright');
+  });
+
+  it('should detect the HeadlessChrome brand behind a spoofed user agent', async () => {
+    const response = await request(createAutomationApp().callback())
+      .get('/')
+      .set({
+        ...BROWSER_HEADERS,
+        'Sec-CH-UA': '"HeadlessChrome";v="120", "Chromium";v="120", "Not_A Brand";v="24"',
+      });
+
+    expect(response.body.automation).toBe('unknown-headless');
+  });
+
+  it('should detect spoofed user agents from combined weak tells', async () => {
+    // Windows Chrome user agent set on a Linux headless browser, no locale
+    const response = await request(createAutomationApp().callback())
+      .get('/')
+      .set({ ...BROWSER_HEADERS, 'Accept-Language': '', 'Sec-CH-UA-Platform': '"Linux"' });
+
+    expect(response.body.automation).toBe('puppeteer');
+  });
+
+  it('should detect frameworks announcing themselves in the user agent', async () => {
+    const app = createAutomationApp();
+
+    const playwright = await request(app.callback())
+      .get('/')
+      .set('User-Agent', 'Playwright/1.48.0 (x64; ubuntu 22.04) node/20.11');
+    const selenium = await request(app.callback())
+      .get('/')
+      .set('User-Agent', `${CHROME_UA} Selenium/4.15`);
+
+    expect(playwright.body.automation).toBe('playwright');
+    expect(selenium.body.automation).toBe('selenium');
+  });
+});
+
+describe('koaIsBot automation', () => {
+  const createTestApp = () => {
+    const app = new Koa();
+    app.use(koaIsBot());
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should report automation and its signal in the result', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({
+        ...BROWSER_HEADERS,
+        'Sec-CH-UA': '"HeadlessChrome";v="120", "Chromium";v="120"',
+      });
+
+    expect(response.body.automation).toBe('unknown-headless');
+    expect(response.body.signals).toContainEqual({
+      name: 'automation',
+      weight: 0.9,
+      detail: 'unknown-headless',
+    });
+  });
+
+  it('should report null for regular browsers', async () => {
+    const response = await request(createTestApp().callback()).get('/').set(BROWSER_HEADERS);
+
+    expect(response.body.automation).toBeNull();
+  });
+
+  it('should detect automation per request for a cached user agent', async () => {
+    const app = createTestApp();
+
+    await request(app.callback()).get('/').set(BROWSER_HEADERS);
+    const response = await request(app.callback())
+      .get('/')
+      .set({ ...BROWSER_HEADERS, 'Accept-Language': 'en-US', 'Sec-CH-UA-Platform': '"Linux"' });
+
+    expect(response.body.automation).toBe('playwright');
+  });
+});
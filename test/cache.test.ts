@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { BotDetectionCache } from '../src/cache.js';
-import type { BotDetectionResult } from '../src/types.js';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { BotDetectionCache, MemoryRemoteCacheStore, TieredCacheStore } from '../src/cache.js';
+import type { BotDetectionResult, KoaIsBotOptions } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
 
 describe('BotDetectionCache', () => {
   let cache: BotDetectionCache;
@@ -14,6 +19,14 @@ describe('BotDetectionCache', () => {
     botName,
     botPatterns: botName ? [botName] : [],
     userAgent: 'test',
+    category: isBot ? 'other' : null,
+    subcategory: null,
+    knownBot: null,
+    operator: null,
+    score: isBot ? 0.95 : 0,
+    signals: [],
+    automation: null,
+    clientHints: null,
   });
 
   describe('basic operations', () => {
@@ -165,6 +178,20 @@ describe('BotDetectionCache', () => {
     });
   });
 
+  describe('prune', () => {
+    it('should remove the entries matching a predicate', () => {
+      cache.set('ua1', createResult(true, 'googlebot'));
+      cache.set('ua2', createResult(false, null));
+      cache.set('ua3', createResult(true, 'slackbot'));
+
+      expect(cache.prune((key, result) => key !== 'ua1' && result.isBot)).toBe(1);
+
+      expect(cache.size).toBe(2);
+      expect(cache.get('ua3')).toBeNull();
+      expect(cache.getStats().bytes).toBeGreaterThan(0);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle cache size of 1', () => {
       const smallCache = new BotDetectionCache(1, 1000);
@@ -192,4 +219,480 @@ describe('BotDetectionCache', () => {
       vi.useRealTimers();
     });
   });
+
+  describe('stats', () => {
+    it('should count hits, misses and the hit rate', () => {
+      cache.set('ua1', createResult(true, 'googlebot'));
+
+      cache.get('ua1');
+      cache.get('ua1');
+      cache.get('ua2');
+
+      expect(cache.getStats()).toEqual({
+        hits: 2,
+        misses: 1,
+        evictions: 0,
+        expirations: 0,
+        rejections: 0,
+        cleanupRuns: 0,
+        size: 1,
+        bytes: expect.any(Number) as number,
+        hitRate: 2 / 3,
+      });
+    });
+
+    it('should report a zero hit rate before any lookup', () => {
+      expect(cache.getStats().hitRate).toBe(0);
+    });
+
+    it('should count evictions', () => {
+      for (const ua of ['ua1', 'ua2', 'ua3', 'ua4', 'ua5']) {
+        cache.set(ua, createResult(true, 'googlebot'));
+      }
+
+      expect(cache.getStats().evictions).toBe(2);
+    });
+
+    it('should count expirations on lookup and during cleanup', () => {
+      vi.useFakeTimers();
+
+      cache.set('ua1', createResult(true, 'googlebot'));
+      cache.set('ua2', createResult(true, 'bingbot'));
+      vi.advanceTimersByTime(1001);
+
+      cache.get('ua1');
+      cache.cleanup();
+
+      expect(cache.getStats()).toMatchObject({
+        expirations: 2,
+        misses: 1,
+        cleanupRuns: 1,
+        size: 0,
+      });
+
+      vi.useRealTimers();
+    });
+
+    it('should reset counters but keep entries', () => {
+      cache.set('ua1', createResult(true, 'googlebot'));
+      cache.get('ua1');
+
+      cache.resetStats();
+
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, size: 1 });
+    });
+  });
+
+  describe('store interface', () => {
+    it('should expire entries with their own TTL', () => {
+      vi.useFakeTimers();
+
+      cache.set('short', createResult(true, 'googlebot'), 100);
+      cache.set('default', createResult(true, 'bingbot'));
+      vi.advanceTimersByTime(500);
+
+      expect(cache.get('short')).toBeNull();
+      expect(cache.get('default')).not.toBeNull();
+
+      vi.useRealTimers();
+    });
+
+    it('should delete entries', () => {
+      cache.set('ua1', createResult(true, 'googlebot'));
+
+      cache.delete('ua1');
+
+      expect(cache.get('ua1')).toBeNull();
+      expect(cache.size).toBe(0);
+    });
+
+    it('should not evict other entries when replacing one', () => {
+      cache.set('ua1', createResult(true, 'googlebot'));
+      cache.set('ua2', createResult(true, 'bingbot'));
+      cache.set('ua3', createResult(true, 'slackbot'));
+
+      cache.set('ua3', createResult(true, 'twitterbot'));
+
+      expect(cache.size).toBe(3);
+      expect(cache.get('ua1')).not.toBeNull();
+      expect(cache.get('ua3')?.botName).toBe('twitterbot');
+    });
+  });
+
+  describe('memory bounds', () => {
+    const LONG_UA = 'x'.repeat(2048);
+
+    const createLongResult = (userAgent: string): BotDetectionResult => ({
+      ...createResult(true, 'bot'),
+      userAgent,
+      botPatterns: ['bot', 'crawler'],
+    });
+
+    it('should estimate entry sizes from their strings', () => {
+      cache.set('short', createLongResult('short'));
+      const short = cache.getStats().bytes;
+      cache.clear();
+      cache.set(LONG_UA, createLongResult(LONG_UA));
+
+      expect(short).toBeGreaterThan(0);
+      expect(cache.getStats().bytes).toBeGreaterThan(short + 2 * 2048);
+    });
+
+    it('should evict until the byte budget is met', () => {
+      const bounded = new BotDetectionCache(100, 1000, { maxBytes: 20000 });
+
+      for (let i = 0; i < 20; i++) {
+        const userAgent = `${i}${LONG_UA}`.slice(0, 2048);
+        bounded.set(userAgent, createLongResult(userAgent));
+      }
+
+      expect(bounded.size).toBe(2);
+      expect(bounded.getStats().bytes).toBeLessThanOrEqual(20000);
+      expect(bounded.getStats().evictions).toBe(18);
+
+      bounded.clear();
+      for (let i = 0; i < 20; i++) {
+        bounded.set(`ua${i}`, createResult(true, 'googlebot'));
+      }
+      expect(bounded.size).toBe(20);
+    });
+
+    it('should not store entries larger than the budget', () => {
+      const bounded = new BotDetectionCache(100, 1000, { maxBytes: 1000 });
+      bounded.set('ua1', createResult(true, 'googlebot'));
+
+      bounded.set(LONG_UA, createLongResult(LONG_UA));
+
+      expect(bounded.get(LONG_UA)).toBeNull();
+      expect(bounded.get('ua1')).not.toBeNull();
+      expect(bounded.getStats().rejections).toBe(1);
+    });
+
+    it('should release bytes on delete, expiry and clear', () => {
+      vi.useFakeTimers();
+
+      cache.set('ua1', createResult(true, 'googlebot'));
+      cache.set('ua2', createResult(true, 'bingbot'));
+      cache.set('ua3', createResult(true, 'slackbot'), 5000);
+      const bytes = cache.getStats().bytes;
+
+      cache.delete('ua1');
+      expect(cache.getStats().bytes).toBeLessThan(bytes);
+
+      vi.advanceTimersByTime(1001);
+      cache.cleanup();
+      expect(cache.size).toBe(1);
+
+      cache.clear();
+      expect(cache.getStats().bytes).toBe(0);
+
+      vi.useRealTimers();
+    });
+
+    it('should keep frequent entries when admitting with tinylfu', () => {
+      const lfu = new BotDetectionCache(3, 1000, { admission: 'tinylfu' });
+      for (const ua of ['googlebot', 'chrome', 'bingbot']) {
+        for (let i = 0; i < 5; i++) lfu.get(ua);
+        lfu.set(ua, createResult(true, ua));
+      }
+
+      // Hot user agents keep being looked up while each one-off is missed and stored once
+      for (let i = 0; i < 100; i++) {
+        lfu.get(i % 2 === 0 ? 'googlebot' : 'chrome');
+        const userAgent = `random-${i}`;
+        if (lfu.get(userAgent) === null) {
+          lfu.set(userAgent, createResult(false, null));
+        }
+      }
+
+      expect(lfu.getStats()).toMatchObject({ size: 3, evictions: 0, rejections: 100 });
+      expect(lfu.get('googlebot')).not.toBeNull();
+      expect(lfu.get('chrome')).not.toBeNull();
+    });
+
+    it('should admit a new key once it is more frequent than the victim', () => {
+      const lfu = new BotDetectionCache(2, 1000, { admission: 'tinylfu' });
+      lfu.set('ua1', createResult(true, 'googlebot'));
+      lfu.set('ua2', createResult(true, 'bingbot'));
+
+      for (let i = 0; i < 3; i++) lfu.get('ua3');
+      lfu.set('ua3', createResult(true, 'slackbot'));
+
+      expect(lfu.get('ua3')?.botName).toBe('slackbot');
+      expect(lfu.getStats()).toMatchObject({ size: 2, evictions: 1, rejections: 0 });
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => new BotDetectionCache(10, 1000, { maxBytes: 0 })).toThrow(TypeError);
+      expect(() => new BotDetectionCache(10, 1000, { maxBytes: NaN })).toThrow(TypeError);
+      expect(
+        () => new BotDetectionCache(10, 1000, { admission: 'lfu' as unknown as 'lru' })
+      ).toThrow(/lfu/);
+    });
+  });
+});
+
+describe('MemoryRemoteCacheStore', () => {
+  it('should return serialized copies', async () => {
+    const store = new MemoryRemoteCacheStore<{ name: string }>();
+    const value = { name: 'Googlebot' };
+
+    await store.set('key', value);
+    value.name = 'changed';
+
+    expect(await store.get('key')).toEqual({ name: 'Googlebot' });
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should expire entries with the default or given TTL', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRemoteCacheStore<string>(1000);
+
+    await store.set('default', 'a');
+    await store.set('short', 'b', 100);
+    vi.advanceTimersByTime(500);
+
+    expect(await store.get('short')).toBeNull();
+    expect(await store.get('default')).toBe('a');
+    expect(store.size).toBe(1);
+
+    vi.useRealTimers();
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = new MemoryRemoteCacheStore<string>();
+    await store.set('a', '1');
+    await store.set('b', '2');
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeNull();
+
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('TieredCacheStore', () => {
+  it('should serve local hits without reading the shared store', async () => {
+    const shared = new MemoryRemoteCacheStore<string>();
+    const get = vi.spyOn(shared, 'get');
+    const store = new TieredCacheStore(shared);
+
+    await store.set('key', 'value');
+
+    expect(await store.get('key')).toBe('value');
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should fill the local tier from the shared store', async () => {
+    const shared = new MemoryRemoteCacheStore<string>();
+    const local = new BotDetectionCache<string>();
+    const store = new TieredCacheStore(shared, local);
+
+    await shared.set('key', 'value');
+
+    expect(local.get('key')).toBeNull();
+    expect(await store.get('key')).toBe('value');
+    expect(local.get('key')).toBe('value');
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should expire local copies with the shared entry', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const shared = new MemoryRemoteCacheStore<string>();
+      const store = new TieredCacheStore(shared);
+
+      await shared.set('key', 'value', 10);
+      expect(await store.get('key')).toBe('value');
+
+      vi.advanceTimersByTime(20);
+
+      expect(await shared.getTTL('key')).toBeNull();
+      expect(await store.get('key')).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should delete and clear both tiers', async () => {
+    const shared = new MemoryRemoteCacheStore<string>();
+    const local = new BotDetectionCache<string>();
+    const store = new TieredCacheStore(shared, local);
+
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.delete('a');
+
+    expect(local.get('a')).toBeNull();
+    expect(await shared.get('a')).toBeNull();
+
+    await store.clear();
+
+    expect(local.size).toBe(0);
+    expect(shared.size).toBe(0);
+  });
+});
+
+describe('koaIsBot cacheStore', () => {
+  const createTestApp = (options: KoaIsBotOptions) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should share detection results across instances', async () => {
+    const shared = new MemoryRemoteCacheStore();
+    const set = vi.spyOn(shared, 'set');
+    const first = createTestApp({ cacheStore: shared });
+    const second = createTestApp({ cacheStore: shared });
+
+    await request(first.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    const response = await request(second.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(set).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith(`detect:${GOOGLEBOT_UA}`, expect.anything(), 3600000);
+    expect(response.body.knownBot).toBe('Googlebot');
+  });
+
+  it('should keep detections of other pattern configurations apart', async () => {
+    const shared = new MemoryRemoteCacheStore();
+    const excluding = createTestApp({
+      cacheStore: shared,
+      excludePatterns: [{ bot: 'Googlebot' }],
+    });
+    const standard = createTestApp({ cacheStore: shared });
+
+    const excluded = await request(excluding.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    const detected = await request(standard.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(excluded.body.isBot).toBe(false);
+    expect(detected.body.isBot).toBe(true);
+    expect(shared.size).toBe(2);
+  });
+
+  it('should share verification outcomes across instances', async () => {
+    const shared = new TieredCacheStore(new MemoryRemoteCacheStore());
+    const verify = vi.fn(() => Promise.resolve(true as const));
+    const options = { cacheStore: shared, verifier: { verify } };
+
+    await request(createTestApp(options).callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    const response = await request(createTestApp(options).callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA);
+
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(response.body.verified).toBe(true);
+  });
+
+  it('should keep verification outcomes of other verifiers apart', async () => {
+    const shared = new BotDetectionCache<unknown>();
+    const trusting = createTestApp({
+      cacheStore: shared,
+      verifier: { verify: () => Promise.resolve(true) },
+    });
+    const rejecting = createTestApp({
+      cacheStore: shared,
+      verifier: { verify: () => Promise.resolve(false) },
+    });
+
+    await request(trusting.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    const response = await request(rejecting.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(response.body).toMatchObject({ verified: false, spoofed: true });
+  });
+
+  it('should share verification outcomes of verifiers with the same id', async () => {
+    const shared = new MemoryRemoteCacheStore();
+    const verify = vi.fn(() => Promise.resolve(true as const));
+    const set = vi.spyOn(shared, 'set');
+
+    await request(createTestApp({ cacheStore: shared, verifier: { id: 'dns', verify } }).callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA);
+    const response = await request(
+      createTestApp({ cacheStore: shared, verifier: { id: 'dns', verify } }).callback()
+    )
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA);
+
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(set).toHaveBeenCalledWith(expect.stringMatching(/^verify@dns:/), true, 3600000);
+    expect(response.body.verified).toBe(true);
+  });
+
+  it('should not use the store when caching is disabled', async () => {
+    const shared = new MemoryRemoteCacheStore();
+    const app = createTestApp({ cacheStore: shared, cache: false });
+
+    await request(app.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(shared.size).toBe(0);
+  });
+
+  it('should detect and verify without the store when it fails', async () => {
+    const failing = {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => {
+        throw new Error('connection refused');
+      },
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const onCacheError = vi.fn();
+    const verify = vi.fn(() => Promise.resolve(true as const));
+    const app = createTestApp({ cacheStore: failing, verifier: { verify }, onCacheError });
+
+    const response = await request(app.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ knownBot: 'Googlebot', verified: true });
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(onCacheError).toHaveBeenCalledTimes(4);
+    expect(onCacheError).toHaveBeenCalledWith(expect.any(Error), `detect:${GOOGLEBOT_UA}`);
+  });
+
+  it('should expose cache stats through the middleware', async () => {
+    const middleware = koaIsBot({ verifier: { verify: () => Promise.resolve(true) } });
+    const app = new Koa();
+    app.use(middleware);
+    app.use((ctx) => {
+      ctx.body = 'ok';
+    });
+    const agent = request(app.callback());
+
+    await agent.get('/').set('User-Agent', GOOGLEBOT_UA);
+    await agent.get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    const stats = middleware.getStats();
+    expect(stats.detection).toMatchObject({ hits: 1, misses: 1, size: 1, hitRate: 0.5 });
+    expect(stats.verification).toMatchObject({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it('should bound the default caches by cacheMaxBytes', async () => {
+    const middleware = koaIsBot({ cacheMaxBytes: 32 * 1024, cacheAdmission: 'tinylfu' });
+    const app = new Koa();
+    app.use(middleware);
+    app.use((ctx) => {
+      ctx.body = 'ok';
+    });
+    const agent = request(app.callback());
+
+    for (let i = 0; i < 10; i++) {
+      await agent.get('/').set('User-Agent', `${i} ${GOOGLEBOT_UA} ${'x'.repeat(1900)}`);
+    }
+
+    const stats = middleware.getStats().detection;
+    expect(stats?.bytes).toBeLessThanOrEqual(32 * 1024);
+    expect(stats?.size).toBeLessThan(10);
+  });
+
+  it('should report null stats without a cache or for stores without stats', () => {
+    expect(koaIsBot({ cache: false }).getStats()).toEqual({ detection: null, verification: null });
+    expect(koaIsBot({ cacheStore: new MemoryRemoteCacheStore() }).getStats().detection).toBeNull();
+    expect(koaIsBot().getStats().verification).toBeNull();
+  });
 });
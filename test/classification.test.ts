@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import {
+  BOT_CLASSIFICATIONS,
+  BOT_CLASSIFICATION_VERSION,
+  createBotClassifier,
+} from '../src/classification.js';
+
+describe('bot classification', () => {
+  const createTestApp = (middleware: ReturnType<typeof koaIsBot>) => {
+    const testApp = new Koa();
+    testApp.use(middleware);
+    testApp.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return testApp;
+  };
+
+  describe('createBotClassifier', () => {
+    const classify = createBotClassifier();
+
+    it.each([
+      [
+        'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+        'Googlebot',
+        'search-engine',
+        'web',
+      ],
+      ['Googlebot-Image/1.0', 'Googlebot-Image', 'search-engine', 'images'],
+      [
+        'Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)',
+        'Bingbot',
+        'search-engine',
+        'web',
+      ],
+      [
+        'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.0; +https://openai.com/gptbot',
+        'GPTBot',
+        'ai-crawler',
+        'training',
+      ],
+      [
+        'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; ChatGPT-User/1.0; +https://openai.com/bot',
+        'ChatGPT-User',
+        'ai-agent',
+        'assistant',
+      ],
+      [
+        'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)',
+        'AhrefsBot',
+        'seo',
+        undefined,
+      ],
+      [
+        'facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)',
+        'facebookexternalhit',
+        'social',
+        'link-preview',
+      ],
+      [
+        'Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)',
+        'UptimeRobot',
+        'monitoring',
+        'uptime',
+      ],
+      ['sqlmap/1.5#stable (https://sqlmap.org)', 'sqlmap', 'scanner', undefined],
+    ])('should classify %s', (ua, name, category, subcategory) => {
+      const entry = classify(ua);
+
+      expect(entry?.name).toBe(name);
+      expect(entry?.category).toBe(category);
+      expect(entry?.subcategory).toBe(subcategory);
+    });
+
+    it('should return null for unknown user agents', () => {
+      expect(classify('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0')).toBeNull();
+      expect(classify('')).toBeNull();
+    });
+
+    it('should prefer extra entries over the bundled table', () => {
+      const custom = createBotClassifier([
+        { pattern: 'googlebot', name: 'MyGoogle', category: 'other', subcategory: 'internal' },
+      ]);
+
+      expect(custom('Googlebot/2.1')?.name).toBe('MyGoogle');
+    });
+
+    it('should expose a versioned table with valid patterns', () => {
+      expect(BOT_CLASSIFICATION_VERSION).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(BOT_CLASSIFICATIONS.length).toBeGreaterThan(0);
+      for (const entry of BOT_CLASSIFICATIONS) {
+        expect(() => new RegExp(entry.pattern, 'i')).not.toThrow();
+      }
+    });
+  });
+
+  describe('middleware integration', () => {
+    it('should attach category and subcategory to the result', async () => {
+      const testApp = createTestApp(koaIsBot());
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set(
+          'User-Agent',
+          'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'
+        );
+
+      expect(response.body.category).toBe('search-engine');
+      expect(response.body.subcategory).toBe('web');
+      expect(response.body.knownBot).toBe('Googlebot');
+    });
+
+    it('should report unclassified bots as other', async () => {
+      const testApp = createTestApp(koaIsBot());
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', 'SomeUnknownCrawler/1.0');
+
+      expect(response.body.isBot).toBe(true);
+      expect(response.body.category).toBe('other');
+      expect(response.body.knownBot).toBeNull();
+    });
+
+    it('should not classify humans', async () => {
+      const testApp = createTestApp(koaIsBot());
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0');
+
+      expect(response.body.category).toBeNull();
+      expect(response.body.subcategory).toBeNull();
+    });
+
+    it('should use classifications from options', async () => {
+      const testApp = createTestApp(
+        koaIsBot({
+          customPatterns: ['company-crawler'],
+          classifications: [
+            {
+              pattern: 'company-crawler',
+              name: 'CompanyCrawler',
+              category: 'monitoring',
+              subcategory: 'internal',
+            },
+          ],
+        })
+      );
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', 'company-crawler/1.0');
+
+      expect(response.body.category).toBe('monitoring');
+      expect(response.body.subcategory).toBe('internal');
+      expect(response.body.knownBot).toBe('CompanyCrawler');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import {
+  createClientHintsHeaders,
+  parseBrandList,
+  parseClientHints,
+  DEFAULT_ACCEPT_CH,
+} from '../src/client-hints.js';
+import type { KoaIsBotOptions } from '../src/types.js';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const ANDROID_UA =
+  'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+
+const HINTS = {
+  'Sec-CH-UA': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+  'Sec-CH-UA-Mobile': '?0',
+  'Sec-CH-UA-Platform': '"Windows"',
+};
+
+describe('parseBrandList', () => {
+  it('should parse brands and drop GREASE entries', () => {
+    expect(parseBrandList(HINTS['Sec-CH-UA'])).toEqual([
+      { brand: 'Chromium', version: '120' },
+      { brand: 'Google Chrome', version: '120' },
+    ]);
+    expect(parseBrandList('"Not)A;Brand";v="99", "Microsoft Edge";v="121"')).toEqual([
+      { brand: 'Microsoft Edge', version: '121' },
+    ]);
+  });
+
+  it('should unescape quoted strings', () => {
+    expect(parseBrandList('"Quo\\"ted";v="1"')).toEqual([{ brand: 'Quo"ted', version: '1' }]);
+  });
+
+  it('should return an empty list for empty or malformed headers', () => {
+    expect(parseBrandList('')).toEqual([]);
+    expect(parseBrandList('Chromium 120')).toEqual([]);
+  });
+});
+
+describe('parseClientHints', () => {
+  const createHintsApp = (userAgent = CHROME_UA) => {
+    const app = new Koa();
+    app.use((ctx) => {
+      ctx.body = { hints: parseClientHints(ctx, userAgent) };
+    });
+    return app;
+  };
+
+  it('should return null without client hints', async () => {
+    const response = await request(createHintsApp().callback()).get('/');
+
+    expect(response.body.hints).toBeNull();
+  });
+
+  it('should parse low- and high-entropy hints', async () => {
+    const response = await request(createHintsApp().callback())
+      .get('/')
+      .set({
+        ...HINTS,
+        'Sec-CH-UA-Full-Version-List':
+          '"Not_A Brand";v="8.0.0.0", "Chromium";v="120.0.6099.130", "Google Chrome";v="120.0.6099.130"',
+        'Sec-CH-UA-Platform-Version': '"15.0.0"',
+        'Sec-CH-UA-Model': '""',
+        'Sec-CH-UA-Arch': '"x86"',
+      });
+
+    expect(response.body.hints).toEqual({
+      brands: [
+        { brand: 'Chromium', version: '120' },
+        { brand: 'Google Chrome', version: '120' },
+      ],
+      fullVersionList: [
+        { brand: 'Chromium', version: '120.0.6099.130' },
+        { brand: 'Google Chrome', version: '120.0.6099.130' },
+      ],
+      mobile: false,
+      platform: 'Windows',
+      platformVersion: '15.0.0',
+      model: '',
+      architecture: 'x86',
+      mismatches: [],
+    });
+  });
+
+  it('should accept consistent mobile hints', async () => {
+    const response = await request(createHintsApp(ANDROID_UA).callback())
+      .get('/')
+      .set({ ...HINTS, 'Sec-CH-UA-Mobile': '?1', 'Sec-CH-UA-Platform': '"Android"' });
+
+    expect(response.body.hints.mobile).toBe(true);
+    expect(response.body.hints.mismatches).toEqual([]);
+  });
+
+  it('should flag hints contradicting the user agent', async () => {
+    const response = await request(createHintsApp().callback()).get('/').set({
+      'Sec-CH-UA': '"Chromium";v="118"',
+      'Sec-CH-UA-Full-Version-List': '"Chromium";v="118.0.5993.70"',
+      'Sec-CH-UA-Mobile': '?1',
+      'Sec-CH-UA-Platform': '"macOS"',
+    });
+
+    expect(response.body.hints.mismatches).toEqual([
+      'Sec-CH-UA Chromium 118 does not match Chrome/120',
+      'Sec-CH-UA-Full-Version-List Chromium 118.0.5993.70 does not match Chrome/120',
+      'Sec-CH-UA-Platform "macOS" does not match the user agent',
+      'Sec-CH-UA-Mobile ?1 does not match the user agent',
+    ]);
+  });
+
+  it('should flag brands sent with a non-Chromium user agent', async () => {
+    const app = createHintsApp(
+      'Mozilla/5.0 (Windows NT 10.0; rv:120.0) Gecko/20100101 Firefox/120.0'
+    );
+
+    const response = await request(app.callback()).get('/').set(HINTS);
+
+    expect(response.body.hints.mismatches).toEqual(['Sec-CH-UA sent by a non-Chromium user agent']);
+  });
+});
+
+describe('createClientHintsHeaders', () => {
+  it('should request the default high-entropy hints', () => {
+    expect(createClientHintsHeaders({})).toEqual({ 'Accept-CH': DEFAULT_ACCEPT_CH.join(', ') });
+  });
+
+  it('should include critical hints in Accept-CH', () => {
+    expect(
+      createClientHintsHeaders({
+        accept: ['Sec-CH-UA-Model'],
+        critical: ['Sec-CH-UA-Full-Version-List'],
+      })
+    ).toEqual({
+      'Accept-CH': 'Sec-CH-UA-Model, Sec-CH-UA-Full-Version-List',
+      'Critical-CH': 'Sec-CH-UA-Full-Version-List',
+    });
+  });
+});
+
+describe('koaIsBot client hints', () => {
+  const createTestApp = (options: KoaIsBotOptions = {}) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should add parsed client hints to the result', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...HINTS });
+
+    expect(response.body.clientHints).toMatchObject({
+      brands: [
+        { brand: 'Chromium', version: '120' },
+        { brand: 'Google Chrome', version: '120' },
+      ],
+      mobile: false,
+      platform: 'Windows',
+      mismatches: [],
+    });
+  });
+
+  it('should report mismatches as a signal', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...HINTS, 'Sec-CH-UA-Platform': '"Linux"' });
+
+    expect(response.body.signals).toContainEqual({
+      name: 'client-hint-mismatch',
+      weight: 0.5,
+      detail: 'Sec-CH-UA-Platform "Linux" does not match the user agent',
+    });
+  });
+
+  it('should not emit Accept-CH by default', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set('User-Agent', CHROME_UA);
+
+    expect(response.headers['accept-ch']).toBeUndefined();
+    expect(response.headers['critical-ch']).toBeUndefined();
+  });
+
+  it('should emit Accept-CH and Critical-CH when configured', async () => {
+    const app = createTestApp({ clientHints: { critical: ['Sec-CH-UA-Full-Version-List'] } });
+
+    const response = await request(app.callback()).get('/').set('User-Agent', CHROME_UA);
+
+    expect(response.headers['accept-ch']).toBe(DEFAULT_ACCEPT_CH.join(', '));
+    expect(response.headers['critical-ch']).toBe('Sec-CH-UA-Full-Version-List');
+  });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { koaCrawlBudget } from '../src/crawl-budget.js';
+import type { BotVerifier, KoaCrawlBudgetOptions } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+const BINGBOT_UA = 'Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)';
+const AHREFS_UA = 'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)';
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0';
+
+const trustAll: BotVerifier = { verify: () => Promise.resolve(true) };
+
+describe('koaCrawlBudget', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createBudgetApp = (options: KoaCrawlBudgetOptions, verifier?: BotVerifier) => {
+    const app = new Koa();
+    app.use(koaIsBot({ verifier, getClientIp: (ctx: Context) => ctx.get('X-Test-IP') }));
+    const budget = koaCrawlBudget(options);
+    app.use(budget);
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    return { app, budget };
+  };
+
+  describe('intervals', () => {
+    it('should throttle crawlers within the minimum interval', async () => {
+      const { app } = createBudgetApp({ intervals: { default: 60000 } });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+
+      const response = await agent.get('/').set('User-Agent', AHREFS_UA);
+      expect(response.status).toBe(429);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(60);
+    });
+
+    it('should serve crawlers again once the interval has passed', async () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const { app } = createBudgetApp({ intervals: { default: 2000 } });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+
+      now.mockReturnValue(1_001_500);
+      const throttled = await agent.get('/').set('User-Agent', AHREFS_UA);
+      expect(throttled.status).toBe(429);
+      expect(throttled.headers['retry-after']).toBe('1');
+
+      now.mockReturnValue(1_002_000);
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    });
+
+    it('should keep budgets per crawler', async () => {
+      const { app } = createBudgetApp({ intervals: { default: 60000 } });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+    });
+
+    it('should not let unverified claimants use up a verified crawler budget', async () => {
+      const verifier: BotVerifier = {
+        verify: (ip) => Promise.resolve(ip === '66.249.66.1' ? true : 'unknown'),
+      };
+      const { app } = createBudgetApp({ intervals: { default: 60000 } }, verifier);
+      const agent = request(app.callback());
+
+      const claimant = await agent
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '203.0.113.7');
+      const verified = await agent
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '66.249.66.1');
+      const again = await agent
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '203.0.113.7');
+
+      expect(claimant.status).toBe(200);
+      expect(verified.status).toBe(200);
+      expect(again.status).toBe(429);
+    });
+
+    it('should prefer bot intervals over category and default intervals', async () => {
+      const { app } = createBudgetApp({
+        intervals: { default: 60000, bots: { bingbot: 0 }, categories: { seo: 0 } },
+      });
+      const agent = request(app.callback());
+
+      for (let i = 0; i < 2; i++) {
+        expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+        expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+      }
+
+      expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(200);
+      expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(429);
+    });
+
+    it('should never throttle humans', async () => {
+      const { app } = createBudgetApp({ intervals: { default: 60000 } });
+      const agent = request(app.callback());
+
+      for (let i = 0; i < 3; i++) {
+        expect((await agent.get('/').set('User-Agent', CHROME_UA)).status).toBe(200);
+      }
+    });
+
+    it('should reject invalid intervals', () => {
+      expect(() => koaCrawlBudget({ intervals: { default: -1 } })).toThrow(TypeError);
+      expect(() => koaCrawlBudget({ intervals: { bots: { Googlebot: Number.NaN } } })).toThrow(
+        /non-negative number/
+      );
+    });
+  });
+
+  describe('robots.txt Crawl-delay', () => {
+    const robots = [
+      'User-agent: bingbot',
+      'Crawl-delay: 10',
+      '',
+      'User-agent: *',
+      'Disallow:',
+    ].join('\n');
+
+    it('should use the Crawl-delay of the matching group', async () => {
+      const { app } = createBudgetApp({ robots });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+
+      const response = await agent.get('/').set('User-Agent', BINGBOT_UA);
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('10');
+
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+      expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    });
+
+    it('should let configured intervals override Crawl-delay', async () => {
+      const { app } = createBudgetApp({ robots, intervals: { bots: { bingbot: 0 } } });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+    });
+
+    it('should load robots.txt from a function once', async () => {
+      const source = vi.fn(() => Promise.resolve(robots));
+      const { app } = createBudgetApp({ robots: source });
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+
+      expect(source).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the default interval while robots.txt fails to load', async () => {
+      const source = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('unavailable'))
+        .mockResolvedValue(robots);
+      const onError = vi.fn();
+      const { app } = createBudgetApp({ robots: source, onError });
+      const agent = request(app.callback());
+
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'unavailable' }));
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(429);
+    });
+
+    it('should warn about robots.txt load failures without onError', async () => {
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+      const { app } = createBudgetApp({ robots: () => Promise.reject(new Error('unavailable')) });
+
+      expect((await request(app.callback()).get('/').set('User-Agent', BINGBOT_UA)).status).toBe(
+        200
+      );
+      expect(emitWarning).toHaveBeenCalledWith(
+        'robots.txt not loaded: unavailable',
+        'RobotsTxtWarning'
+      );
+    });
+  });
+
+  describe('status', () => {
+    it('should respond 503 to verified search engines', async () => {
+      const { app } = createBudgetApp({ intervals: { default: 60000 } }, trustAll);
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', GOOGLEBOT_UA).set('X-Test-IP', '66.249.66.1');
+      const response = await agent
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '66.249.66.1');
+
+      expect(response.status).toBe(503);
+      expect(response.headers['retry-after']).toBeDefined();
+    });
+
+    it('should respond 429 to unverified search engines and other bots', async () => {
+      const { app } = createBudgetApp({ intervals: { default: 60000 } });
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', GOOGLEBOT_UA);
+
+      expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(429);
+    });
+
+    it('should call onThrottled', async () => {
+      const onThrottled = vi.fn();
+      const { app } = createBudgetApp({ intervals: { default: 60000 }, onThrottled });
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', AHREFS_UA);
+      await agent.get('/').set('User-Agent', AHREFS_UA);
+
+      expect(onThrottled).toHaveBeenCalledTimes(1);
+      expect(onThrottled).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ knownBot: 'AhrefsBot' }),
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('counters', () => {
+    it('should count crawl volume per bot and path prefix', async () => {
+      const { app, budget } = createBudgetApp({ intervals: { bots: { AhrefsBot: 60000 } } });
+      const agent = request(app.callback());
+
+      await agent.get('/blog/2024/post').set('User-Agent', BINGBOT_UA);
+      await agent.get('/blog/other').set('User-Agent', BINGBOT_UA);
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+      await agent.get('/search?q=a').set('User-Agent', AHREFS_UA);
+      await agent.get('/search?q=b').set('User-Agent', AHREFS_UA);
+      await agent.get('/').set('User-Agent', CHROME_UA);
+
+      expect(budget.getCounters()).toEqual({
+        Bingbot: {
+          requests: 3,
+          throttled: 0,
+          paths: { '/blog': { requests: 2, throttled: 0 }, '/': { requests: 1, throttled: 0 } },
+        },
+        AhrefsBot: {
+          requests: 1,
+          throttled: 1,
+          paths: { '/search': { requests: 1, throttled: 1 } },
+        },
+      });
+    });
+
+    it('should group paths by the configured depth', async () => {
+      const { app, budget } = createBudgetApp({ pathDepth: 2 });
+
+      await request(app.callback()).get('/blog/2024/post').set('User-Agent', BINGBOT_UA);
+
+      expect(Object.keys(budget.getCounters().Bingbot!.paths)).toEqual(['/blog/2024']);
+    });
+
+    it('should count path prefixes beyond maxPathsPerBot together', async () => {
+      const { app, budget } = createBudgetApp({ maxPathsPerBot: 2 });
+      const agent = request(app.callback());
+
+      for (const path of ['/a', '/b', '/c', '/d', '/a']) {
+        await agent.get(path).set('User-Agent', BINGBOT_UA);
+      }
+
+      expect(budget.getCounters().Bingbot!.paths).toEqual({
+        '/a': { requests: 2, throttled: 0 },
+        '/b': { requests: 1, throttled: 0 },
+        '*': { requests: 2, throttled: 0 },
+      });
+    });
+
+    it('should keep at most maxBots bots, evicting the least recently seen', async () => {
+      const { app, budget } = createBudgetApp({ maxBots: 2, intervals: { default: 60000 } });
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+      await agent.get('/').set('User-Agent', AHREFS_UA);
+      await agent.get('/').set('User-Agent', GOOGLEBOT_UA);
+
+      expect(Object.keys(budget.getCounters()).sort()).toEqual(['AhrefsBot', 'Googlebot']);
+      expect((await agent.get('/').set('User-Agent', BINGBOT_UA)).status).toBe(200);
+      expect(() => koaCrawlBudget({ maxPathsPerBot: 0 })).toThrow(TypeError);
+    });
+
+    it('should return a snapshot and reset counters', async () => {
+      const { app, budget } = createBudgetApp({});
+      const agent = request(app.callback());
+
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+      const snapshot = budget.getCounters();
+      await agent.get('/').set('User-Agent', BINGBOT_UA);
+
+      expect(snapshot.Bingbot!.requests).toBe(1);
+      expect(budget.getCounters().Bingbot!.requests).toBe(2);
+
+      budget.resetCounters();
+      expect(budget.getCounters()).toEqual({});
+    });
+  });
+});
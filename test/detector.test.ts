@@ -0,0 +1,319 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { BotDetectionCache } from '../src/cache.js';
+import { createBotDetector } from '../src/detector.js';
+import type {
+  BotCategory,
+  BotExclusion,
+  CustomBotDefinition,
+  KoaIsBotOptions,
+} from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+// Matched by none of the built-in patterns
+const BROWSER_PREFIX = 'Mozilla/5.0 (X11; Linux)';
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+describe('createBotDetector', () => {
+  it('should detect and classify bots', () => {
+    const detector = createBotDetector();
+
+    expect(detector.detect(GOOGLEBOT_UA)).toMatchObject({
+      isBot: true,
+      knownBot: 'Googlebot',
+      category: 'search-engine',
+    });
+    expect(detector.detect(CHROME_UA).isBot).toBe(false);
+  });
+
+  it('should compile custom and excluded patterns', () => {
+    const detector = createBotDetector({
+      customPatterns: ['mycompanybot'],
+      excludePatterns: ['Chrome-Lighthouse'],
+      classifications: [{ pattern: 'mycompanybot', name: 'MyCompanyBot', category: 'seo' }],
+    });
+
+    expect(detector.detect('MyCompanyBot/1.0')).toMatchObject({
+      isBot: true,
+      knownBot: 'MyCompanyBot',
+      category: 'seo',
+    });
+    expect(detector.detect(`${CHROME_UA} Chrome-Lighthouse`).isBot).toBe(false);
+    expect(createBotDetector().detect(`${CHROME_UA} Chrome-Lighthouse`).isBot).toBe(true);
+  });
+
+  it('should identify detectors by their pattern configuration', () => {
+    expect(createBotDetector().id).toBe('');
+    expect(createBotDetector({ customPatterns: ['acme-probe'] }).id).toBe(
+      createBotDetector({ customPatterns: ['acme-probe'] }).id
+    );
+    expect(createBotDetector({ customPatterns: ['acme-probe'] }).id).not.toBe(
+      createBotDetector({ customPatterns: ['other-probe'] }).id
+    );
+    expect(createBotDetector({ excludePatterns: [{ bot: 'AhrefsBot' }] }).id).not.toBe('');
+  });
+
+  it('should exclude patterns by exact source or sample user agent', () => {
+    const lighthouse = `${CHROME_UA} Chrome-Lighthouse`;
+    const bySource = createBotDetector({ excludePatterns: [{ pattern: 'chrome-lighthouse' }] });
+    const bySample = createBotDetector({ excludePatterns: [{ userAgent: 'Chrome-Lighthouse' }] });
+
+    expect(bySource.detect(lighthouse).isBot).toBe(false);
+    expect(bySource.detect('Chrome-Lighthouse').isBot).toBe(true);
+    expect(bySample.detect('Chrome-Lighthouse').isBot).toBe(false);
+    expect(bySource.detect(GOOGLEBOT_UA).isBot).toBe(true);
+  });
+
+  it('should exclude bots by resolved name or category', () => {
+    const detector = createBotDetector({
+      excludePatterns: [{ bot: 'googlebot' }, { category: 'seo' }],
+      customBots: [{ name: 'CompanyCrawler', pattern: 'company-crawler', category: 'seo' }],
+    });
+
+    expect(detector.detect(GOOGLEBOT_UA)).toMatchObject({
+      isBot: false,
+      botName: null,
+      botPatterns: [],
+      patternMatches: [],
+      knownBot: null,
+      category: null,
+    });
+    expect(detector.detect('Mozilla/5.0 (compatible; AhrefsBot/7.0)').isBot).toBe(false);
+    expect(detector.detect(`${BROWSER_PREFIX} company-crawler`).isBot).toBe(false);
+    expect(detector.detect('Mozilla/5.0 (compatible; Googlebot-Image/1.0)').knownBot).toBe(
+      'Googlebot-Image'
+    );
+    expect(
+      createBotDetector({ excludePatterns: [{ bot: 'GPTBot' }] }).detect(
+        'Mozilla/5.0 (compatible; AhrefsBot/7.0)'
+      ).isBot
+    ).toBe(true);
+  });
+
+  it('should reject exclusions matching nothing', () => {
+    expect(() => createBotDetector({ excludePatterns: [CHROME_UA] })).toThrow(
+      `Excluded user agent "${CHROME_UA}" matches no bot pattern`
+    );
+    expect(() =>
+      createBotDetector({ excludePatterns: [{ pattern: 'Chrome-Lighthouse' }] })
+    ).toThrow('Excluded pattern "Chrome-Lighthouse" is not in the bot pattern list');
+    expect(() => createBotDetector({ excludePatterns: [{ bot: 'NoSuchBot' }] })).toThrow(TypeError);
+    expect(() =>
+      createBotDetector({ excludePatterns: [{ category: 'crawler' as BotCategory }] })
+    ).toThrow(TypeError);
+    expect(() =>
+      createBotDetector({ excludePatterns: [{ name: 'Googlebot' } as unknown as BotExclusion] })
+    ).toThrow(TypeError);
+  });
+
+  it('should report the declared name and metadata of custom bots', () => {
+    const detector = createBotDetector({
+      customBots: [
+        {
+          name: 'CompanyCrawler',
+          pattern: 'company-crawler',
+          category: 'monitoring',
+          subcategory: 'internal',
+          vendor: 'example-corp',
+          url: 'https://example.com/crawler',
+        },
+      ],
+    });
+
+    const result = detector.detect('Mozilla/5.0 (compatible; Company-Crawler/2.1)');
+
+    expect(result).toMatchObject({
+      isBot: true,
+      botName: 'CompanyCrawler',
+      knownBot: 'CompanyCrawler',
+      category: 'monitoring',
+      subcategory: 'internal',
+      operator: 'example-corp',
+      botUrl: 'https://example.com/crawler',
+    });
+    expect(result.patternMatches).toContainEqual({
+      pattern: 'company-crawler',
+      match: 'company-crawler',
+      source: 'custom',
+      name: 'CompanyCrawler',
+    });
+  });
+
+  it('should attribute built-in and custom pattern matches', () => {
+    const detector = createBotDetector({
+      customPatterns: ['acme-probe'],
+      customBots: [{ name: 'AcmeMonitor', pattern: /acme-monitor\/\d+/ }],
+    });
+
+    const googlebot = detector.detect(GOOGLEBOT_UA);
+    const monitor = detector.detect('acme-monitor/3 acme-probe');
+
+    expect(googlebot.knownBot).toBe('Googlebot');
+    expect(googlebot.botUrl).toBeUndefined();
+    expect(googlebot.patternMatches?.every(({ source }) => source === 'isbot')).toBe(true);
+    expect(monitor).toMatchObject({ botName: 'AcmeMonitor', category: 'other', operator: null });
+    expect(monitor.patternMatches).toEqual(
+      expect.arrayContaining([
+        { pattern: 'acme-probe', match: 'acme-probe', source: 'custom' },
+        {
+          pattern: 'acme-monitor\\/\\d+',
+          flags: '',
+          match: 'acme-monitor/3',
+          source: 'custom',
+          name: 'AcmeMonitor',
+        },
+      ])
+    );
+    expect(detector.detect(CHROME_UA).patternMatches).toEqual([]);
+  });
+
+  it('should evaluate custom RegExps with their own flags', () => {
+    const detector = createBotDetector({ customPatterns: [/InternalProbe$/, /Probe(?=[A-Z])/] });
+
+    const probe = detector.detect(`${BROWSER_PREFIX} InternalProbe`);
+
+    expect(probe).toMatchObject({ isBot: true, botName: 'InternalProbe' });
+    expect(probe.patternMatches).toContainEqual({
+      pattern: 'InternalProbe$',
+      flags: '',
+      match: 'InternalProbe',
+      source: 'custom',
+    });
+    expect(detector.detect(`${BROWSER_PREFIX} internalprobe`).isBot).toBe(false);
+    expect(detector.detect(`${BROWSER_PREFIX} ProbeX`).botPatterns).toEqual(['Probe']);
+    expect(detector.detect(`${BROWSER_PREFIX} Probex`).isBot).toBe(false);
+  });
+
+  it('should evaluate RegExps with backreferences or the g flag on their own', () => {
+    const pattern = /company-probe/g;
+    const detector = createBotDetector({ customPatterns: [/(acme)-\1/i, pattern] });
+
+    expect(detector.detect(`${BROWSER_PREFIX} ACME-acme`).botName).toBe('ACME-acme');
+    expect(detector.detect(`${BROWSER_PREFIX} acme-other`).isBot).toBe(false);
+    expect(detector.detect(`${BROWSER_PREFIX} company-probe`).isBot).toBe(true);
+    expect(detector.detect(`${BROWSER_PREFIX} company-probe`).isBot).toBe(true);
+    expect(pattern.lastIndex).toBe(0);
+  });
+
+  it('should combine case-insensitive RegExps with the built-in patterns', () => {
+    const detector = createBotDetector({ customPatterns: [/company-crawler/i] });
+
+    expect(detector.detect('Company-Crawler/2.1').patternMatches).toContainEqual({
+      pattern: 'company-crawler',
+      flags: 'i',
+      match: 'company-crawler',
+      source: 'custom',
+    });
+  });
+
+  it('should reject custom bots without a name or pattern', () => {
+    expect(() => createBotDetector({ customBots: [{ name: '', pattern: 'mybot' }] })).toThrow(
+      TypeError
+    );
+    expect(() =>
+      createBotDetector({ customBots: [{ name: 'MyBot' } as CustomBotDefinition] })
+    ).toThrow(TypeError);
+  });
+
+  it('should truncate long user agents', () => {
+    const detector = createBotDetector();
+
+    expect(detector.detect('a'.repeat(5000)).userAgent).toHaveLength(2048);
+  });
+});
+
+describe('koaIsBot lifecycle', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createTestApp = (options: KoaIsBotOptions) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should share a detector between middleware instances', async () => {
+    const detector = createBotDetector({ customPatterns: ['mycompanybot'] });
+    const detect = vi.spyOn(detector, 'detect');
+
+    const first = await request(createTestApp({ detector }).callback())
+      .get('/')
+      .set('User-Agent', 'MyCompanyBot/1.0');
+    const second = await request(createTestApp({ detector, stateKey: 'bot' }).callback())
+      .get('/')
+      .set('User-Agent', 'MyCompanyBot/1.0');
+
+    expect(detect).toHaveBeenCalledTimes(2);
+    expect(first.body.isBot).toBe(true);
+    expect(second.status).toBe(204);
+  });
+
+  it('should reject pattern options next to a shared detector', () => {
+    expect(() => koaIsBot({ detector: createBotDetector(), customPatterns: ['mybot'] })).toThrow(
+      TypeError
+    );
+    expect(() =>
+      koaIsBot({ detector: createBotDetector(), customBots: [{ name: 'MyBot', pattern: 'mybot' }] })
+    ).toThrow(TypeError);
+  });
+
+  it('should share a cache instance between middleware instances', async () => {
+    const cache = new BotDetectionCache();
+    const detector = createBotDetector();
+    const detect = vi.spyOn(detector, 'detect');
+
+    await request(createTestApp({ detector, cacheStore: cache }).callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA);
+    const response = await request(createTestApp({ detector, cacheStore: cache }).callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA);
+
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(response.body.knownBot).toBe('Googlebot');
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should stop the cleanup timer and clear its caches on dispose', async () => {
+    const clearInterval = vi.spyOn(globalThis, 'clearInterval');
+    const middleware = koaIsBot();
+    const app = new Koa();
+    app.use(middleware);
+    app.use((ctx) => {
+      ctx.body = 'ok';
+    });
+
+    await request(app.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    expect(middleware.getStats().detection?.size).toBe(1);
+
+    middleware.dispose();
+    middleware.dispose();
+
+    expect(clearInterval).toHaveBeenCalledTimes(1);
+    expect(middleware.getStats().detection?.size).toBe(0);
+  });
+
+  it('should not start a timer for or clear a shared cache', async () => {
+    const setInterval = vi.spyOn(globalThis, 'setInterval');
+    const cache = new BotDetectionCache();
+    const middleware = koaIsBot({ cacheStore: cache });
+    const app = new Koa();
+    app.use(middleware);
+    app.use((ctx) => {
+      ctx.body = 'ok';
+    });
+
+    await request(app.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+    middleware.dispose();
+
+    expect(setInterval).not.toHaveBeenCalled();
+    expect(cache.size).toBe(1);
+  });
+});
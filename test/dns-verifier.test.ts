@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from 'vitest';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { createDnsVerifier } from '../src/dns-verifier.js';
+import type { BotDetectionResult, DnsResolver } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+const createResult = (knownBot: string | null): BotDetectionResult => ({
+  isBot: true,
+  botName: 'bot',
+  botPatterns: ['bot'],
+  userAgent: 'test',
+  category: 'search-engine',
+  subcategory: 'web',
+  knownBot,
+  operator: null,
+  score: 0.95,
+  signals: [],
+  automation: null,
+  clientHints: null,
+});
+
+const dnsError = (code: string) => Object.assign(new Error(code), { code });
+
+/**
+ * Local stub resolver backed by static PTR and A records
+ */
+const createStubResolver = (
+  ptr: Record<string, string[]>,
+  a: Record<string, string[]>
+): DnsResolver => ({
+  reverse: vi.fn((ip: string) =>
+    ptr[ip] ? Promise.resolve(ptr[ip]) : Promise.reject(dnsError('ENOTFOUND'))
+  ),
+  lookup: vi.fn((hostname: string) =>
+    a[hostname] ? Promise.resolve(a[hostname]) : Promise.reject(dnsError('ENOTFOUND'))
+  ),
+});
+
+const resolver = createStubResolver(
+  {
+    '66.249.66.1': ['crawl-66-249-66-1.googlebot.com'],
+    '157.55.39.1': ['msnbot-157-55-39-1.search.msn.com.'],
+    '203.0.113.5': ['evil.example.com'],
+    '203.0.113.6': ['crawl-203-0-113-6.googlebot.com'],
+  },
+  {
+    'crawl-66-249-66-1.googlebot.com': ['66.249.66.1'],
+    'msnbot-157-55-39-1.search.msn.com': ['157.55.39.1'],
+    'crawl-203-0-113-6.googlebot.com': ['66.249.66.99'],
+  }
+);
+
+describe('createDnsVerifier', () => {
+  const verifier = createDnsVerifier({ resolver });
+
+  it('should verify a genuine Googlebot', async () => {
+    await expect(verifier.verify('66.249.66.1', createResult('Googlebot'))).resolves.toBe(true);
+  });
+
+  it('should accept trailing dots and IPv4-mapped addresses', async () => {
+    await expect(verifier.verify('::ffff:157.55.39.1', createResult('Bingbot'))).resolves.toBe(
+      true
+    );
+  });
+
+  it('should reject hostnames outside the operator domains', async () => {
+    await expect(verifier.verify('203.0.113.5', createResult('Googlebot'))).resolves.toBe(false);
+  });
+
+  it('should reject hostnames that do not resolve back to the client', async () => {
+    await expect(verifier.verify('203.0.113.6', createResult('Googlebot'))).resolves.toBe(false);
+  });
+
+  it('should not accept Google Cloud hostnames for Googlebot', async () => {
+    const cloud = createStubResolver(
+      {
+        '34.1.2.3': ['3.2.1.34.bc.googleusercontent.com'],
+        '34.1.2.4': ['4.2.1.34.gae.googleusercontent.com'],
+      },
+      {
+        '3.2.1.34.bc.googleusercontent.com': ['34.1.2.3'],
+        '4.2.1.34.gae.googleusercontent.com': ['34.1.2.4'],
+      }
+    );
+    const cloudVerifier = createDnsVerifier({ resolver: cloud });
+
+    await expect(cloudVerifier.verify('34.1.2.3', createResult('Googlebot'))).resolves.toBe(false);
+    await expect(cloudVerifier.verify('34.1.2.4', createResult('Googlebot'))).resolves.toBe(false);
+    await expect(
+      cloudVerifier.verify('34.1.2.3', createResult('FeedFetcher-Google'))
+    ).resolves.toBe(false);
+    await expect(
+      cloudVerifier.verify('34.1.2.4', createResult('FeedFetcher-Google'))
+    ).resolves.toBe(true);
+  });
+
+  it('should reject IPs without PTR records', async () => {
+    await expect(verifier.verify('198.51.100.1', createResult('Googlebot'))).resolves.toBe(false);
+  });
+
+  it('should report unknown for unsupported bots and invalid IPs', async () => {
+    await expect(verifier.verify('66.249.66.1', createResult('AhrefsBot'))).resolves.toBe(
+      'unknown'
+    );
+    await expect(verifier.verify('66.249.66.1', createResult(null))).resolves.toBe('unknown');
+    await expect(verifier.verify('not-an-ip', createResult('Googlebot'))).resolves.toBe('unknown');
+  });
+
+  it('should report unknown on transient DNS failures', async () => {
+    const failing = createDnsVerifier({
+      resolver: {
+        reverse: () => Promise.reject(dnsError('ETIMEOUT')),
+        lookup: () => Promise.resolve([]),
+      },
+    });
+
+    await expect(failing.verify('66.249.66.1', createResult('Googlebot'))).resolves.toBe('unknown');
+  });
+
+  it('should report unknown when DNS exceeds the timeout', async () => {
+    vi.useFakeTimers();
+
+    const slow = createDnsVerifier({
+      timeout: 100,
+      resolver: {
+        reverse: () => new Promise(() => {}),
+        lookup: () => Promise.resolve([]),
+      },
+    });
+
+    const pending = slow.verify('66.249.66.1', createResult('Googlebot'));
+    vi.advanceTimersByTime(101);
+
+    await expect(pending).resolves.toBe('unknown');
+
+    vi.useRealTimers();
+  });
+
+  it('should support custom crawler suffixes', async () => {
+    const custom = createDnsVerifier({
+      resolver: createStubResolver(
+        { '192.0.2.10': ['bot1.crawl.example.com'] },
+        { 'bot1.crawl.example.com': ['192.0.2.10'] }
+      ),
+      crawlers: { CompanyCrawler: ['.crawl.example.com'] },
+    });
+
+    await expect(custom.verify('192.0.2.10', createResult('CompanyCrawler'))).resolves.toBe(true);
+  });
+});
+
+describe('koaIsBot with verifier', () => {
+  const createTestApp = (middleware: ReturnType<typeof koaIsBot>) => {
+    const testApp = new Koa();
+    testApp.use(middleware);
+    testApp.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return testApp;
+  };
+
+  const getClientIp = (ctx: Context) => ctx.get('X-Test-IP');
+
+  it('should add verified to bot results', async () => {
+    const testApp = createTestApp(
+      koaIsBot({ verifier: createDnsVerifier({ resolver }), getClientIp })
+    );
+
+    const genuine = await request(testApp.callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA)
+      .set('X-Test-IP', '66.249.66.1');
+    const spoofed = await request(testApp.callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA)
+      .set('X-Test-IP', '203.0.113.5');
+
+    expect(genuine.body.verified).toBe(true);
+    expect(spoofed.body.verified).toBe(false);
+  });
+
+  it('should not verify humans', async () => {
+    const testApp = createTestApp(
+      koaIsBot({ verifier: createDnsVerifier({ resolver }), getClientIp })
+    );
+
+    const response = await request(testApp.callback())
+      .get('/')
+      .set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0')
+      .set('X-Test-IP', '66.249.66.1');
+
+    expect(response.body.verified).toBeUndefined();
+  });
+
+  it('should cache verification results per IP', async () => {
+    const verify = vi.fn().mockResolvedValue(true);
+    const testApp = createTestApp(koaIsBot({ verifier: { verify }, getClientIp }));
+
+    for (let i = 0; i < 3; i++) {
+      await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '66.249.66.1');
+    }
+    await request(testApp.callback())
+      .get('/')
+      .set('User-Agent', GOOGLEBOT_UA)
+      .set('X-Test-IP', '66.249.66.2');
+
+    expect(verify).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cache unknown outcomes briefly', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const verify = vi.fn().mockResolvedValue('unknown');
+      const testApp = createTestApp(koaIsBot({ verifier: { verify }, getClientIp }));
+      for (const elapsed of [0, 1000, 61000]) {
+        vi.setSystemTime(Date.now() + elapsed);
+        await request(testApp.callback())
+          .get('/')
+          .set('User-Agent', GOOGLEBOT_UA)
+          .set('X-Test-IP', '66.249.66.1');
+      }
+
+      expect(verify).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report unknown when no client IP is available', async () => {
+    const testApp = createTestApp(
+      koaIsBot({ verifier: createDnsVerifier({ resolver }), getClientIp: () => undefined })
+    );
+
+    const response = await request(testApp.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+
+    expect(response.body.verified).toBe('unknown');
+  });
+});
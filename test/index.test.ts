@@ -228,6 +228,76 @@ describe('koaIsBot middleware', () => {
     });
   });
 
+  describe('spoof detection', () => {
+    const verifier = {
+      verify: (ip: string) => Promise.resolve(ip === '66.249.66.1' ? true : false),
+    };
+
+    const createVerifiedApp = (onSpoofDetected = vi.fn(), onBotDetected = vi.fn()) => {
+      const testApp = createTestApp(
+        koaIsBot({
+          verifier,
+          getClientIp: (ctx: Context) => ctx.get('X-Test-IP'),
+          onBotDetected,
+          onSpoofDetected,
+        })
+      );
+      return { testApp, onSpoofDetected, onBotDetected };
+    };
+
+    it('should mark failed verification as an impersonator', async () => {
+      const { testApp, onSpoofDetected, onBotDetected } = createVerifiedApp();
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', 'Mozilla/5.0 (compatible; Googlebot/2.1)')
+        .set('X-Test-IP', '203.0.113.5');
+
+      expect(response.body.isBot).toBe(true);
+      expect(response.body.spoofed).toBe(true);
+      expect(response.body.claimedBot).toBe('Googlebot');
+      expect(response.body.category).toBe('impersonator');
+      expect(response.body.knownBot).toBeNull();
+      expect(onBotDetected).toHaveBeenCalledTimes(1);
+      expect(onSpoofDetected).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ spoofed: true, claimedBot: 'Googlebot' })
+      );
+    });
+
+    it('should not flag verified bots', async () => {
+      const { testApp, onSpoofDetected } = createVerifiedApp();
+
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', 'Mozilla/5.0 (compatible; Googlebot/2.1)')
+        .set('X-Test-IP', '66.249.66.1');
+
+      expect(response.body.spoofed).toBe(false);
+      expect(response.body.claimedBot).toBeNull();
+      expect(response.body.knownBot).toBe('Googlebot');
+      expect(response.body.category).toBe('search-engine');
+      expect(onSpoofDetected).not.toHaveBeenCalled();
+    });
+
+    it('should not cache the impersonator outcome for other clients', async () => {
+      const { testApp } = createVerifiedApp();
+      const ua = 'Mozilla/5.0 (compatible; Googlebot/2.1)';
+
+      await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', ua)
+        .set('X-Test-IP', '203.0.113.5');
+      const response = await request(testApp.callback())
+        .get('/')
+        .set('User-Agent', ua)
+        .set('X-Test-IP', '66.249.66.1');
+
+      expect(response.body.spoofed).toBe(false);
+      expect(response.body.knownBot).toBe('Googlebot');
+    });
+  });
+
   describe('custom user agent extraction', () => {
     it('should use custom getUserAgent function', async () => {
       app.use(
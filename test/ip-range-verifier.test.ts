@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { createIpRangeVerifier, parseIpRangeList } from '../src/ip-range-verifier.js';
+import { createCidrMatcher, isSameIp, parseCidr } from '../src/ip.js';
+import type { BotDetectionResult } from '../src/types.js';
+
+const GOOGLE_RANGES = {
+  creationTime: '2025-11-01T00:00:00.000000',
+  prefixes: [
+    { ipv6Prefix: '2001:4860:4801:10::/64' },
+    { ipv4Prefix: '66.249.64.0/27' },
+    { ipv4Prefix: '66.249.66.0/27' },
+  ],
+};
+
+const createResult = (knownBot: string | null, operator: string | null): BotDetectionResult => ({
+  isBot: true,
+  botName: 'bot',
+  botPatterns: ['bot'],
+  userAgent: 'test',
+  category: 'search-engine',
+  subcategory: 'web',
+  knownBot,
+  operator,
+  score: 0.95,
+  signals: [],
+  automation: null,
+  clientHints: null,
+});
+
+describe('CIDR matching', () => {
+  it('should match IPv4 ranges', () => {
+    const contains = createCidrMatcher(['66.249.64.0/27', '10.0.0.1']);
+
+    expect(contains('66.249.64.0')).toBe(true);
+    expect(contains('66.249.64.31')).toBe(true);
+    expect(contains('66.249.64.32')).toBe(false);
+    expect(contains('10.0.0.1')).toBe(true);
+    expect(contains('10.0.0.2')).toBe(false);
+  });
+
+  it('should match IPv6 ranges in any notation', () => {
+    const contains = createCidrMatcher(['2001:4860:4801:10::/64']);
+
+    expect(contains('2001:4860:4801:10::1')).toBe(true);
+    expect(contains('2001:4860:4801:0010:0000:0000:0000:ffff')).toBe(true);
+    expect(contains('2001:4860:4801:11::1')).toBe(false);
+  });
+
+  it('should treat IPv4-mapped IPv6 addresses as IPv4', () => {
+    const contains = createCidrMatcher(['66.249.64.0/27']);
+
+    expect(contains('::ffff:66.249.64.5')).toBe(true);
+    expect(isSameIp('::ffff:66.249.64.5', '66.249.64.5')).toBe(true);
+  });
+
+  it('should merge overlapping ranges and ignore invalid entries', () => {
+    const contains = createCidrMatcher(['10.0.0.0/8', '10.1.0.0/16', 'not-a-cidr', '1.2.3.4/40']);
+
+    expect(contains('10.1.2.3')).toBe(true);
+    expect(contains('11.0.0.0')).toBe(false);
+    expect(parseCidr('1.2.3.4/40')).toBeNull();
+    expect(contains('garbage')).toBe(false);
+  });
+
+  it('should reject empty or non-numeric prefixes instead of reading them as /0', () => {
+    const contains = createCidrMatcher(['66.249.64.0/', '66.249.66.0/ 8', '66.249.65.0/0x8']);
+
+    expect(parseCidr('66.249.64.0/')).toBeNull();
+    expect(parseCidr('66.249.64.0/24/8')).toBeNull();
+    expect(contains('8.8.8.8')).toBe(false);
+    expect(parseCidr(' 66.249.64.0/27 ')).toMatchObject({ version: 4 });
+  });
+});
+
+describe('parseIpRangeList', () => {
+  it('should parse the operator JSON format', () => {
+    expect(parseIpRangeList(GOOGLE_RANGES)).toEqual([
+      '2001:4860:4801:10::/64',
+      '66.249.64.0/27',
+      '66.249.66.0/27',
+    ]);
+  });
+
+  it('should parse arrays and newline-separated text', () => {
+    expect(parseIpRangeList(['1.2.3.0/24'])).toEqual(['1.2.3.0/24']);
+    expect(parseIpRangeList('# DuckDuckBot\n20.191.45.212\n\n40.88.21.235\n')).toEqual([
+      '20.191.45.212',
+      '40.88.21.235',
+    ]);
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => parseIpRangeList({} as never)).toThrow(TypeError);
+  });
+});
+
+describe('createIpRangeVerifier', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'koa-isbot-'));
+    await writeFile(join(dir, 'googlebot.json'), JSON.stringify(GOOGLE_RANGES));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should verify bots from local files keyed by operator', async () => {
+    const verifier = createIpRangeVerifier({
+      sources: { google: join(dir, 'googlebot.json') },
+    });
+
+    await expect(verifier.verify('66.249.66.1', createResult('Googlebot', 'google'))).resolves.toBe(
+      true
+    );
+    await expect(verifier.verify('203.0.113.5', createResult('Googlebot', 'google'))).resolves.toBe(
+      false
+    );
+  });
+
+  it('should prefer ranges keyed by bot name over the operator', async () => {
+    const verifier = createIpRangeVerifier({
+      sources: {
+        openai: () => ['192.0.2.0/24'],
+        GPTBot: () => ['198.51.100.0/24'],
+      },
+    });
+
+    await expect(verifier.verify('198.51.100.7', createResult('GPTBot', 'openai'))).resolves.toBe(
+      true
+    );
+    await expect(verifier.verify('192.0.2.7', createResult('GPTBot', 'openai'))).resolves.toBe(
+      false
+    );
+    await expect(
+      verifier.verify('192.0.2.7', createResult('ChatGPT-User', 'openai'))
+    ).resolves.toBe(true);
+  });
+
+  it('should report unknown for bots without ranges', async () => {
+    const verifier = createIpRangeVerifier({ sources: { google: () => GOOGLE_RANGES } });
+
+    await expect(verifier.verify('66.249.66.1', createResult('AhrefsBot', null))).resolves.toBe(
+      'unknown'
+    );
+    await expect(verifier.verify('bogus', createResult('Googlebot', 'google'))).resolves.toBe(
+      'unknown'
+    );
+  });
+
+  it('should load sources once until reloaded', async () => {
+    let ranges = ['192.0.2.0/24'];
+    const loader = vi.fn(() => ranges);
+    const verifier = createIpRangeVerifier({ sources: { google: loader } });
+    const result = createResult('Googlebot', 'google');
+
+    await expect(verifier.verify('192.0.2.1', result)).resolves.toBe(true);
+    await expect(verifier.verify('192.0.2.2', result)).resolves.toBe(true);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    ranges = ['198.51.100.0/24'];
+    await verifier.reload();
+
+    await expect(verifier.verify('192.0.2.1', result)).resolves.toBe(false);
+    await expect(verifier.verify('198.51.100.1', result)).resolves.toBe(true);
+  });
+
+  it('should keep previous ranges when a reload fails', async () => {
+    const onError = vi.fn();
+    const loader = vi
+      .fn<() => string[]>()
+      .mockReturnValueOnce(['192.0.2.0/24'])
+      .mockImplementationOnce(() => {
+        throw new Error('network down');
+      });
+    const verifier = createIpRangeVerifier({ sources: { google: loader }, onError });
+    const result = createResult('Googlebot', 'google');
+
+    await expect(verifier.verify('192.0.2.1', result)).resolves.toBe(true);
+    await verifier.reload();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), 'google');
+    await expect(verifier.verify('192.0.2.1', result)).resolves.toBe(true);
+  });
+
+  it('should reload periodically until disposed', async () => {
+    vi.useFakeTimers();
+
+    const loader = vi.fn(() => ['192.0.2.0/24']);
+    const verifier = createIpRangeVerifier({ sources: { google: loader }, reloadInterval: 1000 });
+
+    await verifier.reload();
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(loader).toHaveBeenCalledTimes(3);
+
+    verifier.dispose();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(loader).toHaveBeenCalledTimes(3);
+
+    vi.useRealTimers();
+  });
+
+  it('should plug into koaIsBot as a verifier', async () => {
+    const app = new Koa();
+    app.use(
+      koaIsBot({
+        verifier: createIpRangeVerifier({ sources: { google: () => GOOGLE_RANGES } }),
+        getClientIp: (ctx: Context) => ctx.get('X-Test-IP'),
+      })
+    );
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set('User-Agent', 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')
+      .set('X-Test-IP', '2001:4860:4801:10::42');
+
+    expect(response.body.operator).toBe('google');
+    expect(response.body.verified).toBe(true);
+  });
+});
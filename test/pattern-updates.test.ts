@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { BotDetectionCache, MemoryRemoteCacheStore } from '../src/cache.js';
+import { createBotDetector } from '../src/detector.js';
+import { hashPatternConfig, parsePatternFile } from '../src/pattern-updates.js';
+import type { KoaIsBotMiddleware, KoaIsBotOptions } from '../src/types.js';
+
+// Matched by none of the built-in patterns
+const PROBE_UA = 'Mozilla/5.0 (X11; Linux) acme-probe/1.0';
+const AHREFS_UA = 'Mozilla/5.0 (compatible; AhrefsBot/7.0)';
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+const PATTERNS_YAML = `
+# Patterns maintained by ops
+customPatterns:
+  - acme-probe   # seen 2026-10-01
+  - "company-crawler/\\\\d+"
+customBots:
+  - name: InternalMonitor
+    pattern: 'internal-monitor'
+    category: monitoring
+excludePatterns:
+  - bot: AhrefsBot
+`;
+
+describe('parsePatternFile', () => {
+  it('should parse block and flow lists of YAML scalars and mappings', () => {
+    expect(
+      parsePatternFile(
+        `customPatterns:\n  - acme-probe   # comment\n  - "company-crawler/\\\\d+"\n  - 'it''s-a-bot'\ncustomBots:\n  - name: InternalMonitor\n    pattern: internal-monitor\nexcludePatterns: [chrome-lighthouse, 'headless#1']\n`,
+        'yaml'
+      )
+    ).toEqual({
+      customPatterns: ['acme-probe', 'company-crawler/\\d+', "it's-a-bot"],
+      customBots: [{ name: 'InternalMonitor', pattern: 'internal-monitor' }],
+      excludePatterns: ['chrome-lighthouse', 'headless#1'],
+    });
+  });
+
+  it('should parse JSON', () => {
+    expect(
+      parsePatternFile(
+        '{"customPatterns":["acme-probe"],"excludePatterns":[{"bot":"AhrefsBot"}]}',
+        'json'
+      )
+    ).toEqual({ customPatterns: ['acme-probe'], excludePatterns: [{ bot: 'AhrefsBot' }] });
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => parsePatternFile('customPatterns:\n  - [a-z]+bot\n', 'yaml')).toThrow(
+      'line 2: quote values starting with "["'
+    );
+    expect(() => parsePatternFile('customPatterns:\n  acme-probe\n', 'yaml')).toThrow('line 2');
+    expect(() => parsePatternFile('patterns: [acme-probe]', 'yaml')).toThrow(
+      'unknown key "patterns"'
+    );
+    expect(() => parsePatternFile('{"customPatterns":"acme-probe"}', 'json')).toThrow(
+      'customPatterns must be a list'
+    );
+    expect(() => parsePatternFile('{"customPatterns":[', 'json')).toThrow(TypeError);
+  });
+});
+
+describe('koaIsBot runtime pattern updates', () => {
+  const createTestApp = (options: KoaIsBotOptions) => {
+    const middleware = koaIsBot(options);
+    const app = new Koa();
+    app.use(middleware);
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return { middleware, agent: request(app.callback()) };
+  };
+
+  const isBot = async (agent: ReturnType<typeof createTestApp>['agent'], userAgent: string) =>
+    ((await agent.get('/').set('User-Agent', userAgent)).body as { isBot: boolean }).isBot;
+
+  it('should add and remove patterns, dropping only the cached detections they change', async () => {
+    const { middleware, agent } = createTestApp({ customPatterns: ['company-crawler'] });
+
+    expect(await isBot(agent, PROBE_UA)).toBe(false);
+    expect(await isBot(agent, AHREFS_UA)).toBe(true);
+    expect(await isBot(agent, GOOGLEBOT_UA)).toBe(true);
+
+    await middleware.updatePatterns({ add: ['acme-probe'], remove: [{ bot: 'AhrefsBot' }] });
+
+    expect(middleware.getStats().detection?.size).toBe(1);
+    expect(await isBot(agent, PROBE_UA)).toBe(true);
+    expect(await isBot(agent, AHREFS_UA)).toBe(false);
+    expect(await isBot(agent, GOOGLEBOT_UA)).toBe(true);
+    expect(middleware.getStats().detection?.hits).toBe(1);
+
+    await middleware.updatePatterns({ remove: ['acme-probe'] });
+
+    expect(await isBot(agent, PROBE_UA)).toBe(false);
+  });
+
+  it('should keep the current patterns when an update is invalid', async () => {
+    const { middleware, agent } = createTestApp({ customPatterns: ['acme-probe'] });
+
+    await expect(middleware.updatePatterns({ remove: [{ bot: 'NoSuchBot' }] })).rejects.toThrow(
+      'Excluded bot "NoSuchBot" is not a known bot name'
+    );
+    await expect(middleware.updatePatterns({ remove: [/acme-probe/] })).rejects.toThrow(TypeError);
+    await expect(
+      middleware.updatePatterns({ add: [/acme-\d/], remove: ['acme-probe'] })
+    ).resolves.toBeUndefined();
+    expect(await isBot(agent, PROBE_UA)).toBe(false);
+  });
+
+  it('should move stores passed in to a key namespace of the new patterns', async () => {
+    const cacheStore = new MemoryRemoteCacheStore();
+    const { middleware, agent } = createTestApp({ cacheStore });
+    const digest = createBotDetector({ customPatterns: [/acme-probe\/\d/] }).id;
+
+    expect(await isBot(agent, PROBE_UA)).toBe(false);
+    await middleware.updatePatterns({ add: [/acme-probe\/\d/] });
+
+    expect(await isBot(agent, PROBE_UA)).toBe(true);
+    expect(await cacheStore.get(`detect@${digest}:${PROBE_UA}`)).toMatchObject({ isBot: true });
+
+    await middleware.updatePatterns({ remove: [/acme-probe\/\d/] });
+
+    expect(await isBot(agent, PROBE_UA)).toBe(false);
+    expect(await cacheStore.get(`detect:${PROBE_UA}`)).toMatchObject({ isBot: false });
+  });
+
+  it('should not share namespaces between instances applying different updates', async () => {
+    const cacheStore = new MemoryRemoteCacheStore();
+    const first = createTestApp({ cacheStore });
+    const second = createTestApp({ cacheStore });
+
+    await first.middleware.updatePatterns({ add: ['acme-probe'] });
+    await second.middleware.updatePatterns({ add: ['other-probe'] });
+
+    expect(await isBot(first.agent, PROBE_UA)).toBe(true);
+    expect(await isBot(second.agent, PROBE_UA)).toBe(false);
+  });
+
+  it('should keep detections of a shared LRU apart from instances keeping the old patterns', async () => {
+    const cacheStore = new BotDetectionCache();
+    const first = createTestApp({ cacheStore });
+    const second = createTestApp({ cacheStore });
+
+    expect(await isBot(first.agent, AHREFS_UA)).toBe(true);
+    await first.middleware.updatePatterns({ remove: [{ bot: 'AhrefsBot' }] });
+
+    expect(await isBot(first.agent, AHREFS_UA)).toBe(false);
+    expect(await isBot(second.agent, AHREFS_UA)).toBe(true);
+  });
+
+  it('should digest RegExps apart from strings of the same text', () => {
+    const config = { customPatterns: ['acme'], customBots: [], excludePatterns: [] };
+
+    expect(hashPatternConfig(config)).toBe(hashPatternConfig({ ...config }));
+    expect(hashPatternConfig(config)).not.toBe(
+      hashPatternConfig({ ...config, customPatterns: [/acme/] })
+    );
+    expect(hashPatternConfig({ ...config, customPatterns: [/acme/] })).not.toBe(
+      hashPatternConfig({ ...config, customPatterns: [/acme/i] })
+    );
+  });
+
+  it('should reject updates of a shared detector', async () => {
+    const { middleware } = createTestApp({ detector: createBotDetector() });
+
+    await expect(middleware.updatePatterns({ add: ['acme-probe'] })).rejects.toThrow(TypeError);
+    await expect(middleware.reload()).rejects.toThrow(TypeError);
+    expect(() => koaIsBot({ detector: createBotDetector(), patternFile: 'patterns.json' })).toThrow(
+      TypeError
+    );
+  });
+
+  describe('pattern files', () => {
+    let dir: string;
+    let middleware: KoaIsBotMiddleware | undefined;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'koa-isbot-'));
+      await writeFile(join(dir, 'patterns.yaml'), PATTERNS_YAML);
+    });
+
+    afterEach(async () => {
+      middleware?.dispose();
+      middleware = undefined;
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read patterns from the file and reload them on demand', async () => {
+      const app = createTestApp({ patternFile: join(dir, 'patterns.yaml') });
+      middleware = app.middleware;
+
+      expect(await isBot(app.agent, PROBE_UA)).toBe(true);
+      expect(await isBot(app.agent, AHREFS_UA)).toBe(false);
+      const monitor = await app.agent.get('/').set('User-Agent', 'internal-monitor/2');
+      expect(monitor.body).toMatchObject({ knownBot: 'InternalMonitor', category: 'monitoring' });
+
+      await middleware.updatePatterns({ add: ['extra-probe'] });
+      await writeFile(join(dir, 'patterns.yaml'), 'customPatterns: [other-probe]\n');
+      await middleware.reload();
+
+      expect(await isBot(app.agent, PROBE_UA)).toBe(false);
+      expect(await isBot(app.agent, AHREFS_UA)).toBe(true);
+      expect(await isBot(app.agent, 'Mozilla/5.0 (X11; Linux) extra-probe')).toBe(false);
+      expect(await isBot(app.agent, 'Mozilla/5.0 (X11; Linux) other-probe')).toBe(true);
+    });
+
+    it('should apply concurrent reloads in order', async () => {
+      const path = join(dir, 'patterns.yaml');
+      const app = createTestApp({ patternFile: path });
+      middleware = app.middleware;
+
+      await writeFile(path, 'customPatterns: [other-probe]\n');
+      const first = middleware.reload();
+      await writeFile(path, 'customPatterns: [third-probe]\n');
+      const second = middleware.reload();
+      await Promise.all([first, second]);
+
+      expect(await isBot(app.agent, 'Mozilla/5.0 (X11; Linux) other-probe')).toBe(false);
+      expect(await isBot(app.agent, 'Mozilla/5.0 (X11; Linux) third-probe')).toBe(true);
+    });
+
+    it('should fail construction on an invalid file, naming it', async () => {
+      const path = join(dir, 'patterns.json');
+      await writeFile(path, '{"customPatterns": "acme-probe"}');
+
+      expect(() => koaIsBot({ patternFile: path })).toThrow(`Pattern file ${path}:`);
+    });
+
+    it('should reload a watched file when it changes', async () => {
+      const onError = vi.fn();
+      const path = join(dir, 'patterns.yaml');
+      const app = createTestApp({ patternFile: { path, watch: true, watchInterval: 20, onError } });
+      middleware = app.middleware;
+
+      expect(await isBot(app.agent, PROBE_UA)).toBe(true);
+
+      await writeFile(path, 'customPatterns: [[broken\n');
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(TypeError)));
+      expect(await isBot(app.agent, PROBE_UA)).toBe(true);
+
+      await writeFile(path, 'excludePatterns:\n  - bot: AhrefsBot\n');
+      await vi.waitFor(async () => expect(await isBot(app.agent, PROBE_UA)).toBe(false));
+      expect(await isBot(app.agent, AHREFS_UA)).toBe(false);
+    });
+
+    it('should emit a warning for watched file errors without onError', async () => {
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+      const path = join(dir, 'patterns.yaml');
+      middleware = koaIsBot({ patternFile: { path, watch: true, watchInterval: 20 } });
+
+      try {
+        await writeFile(path, 'customPatterns: [[broken\n');
+        await vi.waitFor(() =>
+          expect(emitWarning).toHaveBeenCalledWith(
+            expect.stringContaining('Bot patterns not reloaded'),
+            'PatternFileWarning'
+          )
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,344 @@
+import { describe, it, expect, vi } from 'vitest';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { globToRegExp, koaBotPolicy } from '../src/policy.js';
+import type { BotPolicyRule, BotVerifier } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+const GPTBOT_UA = 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.0';
+const AHREFS_UA = 'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)';
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0';
+
+describe('koaBotPolicy', () => {
+  const createPolicyApp = (rules: BotPolicyRule[], verifier?: BotVerifier) => {
+    const app = new Koa();
+    app.use(koaIsBot({ verifier, getClientIp: (ctx: Context) => ctx.get('X-Test-IP') }));
+    app.use(koaBotPolicy({ rules }));
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    return app;
+  };
+
+  describe('actions', () => {
+    it('should deny with the default status', async () => {
+      const app = createPolicyApp([{ category: 'ai-crawler', action: 'deny' }]);
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(403);
+      expect(response.text).not.toBe('content');
+    });
+
+    it('should deny with a custom status and body', async () => {
+      const app = createPolicyApp([
+        { bot: 'GPTBot', action: 'deny', status: 451, body: { error: 'No AI training' } },
+      ]);
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(451);
+      expect(response.body).toEqual({ error: 'No AI training' });
+    });
+
+    it('should redirect', async () => {
+      const app = createPolicyApp([
+        { category: 'seo', action: 'redirect', location: '/for-bots', status: 301 },
+      ]);
+
+      const response = await request(app.callback()).get('/page').set('User-Agent', AHREFS_UA);
+
+      expect(response.status).toBe(301);
+      expect(response.headers.location).toBe('/for-bots');
+    });
+
+    it('should run custom handlers', async () => {
+      const handler = vi.fn((ctx: Context) => {
+        ctx.status = 429;
+      });
+      const app = createPolicyApp([{ bot: /ahrefs/i, action: handler }]);
+
+      const response = await request(app.callback()).get('/').set('User-Agent', AHREFS_UA);
+
+      expect(response.status).toBe(429);
+      expect(handler).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ knownBot: 'AhrefsBot' }),
+        expect.any(Function)
+      );
+    });
+
+    it('should let allowed and unmatched requests through', async () => {
+      const app = createPolicyApp([
+        { bot: 'Googlebot', action: 'allow' },
+        { isBot: true, action: 'deny' },
+      ]);
+
+      const googlebot = await request(app.callback()).get('/').set('User-Agent', GOOGLEBOT_UA);
+      const human = await request(app.callback()).get('/').set('User-Agent', CHROME_UA);
+      const other = await request(app.callback()).get('/').set('User-Agent', AHREFS_UA);
+
+      expect(googlebot.text).toBe('content');
+      expect(human.text).toBe('content');
+      expect(other.status).toBe(403);
+    });
+
+    it('should reject redirect rules without a location', () => {
+      expect(() => koaBotPolicy({ rules: [{ isBot: true, action: 'redirect' }] })).toThrow(
+        TypeError
+      );
+    });
+
+    it('should reject unknown actions', () => {
+      expect(() =>
+        koaBotPolicy({
+          rules: [{ name: 'block-ai', isBot: true, action: 'block' as BotPolicyRule['action'] }],
+        })
+      ).toThrow('Bot policy rule block-ai has an unknown action: block');
+    });
+  });
+
+  describe('matching', () => {
+    it('should evaluate rules in order', async () => {
+      const app = createPolicyApp([
+        { bot: 'GPTBot', path: '/public/**', action: 'allow' },
+        { category: 'ai-crawler', action: 'deny' },
+      ]);
+
+      const allowed = await request(app.callback())
+        .get('/public/docs/page')
+        .set('User-Agent', GPTBOT_UA);
+      const denied = await request(app.callback()).get('/private').set('User-Agent', GPTBOT_UA);
+
+      expect(allowed.status).toBe(200);
+      expect(denied.status).toBe(403);
+    });
+
+    it('should match methods case-insensitively', async () => {
+      const app = createPolicyApp([{ isBot: true, method: ['post'], action: 'deny' }]);
+
+      const get = await request(app.callback()).get('/').set('User-Agent', AHREFS_UA);
+      const post = await request(app.callback()).post('/').set('User-Agent', AHREFS_UA);
+
+      expect(get.status).toBe(200);
+      expect(post.status).toBe(403);
+    });
+
+    it('should match verification status', async () => {
+      const verifier: BotVerifier = {
+        verify: (ip) => Promise.resolve(ip === '66.249.66.1'),
+      };
+      const app = createPolicyApp(
+        [
+          { category: 'search-engine', verified: true, action: 'allow' },
+          { category: 'impersonator', action: 'deny', status: 401 },
+        ],
+        verifier
+      );
+
+      const genuine = await request(app.callback())
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '66.249.66.1');
+      const fake = await request(app.callback())
+        .get('/')
+        .set('User-Agent', GOOGLEBOT_UA)
+        .set('X-Test-IP', '203.0.113.5');
+
+      expect(genuine.status).toBe(200);
+      expect(fake.status).toBe(401);
+    });
+
+    it('should pass through when koaIsBot is not mounted', async () => {
+      const app = new Koa();
+      app.use(koaBotPolicy({ rules: [{ action: 'deny' }] }));
+      app.use((ctx) => {
+        ctx.body = 'content';
+      });
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should read the result from a custom state key', async () => {
+      const app = new Koa();
+      app.use(koaIsBot({ stateKey: 'bot' }));
+      app.use(koaBotPolicy({ stateKey: 'bot', rules: [{ isBot: true, action: 'deny' }] }));
+      app.use((ctx) => {
+        ctx.body = 'content';
+      });
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('dry run', () => {
+    const rules: BotPolicyRule[] = [
+      { name: 'block-ai', category: 'ai-crawler', action: 'deny' },
+      { bot: 'AhrefsBot', action: 'redirect', location: '/' },
+    ];
+
+    it('should record decisions without changing the response', async () => {
+      const onDecision = vi.fn();
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(koaBotPolicy({ rules, dryRun: true, onDecision }));
+      app.use((ctx) => {
+        ctx.body = { decision: ctx.state.botPolicy };
+      });
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(200);
+      expect(response.body.decision).toEqual({ rule: 'block-ai', action: 'deny', dryRun: true });
+      expect(response.headers['x-bot-policy']).toBe('deny; rule=block-ai');
+      expect(onDecision).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ rule: 'block-ai', action: 'deny' })
+      );
+    });
+
+    it('should keep the response when onDecision throws', async () => {
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(
+        koaBotPolicy({
+          rules,
+          dryRun: true,
+          onDecision: () => {
+            throw new Error('logger unavailable');
+          },
+        })
+      );
+      app.use((ctx) => {
+        ctx.body = 'content';
+      });
+
+      try {
+        const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+        expect(response.status).toBe(200);
+        expect(response.text).toBe('content');
+        expect(emitWarning).toHaveBeenCalledWith(
+          expect.stringContaining('logger unavailable'),
+          'BotPolicyWarning'
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    it('should label unnamed rules by index and unmatched requests as allow', async () => {
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(koaBotPolicy({ rules, dryRun: true }));
+      app.use((ctx) => {
+        ctx.body = 'content';
+      });
+
+      const ahrefs = await request(app.callback()).get('/').set('User-Agent', AHREFS_UA);
+      const human = await request(app.callback()).get('/').set('User-Agent', CHROME_UA);
+
+      expect(ahrefs.status).toBe(200);
+      expect(ahrefs.headers['x-bot-policy']).toBe('redirect; rule=#1');
+      expect(human.headers['x-bot-policy']).toBe('allow');
+    });
+
+    it('should encode rule names that are not valid header values', async () => {
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(
+        koaBotPolicy({
+          rules: [{ name: 'block AI – test\n', category: 'ai-crawler', action: 'deny' }],
+          dryRun: true,
+        })
+      );
+      app.use((ctx) => {
+        ctx.body = 'content';
+      });
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-bot-policy']).toBe('deny; rule=block AI %E2%80%93 test%0A');
+    });
+
+    it('should support a custom header and state key', async () => {
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(
+        koaBotPolicy({
+          rules,
+          dryRun: true,
+          decisionHeader: 'X-Would-Block',
+          decisionStateKey: 'policy',
+        })
+      );
+      app.use((ctx) => {
+        ctx.body = { decision: ctx.state.policy };
+      });
+
+      const response = await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(response.headers['x-would-block']).toBe('deny; rule=block-ai');
+      expect(response.body.decision.rule).toBe('block-ai');
+    });
+
+    it('should not set the header when enforcing or when disabled', async () => {
+      const enforcing = createPolicyApp(rules);
+      const silent = new Koa();
+      silent.use(koaIsBot());
+      silent.use(koaBotPolicy({ rules, dryRun: true, decisionHeader: false }));
+
+      const enforced = await request(enforcing.callback()).get('/').set('User-Agent', GPTBOT_UA);
+      const quiet = await request(silent.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(enforced.headers['x-bot-policy']).toBeUndefined();
+      expect(quiet.headers['x-bot-policy']).toBeUndefined();
+    });
+
+    it('should summarize rule hits', async () => {
+      const policy = koaBotPolicy({ rules, dryRun: true });
+      const app = new Koa();
+      app.use(koaIsBot());
+      app.use(policy);
+
+      await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+      await request(app.callback()).get('/').set('User-Agent', GPTBOT_UA);
+      await request(app.callback()).get('/').set('User-Agent', AHREFS_UA);
+      await request(app.callback()).get('/').set('User-Agent', CHROME_UA);
+
+      expect(policy.getSummary()).toEqual({
+        total: 4,
+        unmatched: 1,
+        rules: [
+          { rule: 'block-ai', action: 'deny', hits: 2 },
+          { rule: '#1', action: 'redirect', hits: 1 },
+        ],
+      });
+
+      policy.resetSummary();
+
+      expect(policy.getSummary().total).toBe(0);
+      expect(policy.getSummary().rules[0]!.hits).toBe(0);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it.each([
+      ['/api/*', '/api/users', true],
+      ['/api/*', '/api/users/1', false],
+      ['/api/**', '/api/users/1', true],
+      ['/file?.txt', '/file1.txt', true],
+      ['/sitemap.xml', '/sitemap-xml', false],
+    ])('%s should match %s: %s', (glob, path, expected) => {
+      expect(globToRegExp(glob).test(path)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { createTrustedProxy, parseForwarded } from '../src/proxy.js';
+import type { KoaIsBotOptions, TrustedProxyOptions } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// supertest connects from the loopback address, which plays the load balancer here
+const LOOPBACK = '127.0.0.1';
+
+describe('parseForwarded', () => {
+  it('should extract for= nodes with quotes, brackets and ports removed', () => {
+    expect(
+      parseForwarded('for=192.0.2.60;proto=http;by=203.0.113.43, for="[2001:db8:cafe::17]:4711"')
+    ).toEqual(['192.0.2.60', '2001:db8:cafe::17']);
+  });
+
+  it('should keep obfuscated and unknown nodes', () => {
+    expect(parseForwarded('For=unknown, for="_hidden", for="198.51.100.7:8080"')).toEqual([
+      'unknown',
+      '_hidden',
+      '198.51.100.7',
+    ]);
+  });
+});
+
+describe('createTrustedProxy', () => {
+  const createProxyApp = (options: TrustedProxyOptions) => {
+    const proxy = createTrustedProxy(options);
+    const app = new Koa();
+    app.use((ctx) => {
+      ctx.body = {
+        ip: proxy.getClientIp(ctx),
+        userAgent: proxy.getUserAgent(ctx),
+        trusted: proxy.isTrusted(ctx),
+        verifiedBot: proxy.isVerifiedBot(ctx),
+      };
+    });
+    return app;
+  };
+
+  it('should ignore forwarding headers from untrusted peers', async () => {
+    const app = createProxyApp({ proxies: ['10.0.0.0/8'] });
+
+    const response = await request(app.callback()).get('/').set('X-Forwarded-For', '203.0.113.7');
+
+    expect(response.body.ip).toBe(LOOPBACK);
+    expect(response.body.trusted).toBe(false);
+  });
+
+  it('should resolve the client through trusted proxy CIDRs', async () => {
+    const app = createProxyApp({ proxies: [LOOPBACK, '10.0.0.0/8'] });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set('X-Forwarded-For', '203.0.113.7, 10.1.2.3');
+
+    expect(response.body.ip).toBe('203.0.113.7');
+    expect(response.body.trusted).toBe(true);
+  });
+
+  it('should not trust addresses the client prepended', async () => {
+    const app = createProxyApp({ proxies: [LOOPBACK] });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set('X-Forwarded-For', '66.249.66.1, 203.0.113.7');
+
+    expect(response.body.ip).toBe('203.0.113.7');
+  });
+
+  it('should trust a fixed number of hops', async () => {
+    const app = createProxyApp({ hops: 2 });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set('X-Forwarded-For', '66.249.66.1, 203.0.113.7:5123, 198.51.100.2');
+
+    expect(response.body.ip).toBe('203.0.113.7');
+  });
+
+  it('should prefer the Forwarded header', async () => {
+    const app = createProxyApp({ proxies: [LOOPBACK, '2001:db8::/32'] });
+
+    const response = await request(app.callback()).get('/').set({
+      Forwarded: 'for=192.0.2.60;proto=https, for="[2001:db8:cafe::17]:4711"',
+      'X-Forwarded-For': '203.0.113.7',
+    });
+
+    expect(response.body.ip).toBe('192.0.2.60');
+  });
+
+  it('should stop at the last valid address of the chain', async () => {
+    const app = createProxyApp({ hops: 5 });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set('Forwarded', 'for=unknown, for=203.0.113.7');
+
+    expect(response.body.ip).toBe('203.0.113.7');
+  });
+
+  it('should read the original user agent from trusted proxies only', async () => {
+    const trusted = createProxyApp({ proxies: [LOOPBACK] });
+    const untrusted = createProxyApp({ proxies: ['10.0.0.0/8'] });
+    const headers = { 'User-Agent': 'edge-proxy/1.0', 'X-Original-User-Agent': GOOGLEBOT_UA };
+
+    const viaProxy = await request(trusted.callback()).get('/').set(headers);
+    const direct = await request(untrusted.callback()).get('/').set(headers);
+
+    expect(viaProxy.body.userAgent).toBe(GOOGLEBOT_UA);
+    expect(direct.body.userAgent).toBe('edge-proxy/1.0');
+  });
+
+  it('should honour CDN verdict headers from trusted proxies only', async () => {
+    const verifiedBotHeader = { name: 'CF-Verified-Bot' };
+    const trusted = createProxyApp({ proxies: [LOOPBACK], verifiedBotHeader });
+    const untrusted = createProxyApp({ verifiedBotHeader });
+
+    const verified = await request(trusted.callback()).get('/').set('CF-Verified-Bot', 'True');
+    const unverified = await request(trusted.callback()).get('/').set('CF-Verified-Bot', 'false');
+    const spoofed = await request(untrusted.callback()).get('/').set('CF-Verified-Bot', 'true');
+
+    expect(verified.body.verifiedBot).toBe(true);
+    expect(unverified.body.verifiedBot).toBe(false);
+    expect(spoofed.body.verifiedBot).toBe(false);
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => createTrustedProxy({ proxies: ['10.0.0.0/33'] })).toThrow(TypeError);
+    expect(() => createTrustedProxy({ proxies: ['load-balancer'] })).toThrow(/load-balancer/);
+    expect(() => createTrustedProxy({ hops: -1 })).toThrow(TypeError);
+    expect(() => createTrustedProxy({ hops: 1.5 })).toThrow(TypeError);
+  });
+});
+
+describe('koaIsBot trusted proxy', () => {
+  const createTestApp = (options: KoaIsBotOptions) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should verify the forwarded client IP', async () => {
+    const verify = vi.fn(() => Promise.resolve(true as const));
+    const app = createTestApp({ trustedProxy: { proxies: [LOOPBACK] }, verifier: { verify } });
+
+    await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, 'X-Forwarded-For': '66.249.66.1' });
+
+    expect(verify).toHaveBeenCalledWith('66.249.66.1', expect.anything());
+  });
+
+  it('should detect bots from the original user agent', async () => {
+    const app = createTestApp({ trustedProxy: { proxies: [LOOPBACK] } });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, 'X-Original-User-Agent': GOOGLEBOT_UA });
+
+    expect(response.body.knownBot).toBe('Googlebot');
+  });
+
+  it('should keep explicit extraction functions', async () => {
+    const app = createTestApp({
+      trustedProxy: { proxies: [LOOPBACK] },
+      getUserAgent: () => CHROME_UA,
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, 'X-Original-User-Agent': GOOGLEBOT_UA });
+
+    expect(response.body.isBot).toBe(false);
+  });
+
+  it('should treat a CDN verdict as verification in place of the verifier', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({
+      trustedProxy: { proxies: [LOOPBACK], verifiedBotHeader: { name: 'X-Verified-Bot' } },
+      verifier: { verify },
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, 'X-Verified-Bot': '1' });
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(response.body.verified).toBe(true);
+    expect(response.body.spoofed).toBe(false);
+  });
+
+  it('should ignore CDN verdicts from untrusted peers', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({
+      trustedProxy: { proxies: ['10.0.0.0/8'], verifiedBotHeader: { name: 'X-Verified-Bot' } },
+      verifier: { verify },
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, 'X-Verified-Bot': '1' });
+
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(response.body.spoofed).toBe(true);
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, vi } from 'vitest';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { koaBotRateLimit, MemoryRateLimitStore } from '../src/rate-limit.js';
+import type { KoaBotRateLimitOptions, RateLimitStore } from '../src/types.js';
+
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+const GPTBOT_UA = 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.0';
+const AHREFS_UA = 'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)';
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0';
+
+describe('MemoryRateLimitStore', () => {
+  describe('token bucket', () => {
+    const limit = { limit: 3, windowMs: 3000, algorithm: 'token-bucket' as const };
+
+    it('should allow bursts up to the limit', () => {
+      const store = new MemoryRateLimitStore();
+
+      expect(store.consume('k', limit, 0)).toEqual({
+        allowed: true,
+        remaining: 2,
+        retryAfterMs: 0,
+      });
+      expect(store.consume('k', limit, 0).remaining).toBe(1);
+      expect(store.consume('k', limit, 0).remaining).toBe(0);
+      expect(store.consume('k', limit, 0)).toEqual({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 1000,
+      });
+    });
+
+    it('should refill tokens over time', () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 3; i++) store.consume('k', limit, 0);
+
+      expect(store.consume('k', limit, 500)).toMatchObject({ allowed: false, retryAfterMs: 500 });
+      expect(store.consume('k', limit, 1000).allowed).toBe(true);
+      expect(store.consume('k', limit, 1000).allowed).toBe(false);
+    });
+  });
+
+  describe('sliding window', () => {
+    const limit = { limit: 4, windowMs: 1000, algorithm: 'sliding-window' as const };
+
+    it('should reject requests over the limit within a window', () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 4; i++) {
+        expect(store.consume('k', limit, 100).allowed).toBe(true);
+      }
+
+      const rejected = store.consume('k', limit, 100);
+      expect(rejected.allowed).toBe(false);
+      expect(rejected.retryAfterMs).toBe(1150);
+    });
+
+    it('should weight the previous window by its overlap', () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 4; i++) store.consume('k', limit, 900);
+
+      // At 1500 the previous window still counts for half: 4 * 0.5 = 2
+      expect(store.consume('k', limit, 1500).allowed).toBe(true);
+      expect(store.consume('k', limit, 1500).allowed).toBe(true);
+
+      const rejected = store.consume('k', limit, 1500);
+      expect(rejected.allowed).toBe(false);
+      // 4 * (1 - t) + 2 + 1 <= 4 once t >= 0.75 of the window
+      expect(rejected.retryAfterMs).toBe(250);
+      expect(store.consume('k', limit, 1750).allowed).toBe(true);
+    });
+
+    it('should reset after two idle windows', () => {
+      const store = new MemoryRateLimitStore();
+      for (let i = 0; i < 4; i++) store.consume('k', limit, 0);
+
+      expect(store.consume('k', limit, 2000)).toMatchObject({ allowed: true, remaining: 3 });
+    });
+  });
+
+  it('should keep counters per key', () => {
+    const store = new MemoryRateLimitStore();
+    const limit = { limit: 1, windowMs: 1000, algorithm: 'token-bucket' as const };
+
+    expect(store.consume('a', limit, 0).allowed).toBe(true);
+    expect(store.consume('a', limit, 0).allowed).toBe(false);
+    expect(store.consume('b', limit, 0).allowed).toBe(true);
+  });
+
+  it('should evict the least recently used counter when full', () => {
+    const store = new MemoryRateLimitStore(2);
+    const limit = { limit: 1, windowMs: 1000, algorithm: 'token-bucket' as const };
+
+    store.consume('a', limit, 0);
+    store.consume('b', limit, 0);
+    store.consume('c', limit, 0);
+
+    expect(store.size).toBe(2);
+    // 'a' was evicted, so it starts with a full bucket again
+    expect(store.consume('a', limit, 0).allowed).toBe(true);
+  });
+});
+
+describe('koaBotRateLimit', () => {
+  const createRateLimitApp = (options: KoaBotRateLimitOptions) => {
+    const app = new Koa();
+    app.use(koaIsBot({ cache: false }));
+    app.use(
+      koaBotRateLimit({
+        getClientIp: (ctx: Context) => ctx.get('X-Test-IP') || '203.0.113.1',
+        ...options,
+      })
+    );
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    return app;
+  };
+
+  it('should respond 429 with Retry-After over the limit', async () => {
+    const app = createRateLimitApp({ limits: { default: { limit: 2, windowMs: 60000 } } });
+    const agent = request(app.callback());
+
+    expect((await agent.get('/sitemap.xml').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    expect((await agent.get('/sitemap.xml').set('User-Agent', AHREFS_UA)).status).toBe(200);
+
+    const response = await agent.get('/sitemap.xml').set('User-Agent', AHREFS_UA);
+    expect(response.status).toBe(429);
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    expect(response.text).not.toBe('content');
+  });
+
+  it('should never limit humans', async () => {
+    const app = createRateLimitApp({ limits: { default: { limit: 1, windowMs: 60000 } } });
+    const agent = request(app.callback());
+
+    for (let i = 0; i < 3; i++) {
+      expect((await agent.get('/').set('User-Agent', CHROME_UA)).status).toBe(200);
+    }
+  });
+
+  it('should keep separate counters per bot and per IP', async () => {
+    const app = createRateLimitApp({ limits: { default: { limit: 1, windowMs: 60000 } } });
+    const agent = request(app.callback());
+
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(429);
+    expect((await agent.get('/').set('User-Agent', GPTBOT_UA)).status).toBe(200);
+
+    const otherIp = await agent
+      .get('/')
+      .set('User-Agent', AHREFS_UA)
+      .set('X-Test-IP', '203.0.113.2');
+    expect(otherIp.status).toBe(200);
+  });
+
+  it('should key by the client IP koaIsBot resolved through trusted proxies', async () => {
+    const app = new Koa();
+    app.use(koaIsBot({ trustedProxy: { proxies: ['127.0.0.1', '::1', '::ffff:127.0.0.1'] } }));
+    app.use(koaBotRateLimit({ limits: { default: { limit: 1, windowMs: 60000 } } }));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot?.clientIp;
+    });
+    const agent = request(app.callback());
+
+    const first = await agent
+      .get('/')
+      .set('User-Agent', AHREFS_UA)
+      .set('X-Forwarded-For', '203.0.113.1');
+    const again = await agent
+      .get('/')
+      .set('User-Agent', AHREFS_UA)
+      .set('X-Forwarded-For', '203.0.113.1');
+    const otherIp = await agent
+      .get('/')
+      .set('User-Agent', AHREFS_UA)
+      .set('X-Forwarded-For', '203.0.113.2');
+
+    expect(first.text).toBe('203.0.113.1');
+    expect(again.status).toBe(429);
+    expect(otherIp.status).toBe(200);
+  });
+
+  it('should prefer per-bot limits over category and default limits', async () => {
+    const app = createRateLimitApp({
+      algorithm: 'token-bucket',
+      limits: {
+        default: { limit: 100, windowMs: 60000 },
+        categories: { 'ai-crawler': { limit: 1, windowMs: 60000 } },
+        bots: { googlebot: { limit: 2, windowMs: 60000 } },
+      },
+    });
+    const agent = request(app.callback());
+
+    expect((await agent.get('/').set('User-Agent', GPTBOT_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', GPTBOT_UA)).status).toBe(429);
+
+    expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', GOOGLEBOT_UA)).status).toBe(429);
+
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+  });
+
+  it('should not limit bots without an applicable limit', async () => {
+    const app = createRateLimitApp({
+      limits: { categories: { seo: { limit: 1, windowMs: 60000 } } },
+    });
+    const agent = request(app.callback());
+
+    for (let i = 0; i < 3; i++) {
+      expect((await agent.get('/').set('User-Agent', GPTBOT_UA)).status).toBe(200);
+    }
+  });
+
+  it('should read the detection result from a custom state key', async () => {
+    const app = new Koa();
+    app.use(koaIsBot({ stateKey: 'bot' }));
+    app.use(
+      koaBotRateLimit({ stateKey: 'bot', limits: { default: { limit: 1, windowMs: 60000 } } })
+    );
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    const agent = request(app.callback());
+
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(429);
+  });
+
+  it('should pass through without a detection result', async () => {
+    const app = new Koa();
+    app.use(koaBotRateLimit({ limits: { default: { limit: 1, windowMs: 60000 } } }));
+    app.use((ctx) => {
+      ctx.body = 'content';
+    });
+    const agent = request(app.callback());
+
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+    expect((await agent.get('/').set('User-Agent', AHREFS_UA)).status).toBe(200);
+  });
+
+  it('should use custom stores and key generators', async () => {
+    const consume = vi.fn<RateLimitStore['consume']>(() =>
+      Promise.resolve({ allowed: false, remaining: 0, retryAfterMs: 2500 })
+    );
+    const app = createRateLimitApp({
+      store: { consume },
+      keyGenerator: (ctx, result) => `${result.category}:${ctx.path}`,
+      limits: { default: { limit: 5, windowMs: 1000 } },
+    });
+
+    const response = await request(app.callback()).get('/sitemap.xml').set('User-Agent', AHREFS_UA);
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('3');
+    expect(consume).toHaveBeenCalledWith(
+      'seo:/sitemap.xml',
+      { limit: 5, windowMs: 1000, algorithm: 'sliding-window' },
+      expect.any(Number)
+    );
+  });
+
+  it('should call onLimited with the detection and limit results', async () => {
+    const onLimited = vi.fn();
+    const app = createRateLimitApp({
+      limits: { default: { limit: 1, windowMs: 60000 } },
+      onLimited,
+    });
+    const agent = request(app.callback());
+
+    await agent.get('/').set('User-Agent', AHREFS_UA);
+    await agent.get('/').set('User-Agent', AHREFS_UA);
+
+    expect(onLimited).toHaveBeenCalledTimes(1);
+    expect(onLimited).toHaveBeenCalledWith(
+      expect.any(Object),
+      expect.objectContaining({ knownBot: 'AhrefsBot' }),
+      expect.objectContaining({ allowed: false })
+    );
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => koaBotRateLimit({ limits: { default: { limit: 0, windowMs: 1000 } } })).toThrow(
+      TypeError
+    );
+    expect(() =>
+      koaBotRateLimit({ limits: { bots: { GPTBot: { limit: 1, windowMs: -1 } } } })
+    ).toThrow(/windowMs must be positive/);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { list } from 'isbot';
+import { createBotDetector } from '../src/detector.js';
+import { analyzePattern, compileSafeMatcher } from '../src/redos.js';
+
+const EVIL_INPUT = `${'a'.repeat(32)}!`;
+// Matched by none of the built-in patterns
+const BROWSER_PREFIX = 'Mozilla/5.0 (X11; Linux)';
+
+describe('analyzePattern', () => {
+  it('should flag nested quantifiers', () => {
+    expect(analyzePattern(/(\w+\s?)+$/)).toEqual([
+      {
+        pattern: /(\w+\s?)+$/,
+        kind: 'nested-quantifier',
+        fragment: '(\\w+\\s?)+',
+        message:
+          'Unsafe bot pattern /(\\w+\\s?)+$/: nested quantifier in "(\\w+\\s?)+" can backtrack catastrophically',
+      },
+    ]);
+    expect(analyzePattern('(?:a*)*b')[0]?.kind).toBe('nested-quantifier');
+    expect(analyzePattern('x(?:ab{2,})+')[0]?.fragment).toBe('(?:ab{2,})+');
+  });
+
+  it('should flag repeated alternations with overlapping branches', () => {
+    expect(analyzePattern('(a|ab)*c')[0]).toMatchObject({
+      kind: 'ambiguous-alternation',
+      fragment: '(a|ab)*',
+    });
+    expect(analyzePattern(/(?:\w|\d)+$/)[0]?.kind).toBe('ambiguous-alternation');
+    expect(analyzePattern(/(?:A|a)+$/i)).toHaveLength(1);
+    expect(analyzePattern(/(?:A|a)+$/)).toEqual([]);
+  });
+
+  it('should flag unbounded quantifiers in a row over overlapping characters', () => {
+    expect(analyzePattern('a*a*a*b')[0]).toMatchObject({
+      kind: 'overlapping-quantifiers',
+      fragment: 'a*a*',
+    });
+    expect(analyzePattern('mozilla.*.*.*spider')[0]?.fragment).toBe('.*.*');
+    expect(analyzePattern(/\d+(?:-)?[0-9]+x/)[0]?.fragment).toBe('\\d+(?:-)?[0-9]+');
+    expect(analyzePattern(/A+a+$/i)).toHaveLength(1);
+    expect(analyzePattern(/A+a+$/)).toEqual([]);
+    expect(analyzePattern(/\d+-\d+/)).toEqual([]);
+  });
+
+  it('should accept common bot patterns', () => {
+    for (const pattern of [
+      'mybot',
+      'company-crawler/\\d+',
+      /(?:bot|spider)+/i,
+      /a+b+c*/,
+      /(ab)?x/,
+    ]) {
+      expect(analyzePattern(pattern), String(pattern)).toEqual([]);
+    }
+    for (const pattern of list) {
+      expect(analyzePattern(pattern), pattern).toEqual([]);
+    }
+  });
+});
+
+describe('compileSafeMatcher', () => {
+  const cases: [RegExp, string][] = [
+    [/bot/, 'Mozilla googlebot'],
+    [/BOT/i, 'googlebot/2.1'],
+    [/^mozilla/, 'Mozilla/5.0'],
+    [/a+?b/, 'xaaab'],
+    [/(a|ab)(c|bcd)(d*)/, 'abcd'],
+    [/\bcrawl\w*\b/, 'web-crawler/1'],
+    [/[^\s/]+\/\d+(?:\.\d+)?/, 'Mozilla/5.0 (compatible; Bot/2.1)'],
+    [/(?<!cu)bots?(?:\b|_)/i, 'CUBOT phone, robots_txt'],
+    [/(?<=compatible; )\w+/, 'Mozilla/5.0 (compatible; Bingbot/2.0)'],
+    [/google(?!(?:app|\/google))/i, 'GoogleApp Google/1.0'],
+    [/(\w)\1/, 'abccd'],
+    [/(?<q>["'])\w+\k<q>/, `say "hi' and 'yo'`],
+    [/^b.t$/m, 'first\nbot'],
+    [/a.b/s, 'a\nb'],
+    [/a.b/, 'a\nb'],
+    [/\u{1F916}bot/u, 'hello 🤖bot'],
+    [/x{2,3}/, 'xxxxx'],
+    [/bot/y, 'robot'],
+    [/[\d-]+/, 'ver-1-2'],
+  ];
+
+  it.each(cases)('should match %s like the native engine', (pattern, input) => {
+    expect(compileSafeMatcher(pattern).exec(input, 100)).toEqual({
+      match: pattern.exec(input)?.[0] ?? null,
+      timedOut: false,
+    });
+  });
+
+  it('should match like the native engine across patterns and inputs', () => {
+    const patterns: (string | RegExp)[] = [
+      '[^a-z]bot',
+      '[^A-Z]+bot',
+      '[^\\d]x',
+      'bot[^/]*/\\d',
+      'b[a-c]t',
+      /[^a-z]bot/,
+      /[^a-z]bot/i,
+      /[^\W_]+bot/i,
+      /[^K]/i,
+      /(?:bot|spider)s?\b/i,
+      /^(\w+)\/[\d.]+$/,
+    ];
+    const inputs = ['Xbot', 'xbot', '1bot', '-bot', '_bot', 'ROBOT/1.0', 'BAT', 'k', 'K', 'Bots'];
+
+    for (const pattern of patterns) {
+      const native = pattern instanceof RegExp ? pattern : new RegExp(pattern, 'i');
+      const matcher = compileSafeMatcher(pattern);
+      for (const input of inputs) {
+        expect(matcher.exec(input, 100).match, `${String(pattern)} on ${input}`).toBe(
+          native.exec(input)?.[0] ?? null
+        );
+      }
+    }
+  });
+
+  it('should give up on catastrophic backtracking within the budget', () => {
+    const matcher = compileSafeMatcher(/^(a+)+$/);
+    const start = Date.now();
+
+    expect(matcher.exec(EVIL_INPUT, 20)).toEqual({ match: null, timedOut: true });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should reject syntax it cannot evaluate', () => {
+    expect(() => compileSafeMatcher(/\p{L}+/u)).toThrow(TypeError);
+  });
+});
+
+describe('createBotDetector pattern safety', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject unsafe patterns with an error naming them', () => {
+    expect(() =>
+      createBotDetector({
+        customPatterns: ['mybot', /(a|ab)*c/],
+        patternSafety: { policy: 'reject' },
+      })
+    ).toThrow('Unsafe bot pattern /(a|ab)*c/');
+    expect(() =>
+      createBotDetector({
+        customBots: [{ name: 'Evil', pattern: '(x+x+)+y' }],
+        patternSafety: { policy: 'reject' },
+      })
+    ).toThrow(TypeError);
+  });
+
+  it('should warn about unsafe patterns by default', () => {
+    const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    const onWarning = vi.fn();
+
+    createBotDetector({ customPatterns: [/(\w+\s?)+$/] });
+    createBotDetector({ customPatterns: [/(\w+\s?)+$/], patternSafety: { onWarning } });
+    createBotDetector({ customPatterns: [/(\w+\s?)+$/], patternSafety: { policy: 'off' } });
+
+    expect(emitWarning).toHaveBeenCalledWith(
+      expect.stringContaining('/(\\w+\\s?)+$/'),
+      'UnsafePatternWarning'
+    );
+    expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ kind: 'nested-quantifier' }));
+    expect(emitWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bound custom pattern matches by the time budget', () => {
+    const onTimeout = vi.fn();
+    const detector = createBotDetector({
+      customPatterns: [/^(a+)+$/, 'acme-probe'],
+      patternSafety: { policy: 'off', matchTimeout: 20, onTimeout },
+    });
+
+    expect(detector.detect(EVIL_INPUT).isBot).toBe(false);
+    expect(onTimeout).toHaveBeenCalledWith(/^(a+)+$/, EVIL_INPUT);
+    expect(detector.detect(`${BROWSER_PREFIX} Acme-Probe`)).toMatchObject({
+      isBot: true,
+      botName: 'acme-probe',
+    });
+    expect(detector.detect('aaaa').isBot).toBe(true);
+  });
+
+  it('should reject invalid safety options', () => {
+    expect(() => createBotDetector({ patternSafety: { matchTimeout: 0 } })).toThrow(TypeError);
+    expect(() =>
+      createBotDetector({ patternSafety: { policy: 'ignore' as unknown as 'off' } })
+    ).toThrow(/ignore/);
+    expect(() =>
+      createBotDetector({ customPatterns: [/\p{L}bot/u], patternSafety: { matchTimeout: 5 } })
+    ).toThrow(/\/\\p\{L\}bot\/u/);
+  });
+});
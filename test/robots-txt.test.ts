@@ -0,0 +1,239 @@
+import { describe, it, expect } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import {
+  globToRobotsPath,
+  koaRobotsTxt,
+  renderAiTxt,
+  renderLlmsTxt,
+  renderRobotsTxt,
+} from '../src/robots-txt.js';
+import { isRobotsAllowed, parseRobotsTxt } from '../src/robots.js';
+import type { BotPolicyRule } from '../src/types.js';
+
+const rules: BotPolicyRule[] = [
+  { name: 'no-ai-training', category: 'ai-crawler', action: 'deny' },
+  { bot: ['ahrefsbot', 'UnknownBot'], path: '/search/**', action: 'deny' },
+  { bot: 'Googlebot', path: '/private/public-page', action: 'allow' },
+  { bot: 'Googlebot', path: '/private/*', action: 'deny' },
+  { category: 'impersonator', action: 'deny' },
+  { category: 'search-engine', verified: false, action: 'deny' },
+  { bot: /scraper/i, action: 'deny' },
+  { category: 'seo', action: 'redirect', location: '/' },
+  { category: 'seo', method: 'POST', action: 'deny' },
+];
+
+describe('robots.txt generation', () => {
+  describe('renderRobotsTxt', () => {
+    const robotsTxt = renderRobotsTxt({ rules, sitemaps: ['https://example.com/sitemap.xml'] });
+
+    it('should expand categories to user-agent tokens', () => {
+      expect(robotsTxt).toContain(
+        '# no-ai-training\nUser-agent: GPTBot\nUser-agent: OAI-SearchBot\nUser-agent: ClaudeBot'
+      );
+      expect(robotsTxt).toContain('User-agent: Google-Extended');
+      expect(robotsTxt).toContain('User-agent: CCBot');
+      expect(robotsTxt).not.toContain('User-agent: ChatGPT-User');
+    });
+
+    it('should use canonical tokens and convert path globs', () => {
+      expect(robotsTxt).toContain(
+        'User-agent: AhrefsBot\nUser-agent: UnknownBot\nDisallow: /search/'
+      );
+      expect(robotsTxt).toContain('User-agent: Googlebot\nAllow: /private/public-page$');
+      expect(robotsTxt).toContain('User-agent: Googlebot\nDisallow: /private/');
+    });
+
+    it('should skip rules robots.txt cannot express', () => {
+      expect(robotsTxt).not.toMatch(/impersonator|scraper|AdsBot/i);
+      expect(robotsTxt).not.toContain('SemrushBot');
+    });
+
+    it('should end with a default group and sitemaps', () => {
+      expect(robotsTxt).toMatch(
+        /User-agent: \*\nDisallow:\n\nSitemap: https:\/\/example\.com\/sitemap\.xml\n$/
+      );
+    });
+
+    it('should be readable by the robots.txt parser', () => {
+      const parsed = parseRobotsTxt(robotsTxt);
+      const bot = (knownBot: string) => ({ knownBot, botName: null, userAgent: '' });
+
+      expect(isRobotsAllowed(parsed, bot('GPTBot'), '/')).toBe(false);
+      expect(isRobotsAllowed(parsed, bot('AhrefsBot'), '/search/q')).toBe(false);
+      expect(isRobotsAllowed(parsed, bot('AhrefsBot'), '/about')).toBe(true);
+      expect(isRobotsAllowed(parsed, bot('Googlebot'), '/private/secret')).toBe(false);
+      expect(isRobotsAllowed(parsed, bot('Googlebot'), '/private/public-page')).toBe(true);
+    });
+
+    it('should render catch-all rules as the default group', () => {
+      const output = renderRobotsTxt({
+        rules: [{ isBot: true, path: '/admin/**', action: 'deny' }],
+      });
+
+      expect(output).toBe(
+        '# Generated by koa-isbot from bot policy rules\n\nUser-agent: *\nDisallow: /admin/\n'
+      );
+    });
+
+    it('should leave out tokens an earlier rule decided for the whole site', () => {
+      const output = renderRobotsTxt({
+        rules: [
+          { bot: 'GPTBot', action: 'deny' },
+          { category: 'ai-crawler', path: '/docs/**', action: 'allow' },
+          { category: 'ai-crawler', action: 'deny' },
+          { action: 'allow' },
+          { bot: 'AhrefsBot', action: 'deny' },
+        ],
+      });
+      const parsed = parseRobotsTxt(output);
+      const bot = (knownBot: string) => ({ knownBot, botName: null, userAgent: '' });
+
+      expect(output).not.toMatch(/User-agent: GPTBot\n(User-agent: .*\n)*Allow: \/docs\//);
+      expect(isRobotsAllowed(parsed, bot('GPTBot'), '/docs/intro')).toBe(false);
+      expect(isRobotsAllowed(parsed, bot('ClaudeBot'), '/docs/intro')).toBe(true);
+      expect(isRobotsAllowed(parsed, bot('ClaudeBot'), '/')).toBe(false);
+      expect(output).not.toContain('AhrefsBot');
+    });
+
+    it('should resolve tokens from custom classifications', () => {
+      const output = renderRobotsTxt({
+        rules: [{ category: 'monitoring', action: 'deny' }],
+        classifications: [{ pattern: 'acme', name: 'AcmeMonitor', category: 'monitoring' }],
+      });
+
+      expect(output).toContain('User-agent: AcmeMonitor');
+      expect(output).toContain('User-agent: UptimeRobot');
+    });
+  });
+
+  describe('globToRobotsPath', () => {
+    it.each([
+      ['/blog/**', '/blog/'],
+      ['/api/*', '/api/'],
+      ['/**', '/'],
+      ['**', '/'],
+      ['/files/**/*.pdf', '/files/*/*.pdf$'],
+      ['/exact', '/exact$'],
+    ])('%s -> %s', (glob, expected) => {
+      expect(globToRobotsPath(glob)).toBe(expected);
+    });
+  });
+
+  it('should render ai.txt with AI bots only', () => {
+    const aiTxt = renderAiTxt({ rules });
+
+    expect(aiTxt).toContain('User-agent: GPTBot');
+    expect(aiTxt).not.toContain('AhrefsBot');
+    expect(aiTxt).not.toContain('Googlebot');
+  });
+
+  it('should deny AI bots in ai.txt as in robots.txt under catch-all deny rules', () => {
+    const gptBot = { knownBot: 'GPTBot', botName: null, userAgent: '' };
+
+    for (const catchAll of [
+      [{ action: 'deny' }],
+      [
+        { category: 'search-engine', action: 'allow' },
+        { name: 'everyone-else', action: 'deny' },
+      ],
+    ] satisfies BotPolicyRule[][]) {
+      const robots = parseRobotsTxt(renderRobotsTxt({ rules: catchAll }));
+      const ai = parseRobotsTxt(renderAiTxt({ rules: catchAll }));
+
+      expect(isRobotsAllowed(robots, gptBot, '/')).toBe(false);
+      expect(isRobotsAllowed(ai, gptBot, '/')).toBe(false);
+      expect(renderAiTxt({ rules: catchAll })).not.toContain('Disallow:\n');
+    }
+  });
+
+  it('should render llms.txt', () => {
+    expect(
+      renderLlmsTxt({
+        title: 'Example',
+        summary: 'An example site',
+        details: 'AI training is not permitted.',
+        sections: {
+          Docs: [
+            { title: 'API', url: 'https://example.com/api.md', description: 'API reference' },
+            { title: 'Guide', url: 'https://example.com/guide.md' },
+          ],
+        },
+      })
+    ).toBe(
+      '# Example\n\n> An example site\n\nAI training is not permitted.\n\n## Docs\n' +
+        '- [API](https://example.com/api.md): API reference\n- [Guide](https://example.com/guide.md)\n'
+    );
+  });
+
+  describe('koaRobotsTxt', () => {
+    const lastModified = new Date('2025-11-01T00:00:00Z');
+
+    const createApp = () => {
+      const app = new Koa();
+      app.use(koaRobotsTxt({ rules, aiTxt: true, llmsTxt: { title: 'Example' }, lastModified }));
+      app.use((ctx) => {
+        ctx.body = 'app';
+      });
+      return app;
+    };
+
+    it('should serve the generated files', async () => {
+      const app = createApp();
+
+      const robots = await request(app.callback()).get('/robots.txt');
+      const ai = await request(app.callback()).get('/ai.txt');
+      const llms = await request(app.callback()).get('/llms.txt');
+
+      expect(robots.status).toBe(200);
+      expect(robots.headers['content-type']).toBe('text/plain; charset=utf-8');
+      expect(robots.text).toBe(renderRobotsTxt({ rules }));
+      expect(ai.text).toBe(renderAiTxt({ rules }));
+      expect(llms.headers['content-type']).toBe('text/markdown; charset=utf-8');
+      expect(llms.text).toBe('# Example\n');
+    });
+
+    it('should not serve optional files unless enabled', async () => {
+      const app = new Koa();
+      app.use(koaRobotsTxt({ rules }));
+      app.use((ctx) => {
+        ctx.body = 'app';
+      });
+
+      const response = await request(app.callback()).get('/ai.txt');
+
+      expect(response.text).toBe('app');
+    });
+
+    it('should pass through other paths and methods', async () => {
+      const app = createApp();
+
+      const other = await request(app.callback()).get('/');
+      const post = await request(app.callback()).post('/robots.txt');
+
+      expect(other.text).toBe('app');
+      expect(post.text).toBe('app');
+    });
+
+    it('should support conditional requests', async () => {
+      const app = createApp();
+
+      const first = await request(app.callback()).get('/robots.txt');
+      const byEtag = await request(app.callback())
+        .get('/robots.txt')
+        .set('If-None-Match', first.headers.etag as string);
+      const byDate = await request(app.callback())
+        .get('/robots.txt')
+        .set('If-Modified-Since', lastModified.toUTCString());
+      const stale = await request(app.callback())
+        .get('/robots.txt')
+        .set('If-None-Match', '"outdated"');
+
+      expect(first.headers.etag).toMatch(/^".+"$/);
+      expect(first.headers['last-modified']).toBe(lastModified.toUTCString());
+      expect(byEtag.status).toBe(304);
+      expect(byDate.status).toBe(304);
+      expect(stale.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import {
+  findRobotsGroups,
+  getRobotsCrawlDelay,
+  isRobotsAllowed,
+  loadRobotsTxt,
+  parseRobotsTxt,
+} from '../src/robots.js';
+
+const ROBOTS_TXT = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/public-page
+Disallow: /*.pdf$
+Crawl-delay: 5
+
+User-agent: Googlebot
+User-agent: Bingbot/2.0
+Disallow: /no-search/
+Allow: /
+
+User-agent: Googlebot-Image
+Disallow: /
+
+User-agent: GPTBot
+Disallow: /
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+const bot = (knownBot: string | null, userAgent = 'test', botName: string | null = null) => ({
+  knownBot,
+  botName,
+  userAgent,
+});
+
+describe('robots.txt', () => {
+  const robots = parseRobotsTxt(ROBOTS_TXT);
+
+  describe('parseRobotsTxt', () => {
+    it('should group consecutive user-agent lines', () => {
+      expect(robots.groups).toHaveLength(4);
+      expect(robots.groups[1]!.userAgents).toEqual(['googlebot', 'bingbot']);
+    });
+
+    it('should parse rules, crawl-delay and sitemaps', () => {
+      expect(robots.groups[0]).toEqual({
+        userAgents: ['*'],
+        rules: [
+          { allow: false, path: '/private/' },
+          { allow: true, path: '/private/public-page' },
+          { allow: false, path: '/*.pdf$' },
+        ],
+        crawlDelay: 5,
+      });
+      expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    });
+
+    it('should ignore empty disallow rules and invalid lines', () => {
+      const parsed = parseRobotsTxt('User-agent: *\nDisallow:\nnonsense\nCrawl-delay: abc');
+
+      expect(parsed.groups[0]!.rules).toEqual([]);
+      expect(parsed.groups[0]!.crawlDelay).toBeUndefined();
+    });
+  });
+
+  describe('findRobotsGroups', () => {
+    it('should map bot names to the most specific group', () => {
+      expect(findRobotsGroups(robots, bot('Googlebot-Image'))[0]!.userAgents).toEqual([
+        'googlebot-image',
+      ]);
+      expect(findRobotsGroups(robots, bot('Googlebot-News'))[0]!.userAgents).toContain('googlebot');
+      expect(findRobotsGroups(robots, bot('Bingbot'))[0]!.userAgents).toContain('bingbot');
+    });
+
+    it('should fall back to the user agent and then the default group', () => {
+      expect(
+        findRobotsGroups(robots, bot(null, 'Mozilla/5.0 (compatible; GPTBot/1.1)'))[0]!.userAgents
+      ).toEqual(['gptbot']);
+      expect(findRobotsGroups(robots, bot('AhrefsBot'))[0]!.userAgents).toEqual(['*']);
+    });
+  });
+
+  describe('isRobotsAllowed', () => {
+    it.each([
+      ['AhrefsBot', '/', true],
+      ['AhrefsBot', '/private/secret', false],
+      ['AhrefsBot', '/private/public-page', true],
+      ['AhrefsBot', '/docs/file.pdf', false],
+      ['AhrefsBot', '/docs/file.pdf?download=1', true],
+      ['Googlebot', '/private/secret', true],
+      ['Googlebot', '/no-search/page', false],
+      ['Googlebot-Image', '/logo.png', false],
+      ['GPTBot', '/anything', false],
+      ['GPTBot', '/robots.txt', true],
+    ])('%s fetching %s: %s', (knownBot, path, expected) => {
+      expect(isRobotsAllowed(robots, bot(knownBot), path)).toBe(expected);
+    });
+
+    it('should prefer allow when matching rules have equal length', () => {
+      const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+
+      expect(isRobotsAllowed(tie, bot(null), '/page')).toBe(true);
+    });
+
+    it('should allow everything without robots.txt rules', () => {
+      expect(isRobotsAllowed(parseRobotsTxt(''), bot('GPTBot'), '/private/')).toBe(true);
+    });
+  });
+
+  it('should read the crawl-delay for a bot', () => {
+    expect(getRobotsCrawlDelay(robots, bot('AhrefsBot'))).toBe(5);
+    expect(getRobotsCrawlDelay(robots, bot('Googlebot'))).toBeUndefined();
+  });
+
+  describe('loadRobotsTxt', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'koa-isbot-'));
+      await writeFile(join(dir, 'robots.txt'), ROBOTS_TXT);
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load from a string, file or function', async () => {
+      const fromString = await loadRobotsTxt(ROBOTS_TXT);
+      const fromFile = await loadRobotsTxt({ file: join(dir, 'robots.txt') });
+      const fromFunction = await loadRobotsTxt(() => Promise.resolve(ROBOTS_TXT));
+
+      expect(fromFile).toEqual(fromString);
+      expect(fromFunction).toEqual(fromString);
+    });
+  });
+
+  describe('middleware integration', () => {
+    const GPTBOT_UA = 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; GPTBot/1.0';
+    const AHREFS_UA = 'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)';
+
+    const createTestApp = (middleware: ReturnType<typeof koaIsBot>) => {
+      const testApp = new Koa();
+      testApp.use(middleware);
+      testApp.use((ctx) => {
+        ctx.body = ctx.state.isBot;
+      });
+      return testApp;
+    };
+
+    it('should flag disallowed requests', async () => {
+      const testApp = createTestApp(koaIsBot({ robots: { source: ROBOTS_TXT } }));
+
+      const allowed = await request(testApp.callback()).get('/').set('User-Agent', AHREFS_UA);
+      const disallowed = await request(testApp.callback())
+        .get('/private/x')
+        .set('User-Agent', AHREFS_UA);
+
+      expect(allowed.body.robotsAllowed).toBe(true);
+      expect(disallowed.status).toBe(200);
+      expect(disallowed.body.robotsAllowed).toBe(false);
+    });
+
+    it('should reject violators when enforcing', async () => {
+      const onBotDetected = vi.fn();
+      const testApp = createTestApp(
+        koaIsBot({ robots: { source: ROBOTS_TXT, enforce: 'reject', status: 451 }, onBotDetected })
+      );
+
+      const response = await request(testApp.callback()).get('/page').set('User-Agent', GPTBOT_UA);
+
+      expect(response.status).toBe(451);
+      expect(onBotDetected).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ robotsAllowed: false })
+      );
+    });
+
+    it('should not check humans', async () => {
+      const testApp = createTestApp(
+        koaIsBot({ robots: { source: ROBOTS_TXT, enforce: 'reject' } })
+      );
+
+      const response = await request(testApp.callback())
+        .get('/private/x')
+        .set('User-Agent', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0');
+
+      expect(response.status).toBe(200);
+      expect(response.body.robotsAllowed).toBeUndefined();
+    });
+
+    it('should load robots.txt once and retry after failures', async () => {
+      const loader = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('unavailable'))
+        .mockResolvedValue(ROBOTS_TXT);
+      const onError = vi.fn();
+      const testApp = createTestApp(koaIsBot({ robots: { source: loader, onError } }));
+
+      const failed = await request(testApp.callback()).get('/').set('User-Agent', GPTBOT_UA);
+      await request(testApp.callback()).get('/').set('User-Agent', GPTBOT_UA);
+      const loaded = await request(testApp.callback()).get('/').set('User-Agent', GPTBOT_UA);
+
+      expect(failed.status).toBe(200);
+      expect(failed.body.isBot).toBe(true);
+      expect(failed.body.robotsAllowed).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'unavailable' }));
+      expect(loaded.body.robotsAllowed).toBe(false);
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should warn without onError and fail the request when rejecting', async () => {
+      const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+      const source = () => Promise.reject(new Error('unavailable'));
+
+      try {
+        const flagged = await request(createTestApp(koaIsBot({ robots: { source } })).callback())
+          .get('/')
+          .set('User-Agent', GPTBOT_UA);
+        const rejected = await request(
+          createTestApp(koaIsBot({ robots: { source, enforce: 'reject' } })).callback()
+        )
+          .get('/')
+          .set('User-Agent', GPTBOT_UA);
+
+        expect(flagged.status).toBe(200);
+        expect(emitWarning).toHaveBeenCalledWith(
+          'robots.txt not loaded: unavailable',
+          'RobotsTxtWarning'
+        );
+        expect(rejected.status).toBe(500);
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+  });
+});
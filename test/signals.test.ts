@@ -0,0 +1,298 @@
+import { describe, it, expect } from 'vitest';
+import Koa from 'koa';
+import type { Context } from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { createSignalScorer, DEFAULT_SIGNAL_WEIGHTS } from '../src/signals.js';
+import type { BotSignal, KoaIsBotOptions } from '../src/types.js';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+/**
+ * Headers a real Chrome sends on a top-level navigation
+ */
+const BROWSER_HEADERS = {
+  'User-Agent': CHROME_UA,
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Sec-Fetch-Site': 'none',
+  'Sec-Fetch-Mode': 'navigate',
+  'Sec-Fetch-Dest': 'document',
+  'Sec-CH-UA': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+  'Sec-CH-UA-Mobile': '?0',
+  'Sec-CH-UA-Platform': '"Windows"',
+};
+
+/**
+ * Names of the signals in a result (or a response body)
+ */
+const signalNames = (signals: unknown) => (signals as BotSignal[]).map((signal) => signal.name);
+
+describe('createSignalScorer', () => {
+  it('should combine weights as independent evidence', () => {
+    const score = createSignalScorer();
+
+    const result = score([{ name: 'missing-accept' }, { name: 'missing-accept-language' }]);
+
+    // 1 - (1 - 0.3) * (1 - 0.25)
+    expect(result.score).toBe(0.475);
+    expect(result.signals).toEqual([
+      { name: 'missing-accept', weight: 0.3 },
+      { name: 'missing-accept-language', weight: 0.25 },
+    ]);
+  });
+
+  it('should score no signals as 0 and a verified bot as 1', () => {
+    const score = createSignalScorer();
+
+    expect(score([]).score).toBe(0);
+    expect(score([{ name: 'ua-match' }, { name: 'verified' }]).score).toBe(1);
+  });
+
+  it('should apply custom weights and drop disabled signals', () => {
+    const score = createSignalScorer({ 'missing-accept': 0, 'client-hint-mismatch': 0.8 });
+
+    const result = score([{ name: 'missing-accept' }, { name: 'client-hint-mismatch' }]);
+
+    expect(result.score).toBe(0.8);
+    expect(signalNames(result.signals)).toEqual(['client-hint-mismatch']);
+  });
+
+  it('should reject weights outside 0 to 1', () => {
+    expect(() => createSignalScorer({ 'ua-match': 1.5 })).toThrow(TypeError);
+    expect(() => createSignalScorer({ verified: -0.1 })).toThrow(/'verified'/);
+  });
+
+  it('should weight every signal by default', () => {
+    for (const weight of Object.values(DEFAULT_SIGNAL_WEIGHTS)) {
+      expect(weight).toBeGreaterThan(0);
+      expect(weight).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('bot signals', () => {
+  const createSignalsApp = (options: KoaIsBotOptions = {}) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  describe('header signals', () => {
+    it('should find no signals on a complete browser request', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback()).get('/').set(BROWSER_HEADERS);
+
+      expect(response.body.isBot).toBe(false);
+      expect(response.body.score).toBe(0);
+      expect(response.body.signals).toEqual([]);
+    });
+
+    it('should flag missing Accept headers', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, Accept: '', 'Accept-Language': '', 'Accept-Encoding': '' });
+
+      expect(signalNames(response.body.signals)).toEqual([
+        'missing-accept',
+        'missing-accept-language',
+        'missing-accept-encoding',
+      ]);
+    });
+
+    it('should flag browsers without Sec-Fetch-* headers', async () => {
+      const app = createSignalsApp();
+      const {
+        'Sec-Fetch-Site': _,
+        'Sec-Fetch-Mode': __,
+        'Sec-Fetch-Dest': ___,
+        ...headers
+      } = BROWSER_HEADERS;
+
+      const response = await request(app.callback()).get('/').set(headers);
+
+      expect(signalNames(response.body.signals)).toEqual(['missing-sec-fetch']);
+    });
+
+    it('should flag inconsistent Sec-Fetch-* headers', async () => {
+      const app = createSignalsApp();
+
+      const partial = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'Sec-Fetch-Dest': '' });
+      const navigateImage = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'Sec-Fetch-Dest': 'image' });
+
+      expect(signalNames(partial.body.signals)).toEqual(['inconsistent-sec-fetch']);
+      expect(navigateImage.body.signals[0].detail).toContain('Sec-Fetch-Dest image');
+    });
+
+    it('should flag client hints contradicting the user agent', async () => {
+      const app = createSignalsApp();
+
+      const platform = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'Sec-CH-UA-Platform': '"macOS"' });
+      const version = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'Sec-CH-UA': '"Chromium";v="99"' });
+      const mobile = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'Sec-CH-UA-Mobile': '?1' });
+
+      expect(signalNames(platform.body.signals)).toEqual(['client-hint-mismatch']);
+      expect(platform.body.signals[0].detail).toContain('Sec-CH-UA-Platform');
+      expect(version.body.signals[0].detail).toContain('Chromium 99');
+      expect(mobile.body.signals[0].detail).toContain('Sec-CH-UA-Mobile');
+    });
+
+    it('should flag client hints from non-Chromium browsers', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback())
+        .get('/')
+        .set({
+          ...BROWSER_HEADERS,
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; rv:120.0) Gecko/20100101 Firefox/120.0',
+        });
+
+      expect(signalNames(response.body.signals)).toEqual(['client-hint-mismatch']);
+    });
+  });
+
+  describe('result signals', () => {
+    it('should include the user agent match', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'User-Agent': GOOGLEBOT_UA });
+
+      expect(response.body.signals[0]).toEqual({
+        name: 'ua-match',
+        weight: 0.95,
+        detail: response.body.botName,
+      });
+      expect(response.body.score).toBeGreaterThanOrEqual(0.95);
+    });
+
+    it('should include the verification outcome', async () => {
+      const app = createSignalsApp({
+        verifier: { verify: (ip) => Promise.resolve(ip === '66.249.66.1') },
+        getClientIp: (ctx: Context) => ctx.get('X-Test-IP'),
+      });
+
+      const verified = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'User-Agent': GOOGLEBOT_UA, 'X-Test-IP': '66.249.66.1' });
+      const spoofed = await request(app.callback())
+        .get('/')
+        .set({ ...BROWSER_HEADERS, 'User-Agent': GOOGLEBOT_UA, 'X-Test-IP': '203.0.113.5' });
+
+      expect(signalNames(verified.body.signals)).toContain('verified');
+      expect(verified.body.score).toBe(1);
+      expect(spoofed.body.signals).toContainEqual({
+        name: 'verification-failed',
+        weight: 0.9,
+        detail: 'Googlebot',
+      });
+    });
+
+    it('should flag a missing user agent', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback()).get('/');
+
+      expect(response.body.isBot).toBe(false);
+      expect(signalNames(response.body.signals)).toContain('missing-user-agent');
+    });
+  });
+
+  describe('threshold', () => {
+    it('should reject thresholds outside 0 to 1', () => {
+      expect(() => koaIsBot({ threshold: NaN })).toThrow('Invalid threshold');
+      expect(() => koaIsBot({ threshold: 1.5 })).toThrow(TypeError);
+      expect(() => koaIsBot({ threshold: -0.1 })).toThrow(TypeError);
+      expect(() => koaIsBot({ threshold: '0.7' as unknown as number })).toThrow(TypeError);
+      expect(() => koaIsBot({ threshold: 0 })).not.toThrow();
+      expect(() => koaIsBot({ threshold: 1 })).not.toThrow();
+    });
+
+    it('should leave isBot to the user agent when unset', async () => {
+      const app = createSignalsApp();
+
+      const response = await request(app.callback())
+        .get('/')
+        .set({ 'User-Agent': CHROME_UA, 'Accept-Encoding': '' });
+
+      expect(response.body.score).toBeGreaterThan(0.7);
+      expect(response.body.isBot).toBe(false);
+    });
+
+    it('should mark requests scoring above the threshold as bots', async () => {
+      const app = createSignalsApp({ threshold: 0.7 });
+
+      const response = await request(app.callback())
+        .get('/')
+        .set({ 'User-Agent': CHROME_UA, 'Accept-Encoding': '' });
+
+      expect(response.body.isBot).toBe(true);
+      expect(response.body.category).toBe('other');
+    });
+
+    it('should keep complete browser requests human', async () => {
+      const app = createSignalsApp({ threshold: 0.7 });
+
+      const response = await request(app.callback()).get('/').set(BROWSER_HEADERS);
+
+      expect(response.body.isBot).toBe(false);
+      expect(response.body.category).toBeNull();
+    });
+
+    it('should mark requests without a user agent above the threshold as bots', async () => {
+      const app = createSignalsApp({ threshold: 0.7 });
+
+      const response = await request(app.callback()).get('/');
+
+      expect(response.body.isBot).toBe(true);
+    });
+
+    it('should clear the bot identity of user agent matches below the threshold', async () => {
+      const app = createSignalsApp({ threshold: 0.5, signalWeights: { 'ua-match': 0.4 } });
+
+      const response = await request(app.callback()).get('/').set({
+        'User-Agent': GOOGLEBOT_UA,
+        Accept: BROWSER_HEADERS.Accept,
+        'Accept-Language': BROWSER_HEADERS['Accept-Language'],
+        'Accept-Encoding': BROWSER_HEADERS['Accept-Encoding'],
+      });
+
+      expect(response.body.isBot).toBe(false);
+      expect(response.body.knownBot).toBeNull();
+      expect(response.body.category).toBeNull();
+      expect(signalNames(response.body.signals)).toContain('ua-match');
+    });
+
+    it('should score each request separately when caching', async () => {
+      const app = createSignalsApp({ threshold: 0.7 });
+
+      const browser = await request(app.callback()).get('/').set(BROWSER_HEADERS);
+      const script = await request(app.callback())
+        .get('/')
+        .set({ 'User-Agent': CHROME_UA, 'Accept-Encoding': '' });
+
+      expect(browser.body.isBot).toBe(false);
+      expect(script.body.isBot).toBe(true);
+    });
+  });
+});
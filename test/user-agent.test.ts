@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import { createBotDetector } from '../src/detector.js';
+import { normalizeUserAgent } from '../src/user-agent.js';
+import type { BotDetectionResult, KoaIsBotOptions } from '../src/types.js';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_NEXT_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.6167.85 Safari/537.36';
+
+const VERSIONS = ['1', '9.0', '17.4.1', '120.0.0.0', '121.0.6167.85', '999.99.9999.999'];
+const MAC_VERSIONS = ['10_15_7', '14_5', '10.15', '13.6.1'];
+const IOS_VERSIONS = ['17_5', '18_0_1', '9_3_5'];
+const BUILD_IDS = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'].map((letter) => `15${letter}148`);
+
+const CHROMIUM_PLATFORMS = [
+  'Windows NT 10.0; Win64; x64',
+  'Windows NT 6.1; Win64; x64',
+  ...MAC_VERSIONS.filter((v) => v.includes('_')).map((v) => `Macintosh; Intel Mac OS X ${v}`),
+  'X11; Linux x86_64',
+  'Linux; Android 10; K',
+  'Linux; Android 14.0.1; K',
+];
+
+/**
+ * Browser user agents across versions, platforms and build IDs
+ */
+const browserCorpus = (): string[] => {
+  const corpus: string[] = [];
+
+  for (const platform of CHROMIUM_PLATFORMS) {
+    for (const version of VERSIONS) {
+      for (const suffix of ['', ` Edg/${version}`, ` OPR/${version}`]) {
+        for (const mobile of ['', 'Mobile ']) {
+          corpus.push(
+            `Mozilla/5.0 (${platform}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${version} ${mobile}Safari/537.36${suffix}`
+          );
+        }
+      }
+    }
+  }
+
+  const firefoxPlatforms = [
+    'Windows NT 10.0; Win64; x64',
+    'Macintosh; Intel Mac OS X 10.15',
+    'X11; Linux x86_64',
+    'X11; Ubuntu; Linux x86_64',
+    'Android 14; Mobile',
+  ];
+  for (const platform of firefoxPlatforms) {
+    for (const version of VERSIONS) {
+      for (const gecko of ['20100101', version]) {
+        corpus.push(`Mozilla/5.0 (${platform}; rv:${version}) Gecko/${gecko} Firefox/${version}`);
+      }
+    }
+  }
+
+  const safariPlatforms = [
+    ...MAC_VERSIONS.map((v) => `Macintosh; Intel Mac OS X ${v}`),
+    ...IOS_VERSIONS.map((v) => `iPhone; CPU iPhone OS ${v} like Mac OS X`),
+    ...IOS_VERSIONS.map((v) => `iPad; CPU OS ${v} like Mac OS X`),
+  ];
+  for (const platform of safariPlatforms) {
+    for (const version of VERSIONS) {
+      for (const build of ['', ...BUILD_IDS.map((id) => `Mobile/${id} `)]) {
+        corpus.push(
+          `Mozilla/5.0 (${platform}) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/${version} ${build}Safari/604.1`
+        );
+      }
+    }
+  }
+
+  return corpus;
+};
+
+/**
+ * Bots and tools reusing browser user agents, which must never be normalized
+ */
+const BOT_CORPUS = [
+  'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.71 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/116.0.1938.76 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0.0.0 Safari/537.36',
+  `${CHROME_UA} Chrome-Lighthouse`,
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15 (Applebot/0.1; +http://www.apple.com/go/applebot)',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/BOT Safari/604.1',
+  'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'curl/8.4.0',
+];
+
+/**
+ * Detection outcome, without the echoed user agent
+ */
+const outcome = ({ userAgent: _userAgent, ...result }: BotDetectionResult) => result;
+
+describe('normalizeUserAgent', () => {
+  it('should collapse versions of the same browser and platform', () => {
+    expect(normalizeUserAgent(CHROME_UA)).toBe(normalizeUserAgent(CHROME_NEXT_UA));
+    expect(normalizeUserAgent(CHROME_UA)).not.toBeNull();
+  });
+
+  it('should keep browsers, platforms and device types apart', () => {
+    const keys = new Set(
+      [
+        CHROME_UA,
+        `${CHROME_UA} Edg/120.0.0.0`,
+        CHROME_UA.replace('Windows NT 10.0; Win64; x64', 'X11; Linux x86_64'),
+        CHROME_UA.replace('Safari/', 'Mobile Safari/'),
+      ].map(normalizeUserAgent)
+    );
+
+    expect(keys.size).toBe(4);
+  });
+
+  it('should not normalize bots or unknown user agents', () => {
+    for (const userAgent of BOT_CORPUS) {
+      expect(normalizeUserAgent(userAgent), userAgent).toBeNull();
+    }
+  });
+
+  it('should only collapse user agents with the same detection outcome', () => {
+    const detector = createBotDetector();
+    const groups = new Map<string, string[]>();
+
+    for (const userAgent of browserCorpus()) {
+      const key = normalizeUserAgent(userAgent);
+      expect(key, userAgent).not.toBeNull();
+      groups.set(key!, [...(groups.get(key!) ?? []), userAgent]);
+    }
+
+    // Far fewer keys than user agents, each shared by equivalent user agents only
+    expect(groups.size).toBeLessThan(browserCorpus().length / 4);
+    for (const [key, userAgents] of groups) {
+      const expected = outcome(detector.detect(userAgents[0]!));
+      expect(expected.isBot, key).toBe(false);
+      for (const userAgent of userAgents) {
+        expect(outcome(detector.detect(userAgent)), userAgent).toEqual(expected);
+      }
+    }
+  });
+});
+
+describe('koaIsBot normalizeCacheKeys', () => {
+  const createTestApp = (options: KoaIsBotOptions) => {
+    const app = new Koa();
+    app.use(koaIsBot(options));
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should share cached results between browser versions', async () => {
+    const detector = createBotDetector();
+    const detect = vi.spyOn(detector, 'detect');
+    const agent = request(createTestApp({ detector, normalizeCacheKeys: true }).callback());
+
+    await agent.get('/').set('User-Agent', CHROME_UA);
+    const response = await agent.get('/').set('User-Agent', CHROME_NEXT_UA);
+
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(response.body.isBot).toBe(false);
+    expect(response.body.userAgent).toBe(CHROME_NEXT_UA);
+  });
+
+  it('should key by the raw user agent by default or with custom patterns', async () => {
+    const cases: KoaIsBotOptions[] = [
+      { detector: createBotDetector() },
+      { detector: createBotDetector({ customPatterns: ['chrome/121'] }), normalizeCacheKeys: true },
+    ];
+
+    for (const options of cases) {
+      const detect = vi.spyOn(options.detector!, 'detect');
+      const agent = request(createTestApp(options).callback());
+
+      await agent.get('/').set('User-Agent', CHROME_UA);
+      const response = await agent.get('/').set('User-Agent', CHROME_NEXT_UA);
+
+      expect(detect).toHaveBeenCalledTimes(2);
+      expect(response.body.isBot).toBe(!!options.normalizeCacheKeys);
+    }
+  });
+});
@@ -0,0 +1,375 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaIsBot } from '../src/index.js';
+import {
+  createJwksKeyDirectory,
+  createWebBotAuthVerifier,
+  jwkThumbprint,
+  parseSignatureInput,
+} from '../src/web-bot-auth.js';
+import type { KoaIsBotOptions, SignatureKeyBinding, SignatureKeyDirectory } from '../src/types.js';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const GOOGLEBOT_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+const AGENT = '"https://agent.example"';
+
+const ed25519 = generateKeyPairSync('ed25519');
+const p256 = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const ED25519_JWK = ed25519.publicKey.export({ format: 'jwk' });
+const ED25519_KEY_ID = jwkThumbprint(ED25519_JWK);
+
+interface SignOptions {
+  privateKey?: KeyObject;
+  keyId?: string;
+  alg?: string;
+  created?: number;
+  expires?: number;
+  components?: Record<string, string>;
+}
+
+/**
+ * Sign a request the way a Web Bot Auth agent does, returning the headers to send
+ */
+const signRequest = (options: SignOptions = {}): Record<string, string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const alg = options.alg ?? 'ed25519';
+  const components = options.components ?? {
+    '@authority': 'example.com',
+    'signature-agent': AGENT,
+  };
+  const params =
+    `(${Object.keys(components)
+      .map((name) => `"${name}"`)
+      .join(' ')})` +
+    `;created=${options.created ?? now};expires=${options.expires ?? now + 300}` +
+    `;keyid="${options.keyId ?? ED25519_KEY_ID}";alg="${alg}";tag="web-bot-auth"`;
+  const base = [
+    ...Object.entries(components).map(([name, value]) => `"${name}": ${value}`),
+    `"@signature-params": ${params}`,
+  ].join('\n');
+  const signature =
+    alg === 'ed25519'
+      ? sign(null, Buffer.from(base), options.privateKey ?? ed25519.privateKey)
+      : sign('sha256', Buffer.from(base), {
+          key: options.privateKey ?? p256.privateKey,
+          dsaEncoding: 'ieee-p1363',
+        });
+
+  return {
+    Host: 'example.com',
+    'Signature-Agent': AGENT,
+    'Signature-Input': `sig1=${params}`,
+    Signature: `sig1=:${signature.toString('base64')}:`,
+  };
+};
+
+let dir: string;
+let jwksFile: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'koa-isbot-jwks-'));
+  jwksFile = join(dir, 'jwks.json');
+  await writeFile(
+    jwksFile,
+    JSON.stringify({
+      keys: [ED25519_JWK, { ...p256.publicKey.export({ format: 'jwk' }), kid: 'p256-key' }],
+    })
+  );
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('parseSignatureInput', () => {
+  it('should parse components and parameters', () => {
+    expect(
+      parseSignatureInput(
+        'sig1=("@authority" "signature-agent");created=1735689600;keyid="abc";tag="web-bot-auth"'
+      )
+    ).toEqual([
+      {
+        label: 'sig1',
+        components: ['@authority', 'signature-agent'],
+        params: { created: 1735689600, keyid: 'abc', tag: 'web-bot-auth' },
+        raw: '("@authority" "signature-agent");created=1735689600;keyid="abc";tag="web-bot-auth"',
+      },
+    ]);
+  });
+
+  it('should split multiple signatures and skip malformed members', () => {
+    const inputs = parseSignatureInput(
+      'sig1=("@method" "@path");nonce="a,b", broken, sig2=("@authority");keyid="k"'
+    );
+
+    expect(inputs.map(({ label }) => label)).toEqual(['sig1', 'sig2']);
+    expect(inputs[0]!.params.nonce).toBe('a,b');
+  });
+});
+
+describe('jwkThumbprint', () => {
+  it('should compute the RFC 8037 example thumbprint', () => {
+    expect(
+      jwkThumbprint({
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo',
+      })
+    ).toBe('kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k');
+  });
+
+  it('should reject unsupported key types', () => {
+    expect(() => jwkThumbprint({ kty: 'oct', k: 'secret' })).toThrow(TypeError);
+  });
+});
+
+describe('createJwksKeyDirectory', () => {
+  it('should find keys by thumbprint and kid in a JWKS file', async () => {
+    const keys = createJwksKeyDirectory(jwksFile);
+
+    expect(await keys.getKey(ED25519_KEY_ID, null)).toEqual(ED25519_JWK);
+    expect((await keys.getKey('p256-key', null))?.crv).toBe('P-256');
+    expect(await keys.getKey('unknown', null)).toBeNull();
+  });
+
+  it('should load the key set once from a loader', async () => {
+    const loader = vi.fn(() => ({ keys: [ED25519_JWK] }));
+    const keys = createJwksKeyDirectory(loader);
+
+    await keys.getKey(ED25519_KEY_ID, null);
+    await keys.getKey('unknown', null);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid key sets and retry the load', async () => {
+    const loader = vi
+      .fn()
+      .mockReturnValueOnce({ prefixes: [] })
+      .mockReturnValueOnce({ keys: [ED25519_JWK] });
+    const keys = createJwksKeyDirectory(loader);
+
+    await expect(keys.getKey(ED25519_KEY_ID, null)).rejects.toThrow(/"keys" array/);
+    expect(await keys.getKey(ED25519_KEY_ID, null)).toEqual(ED25519_JWK);
+  });
+
+  it('should bind keys to the directory identity unless they carry their own', async () => {
+    const p256Jwk = {
+      ...p256.publicKey.export({ format: 'jwk' }),
+      kid: 'claude',
+      bot: 'ClaudeBot',
+    };
+    const keys = createJwksKeyDirectory(() => ({ keys: [ED25519_JWK, p256Jwk] }), {
+      operator: 'openai',
+    });
+
+    expect(await keys.getKey(ED25519_KEY_ID, null)).toEqual({
+      ...ED25519_JWK,
+      operator: 'openai',
+    });
+    expect(await keys.getKey('claude', null)).toEqual(p256Jwk);
+  });
+});
+
+describe('createWebBotAuthVerifier', () => {
+  it('should reject a negative clock skew', () => {
+    const keys: SignatureKeyDirectory = { getKey: () => Promise.resolve(null) };
+
+    expect(() => createWebBotAuthVerifier({ keys, clockSkew: -1 })).toThrow(TypeError);
+  });
+});
+
+describe('koaIsBot signed agents', () => {
+  const createSignatureVerifier = (binding?: SignatureKeyBinding) =>
+    createWebBotAuthVerifier({ keys: createJwksKeyDirectory(jwksFile, binding) });
+
+  const createTestApp = (options: KoaIsBotOptions = {}) => {
+    const app = new Koa();
+    app.use(
+      koaIsBot({
+        signatureVerifier: createSignatureVerifier({ bot: 'Googlebot' }),
+        ...options,
+      })
+    );
+    app.use((ctx) => {
+      ctx.body = ctx.state.isBot;
+    });
+    return app;
+  };
+
+  it('should verify a valid Ed25519 signature', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest() });
+
+    expect(response.body.signedAgent).toEqual({
+      keyId: ED25519_KEY_ID,
+      agent: 'https://agent.example',
+      valid: true,
+      bot: 'Googlebot',
+    });
+    expect(response.body.isBot).toBe(true);
+    expect(response.body.knownBot).toBe('Googlebot');
+    expect(response.body.verified).toBe(true);
+    expect(response.body.score).toBe(1);
+  });
+
+  it('should verify a valid ECDSA P-256 signature', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({
+        'User-Agent': CHROME_UA,
+        ...signRequest({ keyId: 'p256-key', alg: 'ecdsa-p256-sha256' }),
+      });
+
+    expect(response.body.signedAgent.valid).toBe(true);
+  });
+
+  it('should use the signature in place of the IP verifier', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({ verifier: { verify } });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, ...signRequest() });
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(response.body.knownBot).toBe('Googlebot');
+    expect(response.body.verified).toBe(true);
+    expect(response.body.spoofed).toBe(false);
+  });
+
+  it('should verify claims of the operator a key is bound to', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({
+      verifier: { verify },
+      signatureVerifier: createSignatureVerifier({ operator: 'Google' }),
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, ...signRequest() });
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(response.body.verified).toBe(true);
+  });
+
+  it('should not verify claims of another bot than the key is bound to', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({
+      verifier: { verify },
+      signatureVerifier: createSignatureVerifier({ bot: 'GPTBot' }),
+    });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, ...signRequest() });
+
+    expect(response.body.signedAgent).toMatchObject({ valid: true, bot: 'GPTBot' });
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(response.body.spoofed).toBe(true);
+    expect(response.body.claimedBot).toBe('Googlebot');
+  });
+
+  it('should not verify anybody with an unbound key', async () => {
+    const app = createTestApp({ signatureVerifier: createSignatureVerifier() });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest() });
+
+    expect(response.body.signedAgent).toEqual({
+      keyId: ED25519_KEY_ID,
+      agent: 'https://agent.example',
+      valid: true,
+    });
+    expect(response.body.isBot).toBe(false);
+    expect(response.body.verified).toBeUndefined();
+  });
+
+  it('should fall back to the IP verifier when the signature is invalid', async () => {
+    const verify = vi.fn(() => Promise.resolve(false as const));
+    const app = createTestApp({ verifier: { verify } });
+
+    const response = await request(app.callback())
+      .get('/')
+      .set({ 'User-Agent': GOOGLEBOT_UA, ...signRequest(), Host: 'other.example' });
+
+    expect(response.body.signedAgent).toMatchObject({ valid: false, reason: 'Signature mismatch' });
+    expect(verify).toHaveBeenCalledTimes(1);
+    expect(response.body.spoofed).toBe(true);
+  });
+
+  it('should reject expired and future signatures', async () => {
+    const agent = request(createTestApp().callback());
+    const now = Math.floor(Date.now() / 1000);
+
+    const expired = await agent
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest({ created: now - 600, expires: now - 300 }) });
+    const future = await agent
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest({ created: now + 600 }) });
+
+    expect(expired.body.signedAgent.reason).toBe('Signature expired');
+    expect(expired.body.isBot).toBe(false);
+    expect(future.body.signedAgent.reason).toBe('Signature created in the future');
+  });
+
+  it('should require the signature to cover Signature-Agent', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({
+        'User-Agent': CHROME_UA,
+        ...signRequest({ components: { '@authority': 'example.com' } }),
+      });
+
+    expect(response.body.signedAgent.reason).toBe('Signature does not cover signature-agent');
+  });
+
+  it('should report unknown keys and mismatched algorithms', async () => {
+    const agent = request(createTestApp().callback());
+
+    const unknown = await agent
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest({ keyId: 'unknown' }) });
+    const mismatch = await agent
+      .get('/')
+      .set({ 'User-Agent': CHROME_UA, ...signRequest({ keyId: 'p256-key' }) });
+
+    expect(unknown.body.signedAgent).toEqual({
+      keyId: 'unknown',
+      agent: 'https://agent.example',
+      valid: false,
+      reason: 'Unknown key',
+    });
+    expect(mismatch.body.signedAgent.reason).toBe('Algorithm ed25519 does not match the key');
+  });
+
+  it('should reject signatures made with another key', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set({
+        'User-Agent': CHROME_UA,
+        ...signRequest({ privateKey: generateKeyPairSync('ed25519').privateKey }),
+      });
+
+    expect(response.body.signedAgent.reason).toBe('Signature mismatch');
+  });
+
+  it('should leave unsigned requests without signedAgent', async () => {
+    const response = await request(createTestApp().callback())
+      .get('/')
+      .set('User-Agent', CHROME_UA);
+
+    expect(response.body.signedAgent).toBeUndefined();
+    expect(response.body.isBot).toBe(false);
+  });
+});